@@ -1,34 +1,66 @@
 import type { RSClientCore } from '../core/client.js';
-import { BatchSizeLimitError, validateId } from '../core/errors.js';
+import type { RSRequestOptions } from '../core/types.js';
+import { toRSParams, type RSFunctionName, type RSFunctionParams } from '../core/api.js';
+import { BatchSizeLimitError, UrlTooLongError, validateId } from '../core/errors.js';
 import { assignCapability } from '../utils/assign-capability.js';
 
+/**
+ * Calls that take a CSV list of resource IDs are split into several signed
+ * requests when one would exceed `config.maxUrlLength`. If a later request
+ * fails, the earlier ones have already been applied.
+ */
 export interface BatchCapability {
   /** Update a field value on multiple resources at once. */
-  batchFieldUpdate(resourceIds: number[], fieldId: number, value: string): Promise<boolean>;
+  batchFieldUpdate(
+    resourceIds: number[],
+    fieldId: number,
+    value: string,
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /** Delete multiple resources. */
-  batchDelete(resourceIds: number[]): Promise<boolean>;
+  batchDelete(resourceIds: number[], requestOptions?: RSRequestOptions): Promise<boolean>;
 
   /** Add multiple resources to a collection. */
-  batchCollectionAdd(collectionId: number, resourceIds: number[]): Promise<boolean>;
+  batchCollectionAdd(
+    collectionId: number,
+    resourceIds: number[],
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /** Remove multiple resources from a collection. */
-  batchCollectionRemove(collectionId: number, resourceIds: number[]): Promise<boolean>;
+  batchCollectionRemove(
+    collectionId: number,
+    resourceIds: number[],
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /** Add nodes (keywords/categories) to multiple resources. */
-  batchNodesAdd(resourceIds: number[], nodeIds: number[]): Promise<boolean>;
+  batchNodesAdd(
+    resourceIds: number[],
+    nodeIds: number[],
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /**
    * Remove nodes from multiple resources.
    * @note Uses `remove_resource_nodes` which is not in the official RS API index.
    */
-  batchNodesRemove(resourceIds: number[], nodeIds: number[]): Promise<boolean>;
+  batchNodesRemove(
+    resourceIds: number[],
+    nodeIds: number[],
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /**
    * Update archive status for multiple resources.
    * @note Uses `update_resource_archive_status` which is not in the official RS API index.
    */
-  batchArchiveStatus(resourceIds: number[], archiveStatus: number): Promise<boolean>;
+  batchArchiveStatus(
+    resourceIds: number[],
+    archiveStatus: number,
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 }
 
 function enforceLimit(ids: number[], max: number): void {
@@ -43,71 +75,151 @@ function validateIds(ids: number[], name: string): void {
   }
 }
 
+/**
+ * Split `ids` into consecutive chunks whose signed URLs fit within
+ * `config.maxUrlLength`. Throws UrlTooLongError before anything is sent
+ * if a single ID does not fit (e.g. because of a huge field value).
+ */
+function planChunks<F extends RSFunctionName>(
+  client: RSClientCore,
+  functionName: F,
+  ids: number[],
+  paramsFor: (chunk: number[]) => RSFunctionParams<F>,
+): number[][] {
+  const limit = client.config.maxUrlLength;
+  const measure = (chunk: number[]) => client.measureUrl(functionName, toRSParams(paramsFor(chunk)));
+  const fits = (chunk: number[]) => measure(chunk) <= limit;
+  if (fits(ids)) return [ids];
+
+  const chunks: number[][] = [];
+  for (let start = 0; start < ids.length;) {
+    if (!fits(ids.slice(start, start + 1))) {
+      throw new UrlTooLongError(functionName, measure(ids.slice(start, start + 1)), limit);
+    }
+    // Largest chunk from `start` that still fits
+    let lo = 1;
+    let hi = ids.length - start;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (fits(ids.slice(start, start + mid))) lo = mid;
+      else hi = mid - 1;
+    }
+    chunks.push(ids.slice(start, start + lo));
+    start += lo;
+  }
+  return chunks;
+}
+
+/** Send a CSV-list call, split as needed to fit the URL length limit. */
+async function sendChunked<F extends RSFunctionName>(
+  client: RSClientCore,
+  functionName: F,
+  ids: number[],
+  paramsFor: (chunk: number[]) => RSFunctionParams<F>,
+  requestOptions?: RSRequestOptions,
+): Promise<boolean> {
+  const chunks = planChunks(client, functionName, ids, paramsFor);
+  if (chunks.length > 1) {
+    client.log.debug(`RS batch split to fit URL limit: ${functionName}`, {
+      function: functionName,
+      ids: ids.length,
+      requests: chunks.length,
+      maxUrlLength: client.config.maxUrlLength,
+    });
+  }
+
+  let ok = true;
+  for (const chunk of chunks) {
+    const result = await client.makeRequest(functionName, toRSParams(paramsFor(chunk)), requestOptions);
+    if (result === false) ok = false;
+  }
+  return ok;
+}
+
 export function withBatch<T extends RSClientCore>(client: T): T & BatchCapability {
   const max = client.config.maxBatchSize ?? 100;
 
   const methods: BatchCapability = {
-    async batchFieldUpdate(resourceIds: number[], fieldId: number, value: string): Promise<boolean> {
+    async batchFieldUpdate(
+      resourceIds: number[],
+      fieldId: number,
+      value: string,
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       enforceLimit(resourceIds, max);
       validateIds(resourceIds, 'resource ID');
       validateId(fieldId, 'field ID');
-      const result = await client.makeRequest<unknown>('update_field', {
-        resource: resourceIds.join(','),
-        field: fieldId.toString(),
+      return sendChunked(client, 'update_field', resourceIds, chunk => ({
+        resource: chunk.join(','),
+        field: fieldId,
         value,
-      });
-      return result !== false;
+      }), requestOptions);
     },
 
-    async batchDelete(resourceIds: number[]): Promise<boolean> {
+    async batchDelete(resourceIds: number[], requestOptions?: RSRequestOptions): Promise<boolean> {
       enforceLimit(resourceIds, max);
       validateIds(resourceIds, 'resource ID');
-      const result = await client.makeRequest<unknown>('delete_resource', {
-        resource: resourceIds.join(','),
-      });
-      return result !== false;
+      return sendChunked(client, 'delete_resource', resourceIds, chunk => ({
+        resource: chunk.join(','),
+      }), requestOptions);
     },
 
-    async batchCollectionAdd(collectionId: number, resourceIds: number[]): Promise<boolean> {
+    async batchCollectionAdd(
+      collectionId: number,
+      resourceIds: number[],
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       enforceLimit(resourceIds, max);
       validateId(collectionId, 'collection ID');
       validateIds(resourceIds, 'resource ID');
       for (const id of resourceIds) {
-        await client.makeRequest<unknown>('add_resource_to_collection', {
-          resource: id.toString(),
-          collection: collectionId.toString(),
-        });
+        await client.call('add_resource_to_collection', {
+          resource: id,
+          collection: collectionId,
+        }, requestOptions);
       }
       return true;
     },
 
-    async batchCollectionRemove(collectionId: number, resourceIds: number[]): Promise<boolean> {
+    async batchCollectionRemove(
+      collectionId: number,
+      resourceIds: number[],
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       enforceLimit(resourceIds, max);
       validateId(collectionId, 'collection ID');
       validateIds(resourceIds, 'resource ID');
       for (const id of resourceIds) {
-        await client.makeRequest<unknown>('remove_resource_from_collection', {
-          resource: id.toString(),
-          collection: collectionId.toString(),
-        });
+        await client.call('remove_resource_from_collection', {
+          resource: id,
+          collection: collectionId,
+        }, requestOptions);
       }
       return true;
     },
 
-    async batchNodesAdd(resourceIds: number[], nodeIds: number[]): Promise<boolean> {
+    async batchNodesAdd(
+      resourceIds: number[],
+      nodeIds: number[],
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       enforceLimit(resourceIds, max);
       validateIds(resourceIds, 'resource ID');
       validateIds(nodeIds, 'node ID');
       // RS add_resource_nodes_multi params: $resourceid (CSV), $nodes (CSV)
       // Handles multiple resources + multiple nodes in a single call
-      const result = await client.makeRequest<unknown>('add_resource_nodes_multi', {
-        resourceid: resourceIds.join(','),
-        nodes: nodeIds.join(','),
-      });
-      return result !== false;
+      const nodes = nodeIds.join(',');
+      return sendChunked(client, 'add_resource_nodes_multi', resourceIds, chunk => ({
+        resourceid: chunk.join(','),
+        nodes,
+      }), requestOptions);
     },
 
-    async batchNodesRemove(resourceIds: number[], nodeIds: number[]): Promise<boolean> {
+    async batchNodesRemove(
+      resourceIds: number[],
+      nodeIds: number[],
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       enforceLimit(resourceIds, max);
       validateIds(resourceIds, 'resource ID');
       validateIds(nodeIds, 'node ID');
@@ -115,22 +227,25 @@ export function withBatch<T extends RSClientCore>(client: T): T & BatchCapabilit
       // Fall back to per-resource calls with comma-separated node IDs.
       const nodestring = nodeIds.join(',');
       for (const rid of resourceIds) {
-        await client.makeRequest<unknown>('remove_resource_nodes', {
-          resource: rid.toString(),
+        await client.call('remove_resource_nodes', {
+          resource: rid,
           nodestring,
-        });
+        }, requestOptions);
       }
       return true;
     },
 
-    async batchArchiveStatus(resourceIds: number[], archiveStatus: number): Promise<boolean> {
+    async batchArchiveStatus(
+      resourceIds: number[],
+      archiveStatus: number,
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       enforceLimit(resourceIds, max);
       validateIds(resourceIds, 'resource ID');
-      const result = await client.makeRequest<unknown>('update_resource_archive_status', {
-        resource: resourceIds.join(','),
-        archive: archiveStatus.toString(),
-      });
-      return result !== false;
+      return sendChunked(client, 'update_resource_archive_status', resourceIds, chunk => ({
+        resource: chunk.join(','),
+        archive: archiveStatus,
+      }), requestOptions);
     },
   };
 
@@ -1,75 +1,102 @@
 import type { RSClientCore } from '../core/client.js';
-import type { Resource, Collection, SearchOptions, CreateCollectionParams } from '../core/types.js';
+import type {
+  Resource,
+  Collection,
+  SearchOptions,
+  CollectionPagingOptions,
+  CreateCollectionParams,
+  RSRequestOptions,
+} from '../core/types.js';
 import { ensureArray, toNumber } from '../utils/response.js';
 import { validateId } from '../core/errors.js';
+import { collectionListDecoder, resourceListDecoder } from '../core/decoders.js';
+import type { RSFunctionParams } from '../core/api.js';
+import { SearchQuery } from '../utils/search-query.js';
 import { assignCapability } from '../utils/assign-capability.js';
+import { pageSearch } from './search-paging.js';
 
 export interface CollectionsCapability {
   /** Get collections for the current user (or specified user). */
-  getCollections(userId?: number): Promise<Collection[]>;
+  getCollections(userId?: number, requestOptions?: RSRequestOptions): Promise<Collection[]>;
 
   /**
    * Get resources in a collection, respecting collection sort order.
    * Uses do_search with `!collection<ID>` + `order_by=collection`.
    */
-  getCollectionResources(collectionId: number, options?: SearchOptions): Promise<Resource[]>;
+  getCollectionResources(
+    collectionId: number,
+    options?: SearchOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<Resource[]>;
+
+  /**
+   * Stream the resources of a collection in collection sort order, one
+   * `do_search` page at a time instead of a single 9999-row response.
+   * Paging works as for `iterateSearch`.
+   */
+  iterateCollectionResources(
+    collectionId: number,
+    options?: CollectionPagingOptions,
+    requestOptions?: RSRequestOptions,
+  ): AsyncGenerator<Resource, void, undefined>;
 
   /** Get all featured (public) collections. */
-  getAllFeaturedCollections(): Promise<Collection[]>;
+  getAllFeaturedCollections(requestOptions?: RSRequestOptions): Promise<Collection[]>;
 
   /** Get featured collections by parent category. */
-  getFeaturedCollections(parent: number): Promise<Collection[]>;
+  getFeaturedCollections(parent: number, requestOptions?: RSRequestOptions): Promise<Collection[]>;
 
   /** Search public collections. */
-  searchCollections(query: string): Promise<Collection[]>;
+  searchCollections(query: string, requestOptions?: RSRequestOptions): Promise<Collection[]>;
 
   /** Create a new collection. Returns the collection ID. */
-  createCollection(params: CreateCollectionParams): Promise<number>;
+  createCollection(params: CreateCollectionParams, requestOptions?: RSRequestOptions): Promise<number>;
 
   /** Delete a collection. */
-  deleteCollection(collectionId: number): Promise<boolean>;
+  deleteCollection(collectionId: number, requestOptions?: RSRequestOptions): Promise<boolean>;
 
   /** Add a resource to a collection. */
-  addToCollection(collectionId: number, resourceId: number): Promise<boolean>;
+  addToCollection(
+    collectionId: number,
+    resourceId: number,
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /** Remove a resource from a collection. */
-  removeFromCollection(collectionId: number, resourceId: number): Promise<boolean>;
+  removeFromCollection(
+    collectionId: number,
+    resourceId: number,
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /**
    * Share a collection via email.
    * @note Uses `collection_email` which is not in the official RS API index.
    * The internal RS function is `email_collection()`.
    */
-  shareCollection(collectionId: number, emails: string[], message?: string): Promise<boolean>;
-}
-
-/** Normalize RS collection rows (ref/parent often come as strings). */
-function normalizeCollection(row: Record<string, unknown>): Collection {
-  return {
-    ...row,
-    ref: toNumber(row.ref as string | number) ?? 0,
-    parent: row.parent === null ? null : (toNumber(row.parent as string | number) ?? null),
-    order_by: row.order_by !== undefined
-      ? (toNumber(row.order_by as string | number) ?? undefined)
-      : undefined,
-  } as Collection;
+  shareCollection(
+    collectionId: number,
+    emails: string[],
+    message?: string,
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 }
 
 export function withCollections<T extends RSClientCore>(client: T): T & CollectionsCapability {
   const methods: CollectionsCapability = {
-    async getCollections(userId?: number): Promise<Collection[]> {
-      const params: Record<string, string | number> = {};
-      if (userId !== undefined) params.user = userId;
-      const data = await client.makeRequest<unknown[]>('get_user_collections', params);
-      return ensureArray<Record<string, unknown>>(data).map(normalizeCollection);
+    async getCollections(userId?: number, requestOptions?: RSRequestOptions): Promise<Collection[]> {
+      const data = await client.call('get_user_collections', { user: userId }, requestOptions);
+      return client.decode(collectionListDecoder, ensureArray(data), 'get_user_collections');
     },
 
-    async getCollectionResources(collectionId: number, options: SearchOptions = {}): Promise<Resource[]> {
-      validateId(collectionId, 'collection ID');
+    async getCollectionResources(
+      collectionId: number,
+      options: SearchOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<Resource[]> {
       const { limit = 9999, dataJoins } = options;
-      // Uses do_search with collection syntax; param is $fetchrows not $limit
-      const params: Record<string, string | number | boolean> = {
-        search: `!collection${collectionId}`,
+      const params: RSFunctionParams<'do_search'> = {
+        search: new SearchQuery().collection(collectionId).toString(),
         order_by: 'collection',
         sort: 'ASC',
         offset: 0,
@@ -78,86 +105,103 @@ export function withCollections<T extends RSClientCore>(client: T): T & Collecti
       if (dataJoins && dataJoins.length > 0) {
         params.data_joins = dataJoins.join(',');
       }
-      const data = await client.makeRequest<Resource[]>('do_search', params);
-      return ensureArray<Resource>(data);
+      const data = await client.call('do_search', params, requestOptions);
+      return client.decode(resourceListDecoder, ensureArray(data), 'do_search');
     },
 
-    async getAllFeaturedCollections(): Promise<Collection[]> {
-      const data = await client.makeRequest<unknown[]>('get_all_featured_collections', {});
-      return ensureArray<Record<string, unknown>>(data)
-        .map(normalizeCollection)
+    iterateCollectionResources(
+      collectionId: number,
+      options: CollectionPagingOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): AsyncGenerator<Resource, void, undefined> {
+      const params: RSFunctionParams<'do_search'> = {
+        search: new SearchQuery().collection(collectionId).toString(),
+        order_by: 'collection',
+        sort: 'ASC',
+      };
+      if (options.dataJoins && options.dataJoins.length > 0) {
+        params.data_joins = options.dataJoins.join(',');
+      }
+      return pageSearch(client, params, options, requestOptions);
+    },
+
+    async getAllFeaturedCollections(requestOptions?: RSRequestOptions): Promise<Collection[]> {
+      const data = await client.call('get_all_featured_collections', {}, requestOptions);
+      return client.decode(collectionListDecoder, ensureArray(data), 'get_all_featured_collections')
         .filter(c => Number.isFinite(c.ref));
     },
 
-    async getFeaturedCollections(parent: number): Promise<Collection[]> {
+    async getFeaturedCollections(parent: number, requestOptions?: RSRequestOptions): Promise<Collection[]> {
       // Allow parent=0 (root level) since RS uses 0 for top-level featured collections
       if (parent !== 0) validateId(parent, 'parent collection ID');
-      const data = await client.makeRequest<unknown[]>('get_featured_collections', {
-        parent: parent.toString(),
-      });
-      return ensureArray<Record<string, unknown>>(data)
-        .map(normalizeCollection)
+      const data = await client.call('get_featured_collections', { parent }, requestOptions);
+      return client.decode(collectionListDecoder, ensureArray(data), 'get_featured_collections')
         .filter(c => Number.isFinite(c.ref));
     },
 
-    async searchCollections(query: string): Promise<Collection[]> {
-      const data = await client.makeRequest<unknown[]>('search_public_collections', {
-        search: query,
-      });
-      return ensureArray<Record<string, unknown>>(data).map(normalizeCollection);
+    async searchCollections(query: string, requestOptions?: RSRequestOptions): Promise<Collection[]> {
+      const data = await client.call('search_public_collections', { search: query }, requestOptions);
+      return client.decode(collectionListDecoder, ensureArray(data), 'search_public_collections');
     },
 
-    async createCollection(params: CreateCollectionParams): Promise<number> {
-      // RS create_collection params: $name, $forupload
+    async createCollection(
+      params: CreateCollectionParams,
+      requestOptions?: RSRequestOptions,
+    ): Promise<number> {
       // Note: public/allow_changes are NOT documented API params.
       // Set these properties after creation if needed.
-      const reqParams: Record<string, string | number | boolean> = {
-        name: params.name,
-      };
-
-      const result = await client.makeRequest<number | { ref: number }>('create_collection', reqParams);
+      const result = await client.call('create_collection', { name: params.name }, requestOptions);
       const ref = typeof result === 'object' && result !== null ? toNumber(result.ref) : toNumber(result);
       if (ref === null) throw new Error('create_collection returned invalid ref');
       return ref;
     },
 
-    async deleteCollection(collectionId: number): Promise<boolean> {
+    async deleteCollection(collectionId: number, requestOptions?: RSRequestOptions): Promise<boolean> {
       validateId(collectionId, 'collection ID');
-      // RS delete_collection param: $collection
-      const result = await client.makeRequest<unknown>('delete_collection', {
-        collection: collectionId.toString(),
-      });
+      const result = await client.call('delete_collection', { collection: collectionId }, requestOptions);
       return result !== false;
     },
 
-    async addToCollection(collectionId: number, resourceId: number): Promise<boolean> {
+    async addToCollection(
+      collectionId: number,
+      resourceId: number,
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       validateId(collectionId, 'collection ID');
       validateId(resourceId, 'resource ID');
-      const result = await client.makeRequest<unknown>('add_resource_to_collection', {
-        resource: resourceId.toString(),
-        collection: collectionId.toString(),
-      });
+      const result = await client.call('add_resource_to_collection', {
+        resource: resourceId,
+        collection: collectionId,
+      }, requestOptions);
       return result !== false;
     },
 
-    async removeFromCollection(collectionId: number, resourceId: number): Promise<boolean> {
+    async removeFromCollection(
+      collectionId: number,
+      resourceId: number,
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       validateId(collectionId, 'collection ID');
       validateId(resourceId, 'resource ID');
-      const result = await client.makeRequest<unknown>('remove_resource_from_collection', {
-        resource: resourceId.toString(),
-        collection: collectionId.toString(),
-      });
+      const result = await client.call('remove_resource_from_collection', {
+        resource: resourceId,
+        collection: collectionId,
+      }, requestOptions);
       return result !== false;
     },
 
-    async shareCollection(collectionId: number, emails: string[], message?: string): Promise<boolean> {
+    async shareCollection(
+      collectionId: number,
+      emails: string[],
+      message?: string,
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       validateId(collectionId, 'collection ID');
-      const params: Record<string, string | number> = {
-        ref: collectionId.toString(),
+      const result = await client.call('collection_email', {
+        ref: collectionId,
         emails: emails.join(','),
-      };
-      if (message) params.message = message;
-      const result = await client.makeRequest<unknown>('collection_email', params);
+        message: message || undefined,
+      }, requestOptions);
       return result !== false;
     },
   };
@@ -0,0 +1,367 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import { once } from 'node:events';
+import type { Writable } from 'node:stream';
+import type { RSClientCore } from '../core/client.js';
+import type { ResourcePathOptions, RSRequestOptions, RSTransportResponse } from '../core/types.js';
+import type { ResourcesCapability } from './resources.js';
+import {
+  ChecksumMismatchError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RequestAbortedError,
+  ResourceSpaceError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  validateId,
+} from '../core/errors.js';
+import { DEFAULT_RETRY_POLICY, computeBackoff, sleep } from '../core/retry.js';
+import { defaultTransport, discardBody } from '../core/transport.js';
+import { assignCapability } from '../utils/assign-capability.js';
+
+/** Label for download errors, which do not come from an RS API function */
+const DOWNLOAD = 'download';
+const DEFAULT_MAX_RESUMES = 3;
+/** RS's default `file_checksum` covers the first 50 kB plus the file size */
+const CHECKSUM_HEAD_BYTES = 50_000;
+const CONTENT_RANGE = /^bytes (?:(\d+)-\d+|\*)\/(\d+|\*)$/;
+
+export interface DownloadProgress {
+  /** Bytes of the file received so far, including any resumed-from part */
+  bytesReceived: number;
+  /** File size, if the server reported it */
+  totalBytes?: number;
+}
+
+export interface DownloadOptions extends ResourcePathOptions {
+  /**
+   * Size variant (e.g. 'scr', 'pre'). Default: '' — the original file,
+   * unlike `getResourcePath`.
+   */
+  size?: string;
+  /**
+   * Compare an original against the resource's `file_checksum` (default:
+   * true). Previews, alternatives and watermarked files have none.
+   */
+  verifyChecksum?: boolean;
+  /**
+   * Continue a partial file left by an earlier download instead of
+   * starting over. File destinations only.
+   */
+  resume?: boolean;
+  /** Range requests made to continue an interrupted transfer (default 3) */
+  maxResumes?: number;
+  /** Called whenever bytes arrive */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+export interface DownloadResult {
+  /** URL the file was fetched from */
+  url: string;
+  /** Size of the complete file */
+  bytes: number;
+  /** Range requests answered with partial content, including one continuing a partial file */
+  resumes: number;
+  /** True if the file matched `file_checksum` */
+  checksumVerified: boolean;
+}
+
+export interface DownloadCapability {
+  /**
+   * Download a resource file (by default the original) to a file path or
+   * a writable stream. The URL comes from `getResourcePath`; the bytes are
+   * streamed with the configured transport, so middleware and caching do
+   * not apply to the transfer itself. `timeout` (default: config.timeout)
+   * limits how long the transfer may go without receiving any bytes.
+   *
+   * An interrupted or stalled transfer is continued with a Range request,
+   * backing off as for retries. Errors writing to the destination are
+   * thrown as they are, without continuing. For originals, the result is checked against
+   * `file_checksum` (ChecksumMismatchError on a mismatch; a file
+   * destination is then deleted). Streams are not ended by the download.
+   */
+  downloadResource(
+    ref: number,
+    destination: string | Writable,
+    options?: DownloadOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<DownloadResult>;
+}
+
+/** Where downloaded bytes go. `restart` discards everything written so far. */
+interface Sink {
+  write(chunk: Uint8Array): Promise<void>;
+  restart(): Promise<void>;
+  close(): Promise<void>;
+}
+
+async function writeTo(stream: Writable, chunk: Uint8Array): Promise<void> {
+  if (!stream.write(chunk)) await once(stream, 'drain');
+}
+
+function streamSink(stream: Writable): Sink {
+  return {
+    write: chunk => writeTo(stream, chunk),
+    restart: async () => {
+      throw new InvalidResponseError(DOWNLOAD, 'server ignored the Range request; cannot rewind a stream');
+    },
+    close: async () => {},
+  };
+}
+
+async function fileSink(path: string, append: boolean): Promise<Sink> {
+  let stream = fs.createWriteStream(path, { flags: append ? 'a' : 'w' });
+  await once(stream, 'open');
+  const close = async () => {
+    if (stream.closed) return;
+    stream.end();
+    await once(stream, 'close');
+  };
+  return {
+    write: chunk => writeTo(stream, chunk),
+    async restart() {
+      await close();
+      stream = fs.createWriteStream(path, { flags: 'w' });
+      await once(stream, 'open');
+    },
+    close,
+  };
+}
+
+/** The two checksums RS may have stored, computed as bytes arrive */
+class FileChecksum {
+  private readonly full = crypto.createHash('md5');
+  private readonly head: Buffer[] = [];
+  private headBytes = 0;
+  private size = 0;
+
+  update(chunk: Uint8Array): void {
+    this.full.update(chunk);
+    this.size += chunk.length;
+    if (this.headBytes < CHECKSUM_HEAD_BYTES) {
+      const part = Buffer.from(chunk.subarray(0, CHECKSUM_HEAD_BYTES - this.headBytes));
+      this.head.push(part);
+      this.headBytes += part.length;
+    }
+  }
+
+  /** MD5 of the whole file, and MD5 of the first 50 kB followed by the size */
+  digests(): [string, string] {
+    const head = crypto.createHash('md5').update(Buffer.concat(this.head)).update(String(this.size));
+    return [this.full.digest('hex'), head.digest('hex')];
+  }
+}
+
+/**
+ * An abort signal that fires once `ms` pass without a call to `reset`,
+ * i.e. when a transfer stalls. Call `clear` when done with it.
+ */
+function idleTimeout(ms: number): { signal: AbortSignal; reset(): void; clear(): void } {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const clear = () => clearTimeout(timer);
+  const reset = () => {
+    clear();
+    timer = setTimeout(() => controller.abort(new TimeoutError(DOWNLOAD, ms)), ms);
+  };
+  reset();
+  return { signal: controller.signal, reset, clear };
+}
+
+function statusError(status: number, url: string): ResourceSpaceError {
+  if (status === 401 || status === 403) return new PermissionError(DOWNLOAD, `HTTP ${status} for ${url}`);
+  if (status === 404) return new NotFoundError(DOWNLOAD, url);
+  if (status >= 500) return new ServerError(DOWNLOAD, status);
+  return new ResourceSpaceError(`Download failed with HTTP ${status}: ${url}`, DOWNLOAD, status);
+}
+
+/** Start offset and total size from a 206/416 Content-Range header */
+function contentRange(response: RSTransportResponse): { start?: number; total?: number } {
+  const match = CONTENT_RANGE.exec(response.headers?.get('content-range') ?? '');
+  if (!match) return {};
+  return {
+    start: match[1] !== undefined ? Number(match[1]) : undefined,
+    total: match[2] !== '*' ? Number(match[2]) : undefined,
+  };
+}
+
+/**
+ * Add streaming file downloads to an RS client.
+ * Builds on `withResources` — apply it first.
+ */
+export function withDownload<T extends RSClientCore & ResourcesCapability>(
+  client: T,
+): T & DownloadCapability {
+  const transport = client.config.transport ?? defaultTransport;
+  const backoff = { ...DEFAULT_RETRY_POLICY, ...(client.config.retry || {}) };
+
+  const methods: DownloadCapability = {
+    async downloadResource(
+      ref: number,
+      destination: string | Writable,
+      options: DownloadOptions = {},
+      requestOptions: RSRequestOptions = {},
+    ): Promise<DownloadResult> {
+      validateId(ref, 'resource ref');
+      const {
+        size = '',
+        verifyChecksum = true,
+        resume = false,
+        maxResumes = DEFAULT_MAX_RESUMES,
+        onProgress,
+        ...pathOptions
+      } = options;
+      if (!Number.isInteger(maxResumes) || maxResumes < 0) {
+        throw new ValidationError(`maxResumes must be an integer >= 0, got: ${maxResumes}`);
+      }
+      if (resume && typeof destination !== 'string') {
+        throw new ValidationError('resume needs a file path destination');
+      }
+      const { signal, timeout = client.config.timeout } = requestOptions;
+
+      const original = size === '' && pathOptions.alternative === undefined && !pathOptions.watermarked;
+      const [resource, url] = await Promise.all([
+        original && verifyChecksum ? client.getResource(ref, requestOptions) : null,
+        client.getResourcePath(ref, { ...pathOptions, size }, requestOptions),
+      ]);
+      if (!url) throw new NotFoundError('get_resource_path', `no file for resource ${ref}`);
+      const expected = resource?.file_checksum?.trim().toLowerCase() || null;
+
+      let checksum = new FileChecksum();
+      let received = 0;
+      if (resume && await fs.promises.stat(destination as string).then(() => true, () => false)) {
+        for await (const chunk of fs.createReadStream(destination as string) as AsyncIterable<Buffer>) {
+          checksum.update(chunk);
+          received += chunk.length;
+        }
+      }
+      const sink = typeof destination === 'string'
+        ? await fileSink(destination, received > 0)
+        : streamSink(destination);
+
+      let resumes = 0;
+      let interruptions = 0;
+      let total: number | undefined;
+      let validator: string | undefined;
+
+      /** Back off before continuing, or give up */
+      const interrupted = async (cause: unknown): Promise<void> => {
+        if (signal?.aborted) throw new RequestAbortedError(DOWNLOAD, signal.reason);
+        if (interruptions >= maxResumes) {
+          throw cause instanceof TimeoutError ? cause : new NetworkError(DOWNLOAD, cause);
+        }
+        await sleep(computeBackoff(++interruptions, backoff), signal);
+      };
+
+      try {
+        for (;;) {
+          const headers: Record<string, string> = {};
+          if (received > 0) {
+            headers.Range = `bytes=${received}-`;
+            if (validator) headers['If-Range'] = validator;
+          }
+          const idle = idleTimeout(timeout);
+          const requestSignal = signal ? AbortSignal.any([signal, idle.signal]) : idle.signal;
+          /** The stall timeout, if that is what ended an attempt */
+          const failure = (error: unknown) => (idle.signal.aborted ? idle.signal.reason : error);
+          try {
+            let response: RSTransportResponse;
+            try {
+              response = await transport(url, { method: 'GET', headers, signal: requestSignal });
+            } catch (error) {
+              await interrupted(failure(error));
+              continue;
+            }
+
+            const range = contentRange(response);
+            if (response.status === 416 && received > 0 && range.total === received) {
+              await discardBody(response);
+              total = received; // The partial file was already complete
+              break;
+            }
+            if (response.status === 206) {
+              if (range.start !== received) {
+                await discardBody(response);
+                const header = response.headers?.get('content-range');
+                throw new InvalidResponseError(DOWNLOAD, `asked for bytes from ${received}, got ${header}`);
+              }
+              resumes++;
+            } else if (response.status === 200) {
+              if (received > 0) {
+                // Range not honoured, or the file changed since: start over
+                try {
+                  await sink.restart();
+                } catch (error) {
+                  await discardBody(response);
+                  throw error;
+                }
+                checksum = new FileChecksum();
+                received = 0;
+              }
+            } else {
+              await discardBody(response);
+              throw statusError(response.status, url);
+            }
+            if (!response.body) throw new InvalidResponseError(DOWNLOAD, 'transport returned no body stream');
+
+            const length = Number(response.headers?.get('content-length') ?? NaN);
+            total = range.total ?? (Number.isFinite(length) ? received + length : total);
+            validator = response.headers?.get('etag') ?? response.headers?.get('last-modified') ?? validator;
+
+            // A failed write is a local problem (disk full, no permission):
+            // leaving the loop cancels the body, and the error is not retried
+            let writeFailed = false;
+            try {
+              for await (const chunk of response.body) {
+                idle.reset();
+                checksum.update(chunk);
+                try {
+                  await sink.write(chunk);
+                } catch (error) {
+                  writeFailed = true;
+                  throw error;
+                }
+                received += chunk.length;
+                onProgress?.({ bytesReceived: received, totalBytes: total });
+              }
+            } catch (error) {
+              if (writeFailed) throw error;
+              await interrupted(failure(error));
+              continue;
+            }
+          } finally {
+            idle.clear();
+          }
+          if (total === undefined || received >= total) break;
+          await interrupted(new Error(`connection closed after ${received} of ${total} bytes`));
+        }
+      } catch (error) {
+        await sink.close();
+        if (signal?.aborted && !(error instanceof RequestAbortedError)) {
+          throw new RequestAbortedError(DOWNLOAD, signal.reason);
+        }
+        throw error;
+      }
+      await sink.close();
+
+      let checksumVerified = false;
+      if (expected) {
+        const [full, headAndSize] = checksum.digests();
+        if (full !== expected && headAndSize !== expected) {
+          if (typeof destination === 'string') await fs.promises.rm(destination, { force: true });
+          throw new ChecksumMismatchError(DOWNLOAD, ref, expected, full);
+        }
+        checksumVerified = true;
+      } else if (original && verifyChecksum) {
+        client.log.debug('RS download not verified: resource has no file_checksum', { ref });
+      }
+
+      return { url, bytes: received, resumes, checksumVerified };
+    },
+  };
+
+  return assignCapability(client, methods);
+}
@@ -0,0 +1,184 @@
+import type { RSClientCore } from '../core/client.js';
+import type { Node, SearchOptions, RSRequestOptions } from '../core/types.js';
+import type { SearchCapability } from './search.js';
+import { InvalidResponseError, RequestAbortedError, ValidationError, validateId } from '../core/errors.js';
+import { nodeListDecoder } from '../core/decoders.js';
+import { Semaphore } from '../core/rate-limiter.js';
+import { raceAbort } from '../core/single-flight.js';
+import { ensureArray } from '../utils/response.js';
+import { SearchQuery } from '../utils/search-query.js';
+import { assignCapability } from '../utils/assign-capability.js';
+
+const DEFAULT_CONCURRENCY = 4;
+const NODE_TREE_TTL = 5 * 60 * 1000;
+
+/** `resourceTypes` and `archive` narrow the counted resources as for `search` */
+export interface FacetOptions extends Pick<SearchOptions, 'resourceTypes' | 'archive'> {
+  /** Max requests in flight at once (default 4) */
+  concurrency?: number;
+}
+
+/** A node with the number of matching resources tagged with it */
+export type FacetNode = Node & {
+  count: number;
+  /** Child nodes (category trees only) */
+  children: FacetNode[];
+};
+
+export interface FieldFacet {
+  /** Field ID */
+  field: number;
+  /** Top-level nodes in field order */
+  nodes: FacetNode[];
+}
+
+type NodeTree = Array<Node & { children: NodeTree }>;
+
+/** Run `task` once `semaphore` has a free slot */
+async function limited<R>(
+  semaphore: Semaphore,
+  functionName: string,
+  signal: AbortSignal | undefined,
+  task: () => Promise<R>,
+): Promise<R> {
+  let release: () => void;
+  try {
+    release = await semaphore.acquire(signal);
+  } catch (error) {
+    throw new RequestAbortedError(functionName, error);
+  }
+  try {
+    return await task();
+  } finally {
+    release();
+  }
+}
+
+export interface FacetsCapability {
+  /**
+   * Count the results of `query` per node of each field, e.g. for
+   * "Location: Paris (42), Rome (17)". Each node costs one `do_search`
+   * (`<query>, @@<node>`) asking only for the total; these run at most
+   * `concurrency` at a time. A parent node's count is the resources
+   * tagged with that node itself, which in RS usually includes those
+   * tagged with a child.
+   *
+   * Node trees are read with one recursive `get_nodes` per field and
+   * cached for five minutes. This needs no admin permission, unlike
+   * `getFields`, so it works for ordinary users' sessions. A field
+   * without nodes (unknown, or not a node field) gets an empty list.
+   */
+  getFacets(
+    query: string | SearchQuery,
+    fieldIds: number[],
+    options?: FacetOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<FieldFacet[]>;
+
+  /** Drop cached node trees, e.g. after adding nodes. */
+  clearFacetCache(): void;
+}
+
+/** Arrange a flat node list into trees by `parent`, keeping list order */
+function buildTree(nodes: Node[]): NodeTree {
+  const byRef = new Map<number, Node & { children: NodeTree }>();
+  for (const node of nodes) byRef.set(node.ref, { ...node, children: [] });
+  const roots: NodeTree = [];
+  for (const node of byRef.values()) {
+    const parent = node.parent === null ? undefined : byRef.get(node.parent);
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
+
+/**
+ * Add faceted search counts to an RS client.
+ * Builds on `withSearch` — apply it first.
+ */
+export function withFacets<T extends RSClientCore & SearchCapability>(
+  client: T,
+): T & FacetsCapability {
+  const trees = new Map<number, { tree: Promise<NodeTree>; expiresAt: number }>();
+
+  /**
+   * A field's node tree, shared by concurrent callers. The load ignores the
+   * caller's signal so one caller cancelling cannot fail the others; each
+   * caller stops waiting when its own signal aborts.
+   */
+  async function nodeTree(
+    fieldId: number,
+    semaphore: Semaphore,
+    requestOptions?: RSRequestOptions,
+  ): Promise<NodeTree> {
+    const signal = requestOptions?.signal;
+    let cached = trees.get(fieldId);
+    if (!cached || cached.expiresAt <= Date.now()) {
+      const tree = limited(semaphore, 'get_nodes', undefined, async () => {
+        // Every level at once, each node with its parent
+        const data = await client.call(
+          'get_nodes',
+          { ref: fieldId, recursive: 1 },
+          { ...requestOptions, signal: undefined },
+        );
+        return buildTree(client.decode(nodeListDecoder, ensureArray(data), 'get_nodes'));
+      });
+      cached = { tree, expiresAt: Date.now() + NODE_TREE_TTL };
+      trees.set(fieldId, cached);
+      // A failed load must not be served to later callers
+      tree.catch(() => {
+        if (trees.get(fieldId)?.tree === tree) trees.delete(fieldId);
+      });
+    }
+    try {
+      return await raceAbort(cached.tree, signal);
+    } catch (error) {
+      if (signal?.aborted) throw new RequestAbortedError('get_nodes', signal.reason);
+      throw error;
+    }
+  }
+
+  const methods: FacetsCapability = {
+    async getFacets(
+      query: string | SearchQuery,
+      fieldIds: number[],
+      options: FacetOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<FieldFacet[]> {
+      const { concurrency = DEFAULT_CONCURRENCY, resourceTypes, archive } = options;
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new ValidationError(`concurrency must be an integer >= 1, got: ${concurrency}`);
+      }
+      for (const id of fieldIds) validateId(id, 'field ID');
+
+      const semaphore = new Semaphore(concurrency);
+      const base = query.toString();
+
+      async function count(nodeRef: number): Promise<number> {
+        const search = [base, new SearchQuery().node(nodeRef).toString()].filter(Boolean).join(', ');
+        const result = await limited(semaphore, 'do_search', requestOptions?.signal,
+          () => client.search(search, { limit: 0, withTotal: true, resourceTypes, archive }, requestOptions));
+        if (result.total === undefined) {
+          throw new InvalidResponseError('do_search', 'no total in reply (RS too old for "offset,rows" fetchrows)');
+        }
+        return result.total;
+      }
+
+      const withCounts = (tree: NodeTree): Promise<FacetNode[]> =>
+        Promise.all(tree.map(async node => {
+          const [nodeCount, children] = await Promise.all([count(node.ref), withCounts(node.children)]);
+          return { ...node, count: nodeCount, children };
+        }));
+
+      return Promise.all(fieldIds.map(async field => ({
+        field,
+        nodes: await withCounts(await nodeTree(field, semaphore, requestOptions)),
+      })));
+    },
+
+    clearFacetCache(): void {
+      trees.clear();
+    },
+  };
+
+  return assignCapability(client, methods);
+}
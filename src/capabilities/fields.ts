@@ -1,119 +1,119 @@
 import type { RSClientCore } from '../core/client.js';
-import type { FieldDefinition, FieldOption, Node } from '../core/types.js';
+import type { FieldDefinition, FieldOption, Node, RSRequestOptions } from '../core/types.js';
 import { ensureArray, toNumber } from '../utils/response.js';
 import { validateId } from '../core/errors.js';
+import { fieldDefinitionListDecoder, fieldOptionListDecoder, nodeListDecoder } from '../core/decoders.js';
 import { assignCapability } from '../utils/assign-capability.js';
 
 export interface FieldsCapability {
   /** Get all field definitions, optionally filtered by resource type. */
-  getFields(resourceType?: number): Promise<FieldDefinition[]>;
+  getFields(resourceType?: number, requestOptions?: RSRequestOptions): Promise<FieldDefinition[]>;
 
   /** Get dropdown/checkbox options for a field. */
-  getFieldOptions(fieldId: number): Promise<FieldOption[]>;
+  getFieldOptions(fieldId: number, requestOptions?: RSRequestOptions): Promise<FieldOption[]>;
 
   /**
    * Get all distinct values used in a field.
    * @note Uses `get_field_values` which is not in the official RS API index.
    */
-  getFieldValues(fieldId: number): Promise<string[]>;
+  getFieldValues(fieldId: number, requestOptions?: RSRequestOptions): Promise<string[]>;
 
   /** Get hierarchical nodes for a field. */
-  getNodes(fieldId: number, parent?: number): Promise<Node[]>;
+  getNodes(fieldId: number, parent?: number, requestOptions?: RSRequestOptions): Promise<Node[]>;
 
   /** Create or get a node for a field. Returns the node ID. */
-  setNode(fieldId: number, name: string, parent?: number): Promise<number>;
+  setNode(fieldId: number, name: string, parent?: number, requestOptions?: RSRequestOptions): Promise<number>;
 
   /** Update a single field value on a resource. */
-  updateField(resourceId: number, fieldId: number, value: string): Promise<boolean>;
+  updateField(
+    resourceId: number,
+    fieldId: number,
+    value: string,
+    requestOptions?: RSRequestOptions,
+  ): Promise<boolean>;
 
   /**
    * Resolve a field value that may be a node ref (dropdown) to its display name.
    * If the value looks like a numeric node ref, fetches field options and returns
    * the option name. Otherwise returns the value as-is.
    */
-  resolveFieldDisplayName(fieldId: number, value: string | number | null): Promise<string>;
+  resolveFieldDisplayName(
+    fieldId: number,
+    value: string | number | null,
+    requestOptions?: RSRequestOptions,
+  ): Promise<string>;
 }
 
 export function withFields<T extends RSClientCore>(client: T): T & FieldsCapability {
   const methods: FieldsCapability = {
-    async getFields(resourceType?: number): Promise<FieldDefinition[]> {
-      // RS get_resource_type_fields params: $by_resource_types, $find, $by_types
-      const params: Record<string, string | number> = {};
-      if (resourceType !== undefined) params.by_resource_types = resourceType;
-
-      const data = await client.makeRequest<unknown[]>('get_resource_type_fields', params);
-      const fields = ensureArray<Record<string, unknown>>(data);
-
-      return fields.map((field): FieldDefinition => ({
-        ref: toNumber(field.ref as string | number) ?? 0,
-        name: field.name as string,
-        title: field.title as string,
-        type: toNumber(field.type as string | number) ?? 0,
-        resource_type: field.resource_type !== undefined
-          ? (toNumber(field.resource_type as string | number) ?? undefined)
-          : undefined,
-        ...field,
-      }));
+    async getFields(resourceType?: number, requestOptions?: RSRequestOptions): Promise<FieldDefinition[]> {
+      const data = await client.call('get_resource_type_fields', {
+        by_resource_types: resourceType,
+      }, requestOptions);
+      return client.decode(fieldDefinitionListDecoder, ensureArray(data), 'get_resource_type_fields');
     },
 
-    async getFieldOptions(fieldId: number): Promise<FieldOption[]> {
+    async getFieldOptions(fieldId: number, requestOptions?: RSRequestOptions): Promise<FieldOption[]> {
       validateId(fieldId, 'field ID');
-      const data = await client.makeRequest<FieldOption[]>('get_field_options', {
-        ref: fieldId.toString(),
-      });
-      return ensureArray<FieldOption>(data);
+      const data = await client.call('get_field_options', { ref: fieldId }, requestOptions);
+      return client.decode(fieldOptionListDecoder, ensureArray(data), 'get_field_options');
     },
 
-    async getFieldValues(fieldId: number): Promise<string[]> {
+    async getFieldValues(fieldId: number, requestOptions?: RSRequestOptions): Promise<string[]> {
       validateId(fieldId, 'field ID');
-      const data = await client.makeRequest<string[]>('get_field_values', {
-        field: fieldId.toString(),
-      });
+      const data = await client.call('get_field_values', { field: fieldId }, requestOptions);
       return Array.isArray(data) ? data : [];
     },
 
-    async getNodes(fieldId: number, parent?: number): Promise<Node[]> {
+    async getNodes(fieldId: number, parent?: number, requestOptions?: RSRequestOptions): Promise<Node[]> {
       validateId(fieldId, 'field ID');
       if (parent !== undefined) validateId(parent, 'parent node ID');
-      // RS get_nodes params: $ref (field ID), $parent, $recursive, $offset, $rows, $name, ...
-      const params: Record<string, string | number> = { ref: fieldId.toString() };
-      if (parent !== undefined) params.parent = parent;
-
-      const data = await client.makeRequest<Node[]>('get_nodes', params);
-      return ensureArray<Node>(data);
+      const data = await client.call('get_nodes', { ref: fieldId, parent }, requestOptions);
+      return client.decode(nodeListDecoder, ensureArray(data), 'get_nodes');
     },
 
-    async setNode(fieldId: number, name: string, parent?: number): Promise<number> {
+    async setNode(
+      fieldId: number,
+      name: string,
+      parent?: number,
+      requestOptions?: RSRequestOptions,
+    ): Promise<number> {
       validateId(fieldId, 'field ID');
       if (parent !== undefined) validateId(parent, 'parent node ID');
-      // RS set_node params: $ref, $resource_type_field, $name, $parent, $order_by, $returnexisting
       // $ref=NULL for creating new nodes; $returnexisting=true to get existing node if name matches
-      const params: Record<string, string | number | boolean> = {
+      const result = await client.call('set_node', {
         ref: 'null',
         resource_type_field: fieldId,
         name,
         returnexisting: true,
-      };
-      if (parent !== undefined) params.parent = parent;
-
-      const result = await client.makeRequest<number | { ref: number }>('set_node', params);
+        parent,
+      }, requestOptions);
       const ref = typeof result === 'object' && result !== null ? toNumber(result.ref) : toNumber(result);
       if (ref === null) throw new Error('set_node returned invalid ref');
       return ref;
     },
 
-    async updateField(resourceId: number, fieldId: number, value: string): Promise<boolean> {
+    async updateField(
+      resourceId: number,
+      fieldId: number,
+      value: string,
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       validateId(resourceId, 'resource ID');
       validateId(fieldId, 'field ID');
-      const result = await client.makeRequest<unknown>('update_field', {
-        resource: resourceId.toString(),
-        field: fieldId.toString(),
+      const result = await client.call('update_field', {
+        resource: resourceId,
+        field: fieldId,
         value,
-      });
+      }, requestOptions);
       return result !== false;
     },
 
-    async resolveFieldDisplayName(fieldId: number, value: string | number | null): Promise<string> {
+    async resolveFieldDisplayName(
+      fieldId: number,
+      value: string | number | null,
+      requestOptions?: RSRequestOptions,
+    ): Promise<string> {
       validateId(fieldId, 'field ID');
       if (value === null || value === undefined) return '';
       const str = String(value).trim();
@@ -122,7 +122,7 @@ export function withFields<T extends RSClientCore>(client: T): T & FieldsCapabil
       const num = parseInt(str, 10);
       if (String(num) !== str) return str; // Not a numeric ref, use as display value
 
-      const options = await methods.getFieldOptions(fieldId);
+      const options = await methods.getFieldOptions(fieldId, requestOptions);
       const option = options.find(o => o.ref === num);
       return option?.name?.trim() || str;
     },
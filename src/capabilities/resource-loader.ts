@@ -0,0 +1,139 @@
+import type { RSClientCore } from '../core/client.js';
+import type { Resource } from '../core/types.js';
+import type { SearchCapability } from './search.js';
+import { RequestAbortedError, validateId } from '../core/errors.js';
+import { SearchQuery } from '../utils/search-query.js';
+import { assignCapability } from '../utils/assign-capability.js';
+
+export interface ResourceLoaderOptions {
+  /** Field IDs to join into each returned resource as `field<ID>` */
+  dataJoins?: number[];
+  /**
+   * Cancel this load. Rejects with RequestAbortedError; the shared batch
+   * still runs for the other callers.
+   */
+  signal?: AbortSignal;
+}
+
+export interface ResourceLoaderCapability {
+  /**
+   * Load a resource, batched with other loads in the same tick.
+   *
+   * All refs requested before the next tick are fetched with a single
+   * `do_search` using RS's `!list` syntax (chunked by `maxBatchSize`), then
+   * split back out per caller. Resolves to null for refs RS did not return.
+   *
+   * Because the batch goes through `do_search`, only resources visible to
+   * search are returned (active archive state by default). Use
+   * `getResource` to read a resource in any archive state.
+   */
+  loadResource(ref: number, options?: ResourceLoaderOptions): Promise<Resource | null>;
+
+  /** Load several resources in one batch. Results are in the order of `refs`. */
+  loadResources(refs: number[], options?: ResourceLoaderOptions): Promise<Array<Resource | null>>;
+}
+
+interface PendingLoad {
+  ref: number;
+  resolve(resource: Resource | null): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Add DataLoader-style batched resource loading to an RS client.
+ * Builds on `withSearch` — apply it first.
+ */
+export function withResourceLoader<T extends RSClientCore & SearchCapability>(
+  client: T,
+): T & ResourceLoaderCapability {
+  const chunkSize = client.config.maxBatchSize;
+  let queue: PendingLoad[] = [];
+  const dataJoins = new Set<number>();
+  let scheduled = false;
+
+  async function dispatch(batch: PendingLoad[], joins: number[]): Promise<void> {
+    const refs = [...new Set(batch.map(p => p.ref))];
+    const found = new Map<number, Resource>();
+
+    try {
+      for (let i = 0; i < refs.length; i += chunkSize) {
+        const chunk = refs.slice(i, i + chunkSize);
+        const result = await client.search(new SearchQuery().list(chunk), {
+          limit: chunk.length,
+          dataJoins: joins,
+        });
+        for (const resource of result.resources) found.set(resource.ref, resource);
+      }
+    } catch (error) {
+      batch.forEach(p => p.reject(error));
+      return;
+    }
+
+    client.log.debug('RS resource loader batch', {
+      requested: batch.length,
+      unique: refs.length,
+      found: found.size,
+    });
+    // Callers asking for the same ref each get their own object
+    const handedOut = new Set<number>();
+    for (const p of batch) {
+      const resource = found.get(p.ref);
+      if (!resource) {
+        p.resolve(null);
+      } else if (handedOut.has(p.ref)) {
+        p.resolve(structuredClone(resource));
+      } else {
+        handedOut.add(p.ref);
+        p.resolve(resource);
+      }
+    }
+  }
+
+  function flush(): void {
+    const batch = queue;
+    const joins = [...dataJoins];
+    queue = [];
+    dataJoins.clear();
+    scheduled = false;
+    void dispatch(batch, joins);
+  }
+
+  const methods: ResourceLoaderCapability = {
+    loadResource(ref: number, options: ResourceLoaderOptions = {}): Promise<Resource | null> {
+      const { signal } = options;
+      try {
+        validateId(ref, 'resource ref');
+        if (signal?.aborted) throw new RequestAbortedError('do_search', signal.reason);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+      // Joins requested by any caller in the batch are fetched for all of them
+      options.dataJoins?.forEach(id => dataJoins.add(id));
+
+      const promise = new Promise<Resource | null>((resolve, reject) => {
+        if (!signal) {
+          queue.push({ ref, resolve, reject });
+          return;
+        }
+        const onAbort = () => reject(new RequestAbortedError('do_search', signal.reason));
+        signal.addEventListener('abort', onAbort, { once: true });
+        queue.push({
+          ref,
+          resolve: resource => { signal.removeEventListener('abort', onAbort); resolve(resource); },
+          reject: error => { signal.removeEventListener('abort', onAbort); reject(error); },
+        });
+      });
+      if (!scheduled) {
+        scheduled = true;
+        setImmediate(flush);
+      }
+      return promise;
+    },
+
+    loadResources(refs: number[], options: ResourceLoaderOptions = {}): Promise<Array<Resource | null>> {
+      return Promise.all(refs.map(ref => methods.loadResource(ref, options)));
+    },
+  };
+
+  return assignCapability(client, methods);
+}
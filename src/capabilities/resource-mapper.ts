@@ -0,0 +1,293 @@
+import type { RSClientCore } from '../core/client.js';
+import type { Resource, SearchOptions, SearchResult, RSRequestOptions } from '../core/types.js';
+import type { SearchCapability } from './search.js';
+import type { CollectionsCapability } from './collections.js';
+import type { FieldsCapability } from './fields.js';
+import type { Decoder, DecodeIssue } from '../utils/decode.js';
+import { array } from '../utils/decode.js';
+import { RequestAbortedError, ValidationError, validateId } from '../core/errors.js';
+import { raceAbort } from '../core/single-flight.js';
+import type { SearchQuery } from '../utils/search-query.js';
+import { assignCapability } from '../utils/assign-capability.js';
+
+// ---------------------------------------------------------------------------
+// Typed projection of `field<ID>` data joins.
+//
+// Joined values arrive as strings ('' when the field is empty). Empty
+// values map to null (an empty list for `nodes`). Values that cannot be
+// converted are reported like any other response mismatch — thrown in
+// strict `responseValidation` mode, logged otherwise — and map to null.
+// ---------------------------------------------------------------------------
+
+/** Target type of a mapped field */
+export type FieldValueType = 'string' | 'number' | 'date' | 'nodes' | 'boolean';
+
+export interface FieldMapping {
+  /** Field shortname (resolved through `fieldIds` or `getFields`) or field ID */
+  field: string | number;
+  type: FieldValueType;
+}
+
+/** Property name → field mapping */
+export type ResourceSchema = Record<string, FieldMapping>;
+
+interface FieldValueTypes {
+  string: string;
+  number: number;
+  /** Read as UTC; RS stores dates without a zone */
+  date: Date;
+  /**
+   * Node names, e.g. the selected options of a checkbox field. RS joins
+   * them with commas, so a name containing a comma comes back split.
+   */
+  nodes: string[];
+  boolean: boolean;
+}
+
+/** The domain object a schema describes */
+export type MappedResource<S extends ResourceSchema> = { ref: number } & {
+  [K in keyof S]: S[K]['type'] extends 'nodes' ? string[] : FieldValueTypes[S[K]['type']] | null;
+};
+
+export interface MappedSearchResult<S extends ResourceSchema> extends Omit<SearchResult, 'resources'> {
+  resources: Array<MappedResource<S>>;
+}
+
+export interface ResourceMapperOptions {
+  /**
+   * Field IDs by shortname, e.g. the `Fields` constant from
+   * `generateFieldSchemaModule`. Shortnames are then resolved without
+   * `getFields`, which needs admin permission in RS.
+   */
+  fieldIds?: Readonly<Record<string, number>>;
+}
+
+export interface ResourceMapper<S extends ResourceSchema> {
+  /** Field IDs the schema reads, for `dataJoins` of calls the mapper does not wrap */
+  dataJoins(requestOptions?: RSRequestOptions): Promise<number[]>;
+
+  /** `search`, joining the schema's fields and mapping each result */
+  search(
+    query: string | SearchQuery,
+    options?: Omit<SearchOptions, 'dataJoins'>,
+    requestOptions?: RSRequestOptions,
+  ): Promise<MappedSearchResult<S>>;
+
+  /** `getCollectionResources`, joining the schema's fields and mapping each resource */
+  getCollectionResources(
+    collectionId: number,
+    options?: Omit<SearchOptions, 'dataJoins'>,
+    requestOptions?: RSRequestOptions,
+  ): Promise<Array<MappedResource<S>>>;
+
+  /** Map resources fetched with `dataJoins()` */
+  map(resources: Resource[], requestOptions?: RSRequestOptions): Promise<Array<MappedResource<S>>>;
+}
+
+export interface ResourceMapperCapability {
+  /**
+   * Create a mapper from a declarative schema, e.g.
+   * `{ title: { field: 'title', type: 'string' }, tags: { field: 1, type: 'nodes' } }`.
+   * Shortnames are looked up in `options.fieldIds`, or else resolved with
+   * `getFields` on first use — which needs admin permission, so give
+   * `fieldIds` or field IDs for ordinary users' sessions. Unknown
+   * shortnames throw ValidationError.
+   */
+  createResourceMapper<S extends ResourceSchema>(
+    schema: S,
+    options?: ResourceMapperOptions,
+  ): ResourceMapper<S>;
+}
+
+interface ResolvedSchema<S extends ResourceSchema> {
+  /** Field ID per schema property */
+  ids: Record<keyof S, number>;
+  decoder: Decoder<Array<MappedResource<S>>>;
+}
+
+/** Reported function for mismatches in rows not fetched by `search` */
+const MAPPER = 'resource-mapper';
+const RS_DATE = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/;
+const TRUE_VALUES = new Set(['1', 'yes', 'true', 'on']);
+const FALSE_VALUES = new Set(['0', 'no', 'false', 'off']);
+
+/** Convert a joined value; undefined means it could not be converted */
+function convert(type: FieldValueType, text: string): unknown {
+  switch (type) {
+    case 'string':
+      return text;
+    case 'number': {
+      const value = Number(text);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 'date': {
+      const match = RS_DATE.exec(text);
+      if (!match) return undefined;
+      const date = new Date(`${match[1]}T${match[2] ?? '00:00'}Z`);
+      return Number.isNaN(date.getTime()) ? undefined : date;
+    }
+    case 'nodes':
+      // The join holds names only, so "Korea, Republic of" cannot be told
+      // from two nodes; map such fields as 'string' to read the raw text
+      return text.split(',').map(name => name.trim()).filter(Boolean);
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.has(lower)) return true;
+      return FALSE_VALUES.has(lower) ? false : undefined;
+    }
+  }
+}
+
+function mappedValueDecoder(type: FieldValueType): Decoder<unknown> {
+  return {
+    decode(value, issues, path = '') {
+      const text = typeof value === 'number' ? String(value) : value;
+      if (typeof text !== 'string') {
+        issues.push({ path, message: value === undefined ? 'data join missing' : `expected ${type} text` });
+        return type === 'nodes' ? [] : null;
+      }
+      if (text.trim() === '') return type === 'nodes' ? [] : null;
+
+      const converted = convert(type, text.trim());
+      if (converted !== undefined) return converted;
+      issues.push({ path, message: `expected ${type}, got ${JSON.stringify(text)}` });
+      return null;
+    },
+  };
+}
+
+function resourceDecoder<S extends ResourceSchema>(
+  schema: S,
+  fieldIds: Record<keyof S, number>,
+): Decoder<MappedResource<S>> {
+  const properties = Object.entries(schema).map(([name, mapping]) => ({
+    name,
+    key: `field${fieldIds[name]}`,
+    decoder: mappedValueDecoder(mapping.type),
+  }));
+  return {
+    decode(value, issues: DecodeIssue[], path = '') {
+      const row = value as Resource;
+      const result: Record<string, unknown> = { ref: row.ref };
+      for (const { name, key, decoder } of properties) {
+        result[name] = decoder.decode(row[key as `field${number}`], issues, `${path}.${key}`);
+      }
+      return result as MappedResource<S>;
+    },
+  };
+}
+
+/**
+ * Add schema-based resource mapping to an RS client.
+ * Builds on `withSearch`, `withCollections` and `withFields` — apply them first.
+ */
+export function withResourceMapper<
+  T extends RSClientCore & SearchCapability & CollectionsCapability & FieldsCapability,
+>(client: T): T & ResourceMapperCapability {
+  const methods: ResourceMapperCapability = {
+    createResourceMapper<S extends ResourceSchema>(
+      schema: S,
+      options: ResourceMapperOptions = {},
+    ): ResourceMapper<S> {
+      const { fieldIds = {} } = options;
+      for (const [name, mapping] of Object.entries(schema)) {
+        if (name === 'ref') {
+          throw new ValidationError('Schema property "ref" is reserved for the resource ref');
+        }
+        if (typeof mapping.field === 'number') validateId(mapping.field, `field ID for "${name}"`);
+      }
+      const known = (shortname: string) => Object.prototype.hasOwnProperty.call(fieldIds, shortname);
+
+      let resolved: Promise<ResolvedSchema<S>> | undefined;
+
+      async function resolveFields(requestOptions?: RSRequestOptions): Promise<ResolvedSchema<S>> {
+        const needsLookup = Object.values(schema).some(m => typeof m.field === 'string' && !known(m.field));
+        const fields = needsLookup ? await client.getFields(undefined, requestOptions) : [];
+        const ids = {} as Record<keyof S, number>;
+        for (const [name, { field }] of Object.entries(schema) as Array<[keyof S & string, FieldMapping]>) {
+          if (typeof field === 'number') {
+            ids[name] = field;
+            continue;
+          }
+          if (known(field)) {
+            validateId(fieldIds[field], `field ID for "${field}"`);
+            ids[name] = fieldIds[field];
+            continue;
+          }
+          const definition = fields.find(f => f.name === field);
+          if (!definition) throw new ValidationError(`Unknown field shortname for "${name}": ${field}`);
+          ids[name] = definition.ref;
+        }
+        return { ids, decoder: array(resourceDecoder(schema, ids)) };
+      }
+
+      /**
+       * The resolved schema, shared by concurrent callers. The lookup ignores
+       * the caller's signal so one caller cancelling cannot fail the others;
+       * each caller stops waiting when its own signal aborts.
+       */
+      async function resolve(requestOptions?: RSRequestOptions): Promise<ResolvedSchema<S>> {
+        const signal = requestOptions?.signal;
+        if (!resolved) {
+          const attempt = resolveFields({ ...requestOptions, signal: undefined });
+          resolved = attempt;
+          // Let a later call retry after a failed lookup
+          attempt.catch(() => {
+            if (resolved === attempt) resolved = undefined;
+          });
+        }
+        try {
+          return await raceAbort(resolved, signal);
+        } catch (error) {
+          if (signal?.aborted) throw new RequestAbortedError('get_resource_type_fields', signal.reason);
+          throw error;
+        }
+      }
+
+      /** Convert rows, reporting mismatches under `source` */
+      async function mapRows(
+        resources: Resource[],
+        source: string,
+        requestOptions?: RSRequestOptions,
+      ): Promise<Array<MappedResource<S>>> {
+        const { decoder } = await resolve(requestOptions);
+        return client.decode(decoder, resources, source);
+      }
+
+      const mapper: ResourceMapper<S> = {
+        async dataJoins(requestOptions?: RSRequestOptions): Promise<number[]> {
+          const { ids } = await resolve(requestOptions);
+          return [...new Set(Object.values<number>(ids))];
+        },
+
+        async search(
+          query: string | SearchQuery,
+          options: Omit<SearchOptions, 'dataJoins'> = {},
+          requestOptions?: RSRequestOptions,
+        ): Promise<MappedSearchResult<S>> {
+          const dataJoins = await mapper.dataJoins(requestOptions);
+          const result = await client.search(query, { ...options, dataJoins }, requestOptions);
+          return { ...result, resources: await mapRows(result.resources, 'do_search', requestOptions) };
+        },
+
+        async getCollectionResources(
+          collectionId: number,
+          options: Omit<SearchOptions, 'dataJoins'> = {},
+          requestOptions?: RSRequestOptions,
+        ): Promise<Array<MappedResource<S>>> {
+          const dataJoins = await mapper.dataJoins(requestOptions);
+          const resources = await client.getCollectionResources(collectionId, { ...options, dataJoins },
+            requestOptions);
+          return mapRows(resources, MAPPER, requestOptions);
+        },
+
+        map(resources: Resource[], requestOptions?: RSRequestOptions): Promise<Array<MappedResource<S>>> {
+          return mapRows(resources, MAPPER, requestOptions);
+        },
+      };
+      return mapper;
+    },
+  };
+
+  return assignCapability(client, methods);
+}
@@ -4,41 +4,87 @@ import type {
   ResourceFieldData,
   ResourcePathOptions,
   AlternativeFile,
+  BatchRenditionOptions,
+  RenditionOptions,
+  ResourceRendition,
+  RSRequestOptions,
 } from '../core/types.js';
 import { ensureArray, toNumber } from '../utils/response.js';
-import { validateId } from '../core/errors.js';
+import { ValidationError, validateId } from '../core/errors.js';
+import {
+  resourceDecoder,
+  resourceListDecoder,
+  resourceFieldDataListDecoder,
+  alternativeFileListDecoder,
+  imageSizeListDecoder,
+} from '../core/decoders.js';
 import { assignCapability } from '../utils/assign-capability.js';
+import type { RSFunctionParams } from '../core/api.js';
+
+/** Size code get_resource_all_image_sizes uses for the resource file itself */
+const ORIGINAL_SIZE_CODE = 'original';
+const DEFAULT_RENDITION_CONCURRENCY = 4;
 
 export interface ResourcesCapability {
   /** Get full resource metadata */
-  getResource(ref: number): Promise<Resource | null>;
+  getResource(ref: number, requestOptions?: RSRequestOptions): Promise<Resource | null>;
 
   /** Get specific field data for a resource */
-  getResourceFieldData(ref: number, fieldId?: number): Promise<ResourceFieldData[]>;
+  getResourceFieldData(
+    ref: number,
+    fieldId?: number,
+    requestOptions?: RSRequestOptions,
+  ): Promise<ResourceFieldData[]>;
 
   /**
    * Get a URL for a resource file/preview.
    * Returns the URL rewritten to internal Docker networking if configured.
    */
-  getResourcePath(ref: number, options?: ResourcePathOptions): Promise<string>;
+  getResourcePath(
+    ref: number,
+    options?: ResourcePathOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<string>;
+
+  /**
+   * List a resource's renditions — its preview sizes and original — with
+   * one `get_resource_all_image_sizes` call instead of a `getResourcePath`
+   * per size. URLs are rewritten as for `getResourcePath`. Returns [] if
+   * the user may not see the resource's files.
+   */
+  getResourceRenditions(
+    ref: number,
+    options?: RenditionOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<ResourceRendition[]>;
+
+  /**
+   * `getResourceRenditions` for many resources, `concurrency` calls at a
+   * time. Duplicate refs are fetched once. Rejects if any call fails.
+   */
+  getResourceRenditionsBatch(
+    refs: number[],
+    options?: BatchRenditionOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<Map<number, ResourceRendition[]>>;
 
   /** Get activity log for a resource */
-  getResourceLog(ref: number): Promise<unknown[]>;
+  getResourceLog(ref: number, requestOptions?: RSRequestOptions): Promise<unknown[]>;
 
   /** Get resources related to a specific resource */
-  getRelatedResources(ref: number): Promise<Resource[]>;
+  getRelatedResources(ref: number, requestOptions?: RSRequestOptions): Promise<Resource[]>;
 
   /** Get alternative files for a resource */
-  getAlternativeFiles(ref: number): Promise<AlternativeFile[]>;
+  getAlternativeFiles(ref: number, requestOptions?: RSRequestOptions): Promise<AlternativeFile[]>;
 
   /** Create a new resource. Returns the new resource ID. */
-  createResource(resourceType: number, archive?: number): Promise<number>;
+  createResource(resourceType: number, archive?: number, requestOptions?: RSRequestOptions): Promise<number>;
 
   /** Copy/duplicate a resource. Returns the new resource ID. */
-  copyResource(ref: number): Promise<number>;
+  copyResource(ref: number, requestOptions?: RSRequestOptions): Promise<number>;
 
   /** Delete a resource permanently. */
-  deleteResource(ref: number): Promise<boolean>;
+  deleteResource(ref: number, requestOptions?: RSRequestOptions): Promise<boolean>;
 }
 
 /**
@@ -46,29 +92,33 @@ export interface ResourcesCapability {
  */
 export function withResources<T extends RSClientCore>(client: T): T & ResourcesCapability {
   const methods: ResourcesCapability = {
-    async getResource(ref: number): Promise<Resource | null> {
+    async getResource(ref: number, requestOptions?: RSRequestOptions): Promise<Resource | null> {
       validateId(ref, 'resource ref');
-      const data = await client.makeRequest<Resource | null>('get_resource_data', {
-        resource: ref.toString(),
-      });
-      return data || null;
+      const data = await client.call('get_resource_data', { resource: ref }, requestOptions);
+      return data ? client.decode(resourceDecoder, data, 'get_resource_data') : null;
     },
 
-    async getResourceFieldData(ref: number, fieldId?: number): Promise<ResourceFieldData[]> {
+    async getResourceFieldData(
+      ref: number,
+      fieldId?: number,
+      requestOptions?: RSRequestOptions,
+    ): Promise<ResourceFieldData[]> {
       validateId(ref, 'resource ref');
       if (fieldId !== undefined) validateId(fieldId, 'field ID');
-      const params: Record<string, string | number> = { resource: ref.toString() };
-      if (fieldId !== undefined) params.field = fieldId;
-
-      const data = await client.makeRequest<ResourceFieldData | ResourceFieldData[]>(
-        'get_resource_field_data',
-        params,
-      );
+      const data = await client.call('get_resource_field_data', {
+        resource: ref,
+        field: fieldId,
+      }, requestOptions);
       if (!data) return [];
-      return Array.isArray(data) ? data : [data];
+      const rows = Array.isArray(data) ? data : [data];
+      return client.decode(resourceFieldDataListDecoder, rows, 'get_resource_field_data');
     },
 
-    async getResourcePath(ref: number, options: ResourcePathOptions = {}): Promise<string> {
+    async getResourcePath(
+      ref: number,
+      options: ResourcePathOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<string> {
       validateId(ref, 'resource ref');
       const {
         size = 'pre',
@@ -76,20 +126,23 @@ export function withResources<T extends RSClientCore>(client: T): T & ResourcesC
         createIfMissing = true,
         extension,
         page,
+        alternative,
       } = options;
 
-      // RS get_resource_path params (positional):
-      // $ref, $not_used (N/A), $size, $generate (0|1), $extension, $page, $watermarked (0|1)
-      const params: Record<string, string | number> = {
-        ref: ref.toString(),
+      const params: RSFunctionParams<'get_resource_path'> = {
+        ref,
         size,
         generate: createIfMissing ? 1 : 0,
       };
       if (extension !== undefined) params.extension = extension;
       if (page !== undefined) params.page = page;
+      if (alternative !== undefined) {
+        validateId(alternative, 'alternative file ID');
+        params.alternative = alternative;
+      }
       if (watermarked !== undefined) params.watermarked = watermarked ? 1 : 0;
 
-      const path = await client.makeRequest<string | null>('get_resource_path', params);
+      const path = await client.call('get_resource_path', params, requestOptions);
 
       if (!path || typeof path !== 'string' || path.trim() === '') return '';
 
@@ -99,70 +152,108 @@ export function withResources<T extends RSClientCore>(client: T): T & ResourcesC
         return '';
       }
 
-      // If full URL, apply internal URL rewriting
-      if (path.startsWith('http://') || path.startsWith('https://')) {
-        return client.rewriteUrl(path);
+      return client.resolveUrl(path);
+    },
+
+    async getResourceRenditions(
+      ref: number,
+      options: RenditionOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<ResourceRendition[]> {
+      validateId(ref, 'resource ref');
+      const data = await client.call('get_resource_all_image_sizes', { resource: ref }, requestOptions);
+      // PHP sends a list with gaps in its keys as an object
+      const rows = data && !Array.isArray(data) ? Object.values(data) : data || [];
+      const available = client.decode(imageSizeListDecoder, rows, 'get_resource_all_image_sizes')
+        .map((row): ResourceRendition => ({
+          size: row.size_code === ORIGINAL_SIZE_CODE ? '' : row.size_code,
+          width: row.width ?? null,
+          height: row.height ?? null,
+          extension: row.extension,
+          url: client.resolveUrl(row.url),
+          exists: true,
+        }));
+
+      if (!options.sizes) return available;
+      return options.sizes.map(size => available.find(r => r.size === size) ?? {
+        size, width: null, height: null, extension: '', url: null, exists: false,
+      });
+    },
+
+    async getResourceRenditionsBatch(
+      refs: number[],
+      options: BatchRenditionOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<Map<number, ResourceRendition[]>> {
+      const { concurrency = DEFAULT_RENDITION_CONCURRENCY, ...renditionOptions } = options;
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new ValidationError(`concurrency must be an integer >= 1, got: ${concurrency}`);
       }
+      for (const ref of refs) validateId(ref, 'resource ref');
 
-      // Construct full URL from base
-      const baseUrl = client.config.baseUrl.replace(/\/api\/?$/, '').replace(/\/+$/, '');
-      const normalizedPath = path.startsWith('/') ? path : `/${path}`;
-      return `${baseUrl}${normalizedPath}`;
+      const unique = [...new Set(refs)];
+      const results: ResourceRendition[][] = [];
+      const fetchOne = (ref: number) => methods.getResourceRenditions(ref, renditionOptions, requestOptions);
+      let next = 0;
+      const worker = async () => {
+        while (next < unique.length) {
+          const index = next++;
+          try {
+            results[index] = await fetchOne(unique[index]);
+          } catch (error) {
+            next = unique.length; // Start no more calls
+            throw error;
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, unique.length) }, worker));
+      return new Map(unique.map((ref, i) => [ref, results[i]]));
     },
 
-    async getResourceLog(ref: number): Promise<unknown[]> {
+    async getResourceLog(ref: number, requestOptions?: RSRequestOptions): Promise<unknown[]> {
       validateId(ref, 'resource ref');
-      const data = await client.makeRequest<unknown[]>('get_resource_log', {
-        resource: ref.toString(),
-      });
+      const data = await client.call('get_resource_log', { resource: ref }, requestOptions);
       return ensureArray(data);
     },
 
-    async getRelatedResources(ref: number): Promise<Resource[]> {
+    async getRelatedResources(ref: number, requestOptions?: RSRequestOptions): Promise<Resource[]> {
       validateId(ref, 'resource ref');
-      // RS get_related_resources param: $ref
-      const data = await client.makeRequest<Resource[]>('get_related_resources', {
-        ref: ref.toString(),
-      });
-      return ensureArray<Resource>(data);
+      const data = await client.call('get_related_resources', { ref }, requestOptions);
+      return client.decode(resourceListDecoder, ensureArray(data), 'get_related_resources');
     },
 
-    async getAlternativeFiles(ref: number): Promise<AlternativeFile[]> {
+    async getAlternativeFiles(ref: number, requestOptions?: RSRequestOptions): Promise<AlternativeFile[]> {
       validateId(ref, 'resource ref');
-      const data = await client.makeRequest<AlternativeFile[]>('get_alternative_files', {
-        resource: ref.toString(),
-      });
-      return ensureArray<AlternativeFile>(data);
+      const data = await client.call('get_alternative_files', { resource: ref }, requestOptions);
+      return client.decode(alternativeFileListDecoder, ensureArray(data), 'get_alternative_files');
     },
 
-    async createResource(resourceType: number, archive?: number): Promise<number> {
+    async createResource(
+      resourceType: number,
+      archive?: number,
+      requestOptions?: RSRequestOptions,
+    ): Promise<number> {
       validateId(resourceType, 'resource type');
-      const params: Record<string, string | number> = {
+      const result = await client.call('create_resource', {
         resource_type: resourceType,
-      };
-      if (archive !== undefined) params.archive = archive;
-
-      const result = await client.makeRequest<number | { ref: number }>('create_resource', params);
+        archive,
+      }, requestOptions);
       const ref = typeof result === 'object' && result !== null ? toNumber(result.ref) : toNumber(result);
       if (ref === null) throw new Error('create_resource returned invalid ref');
       return ref;
     },
 
-    async copyResource(ref: number): Promise<number> {
+    async copyResource(ref: number, requestOptions?: RSRequestOptions): Promise<number> {
       validateId(ref, 'resource ref');
-      const result = await client.makeRequest<number | { ref: number }>('copy_resource', {
-        from: ref.toString(),
-      });
+      const result = await client.call('copy_resource', { from: ref }, requestOptions);
       const newRef = typeof result === 'object' && result !== null ? toNumber(result.ref) : toNumber(result);
       if (newRef === null) throw new Error('copy_resource returned invalid ref');
       return newRef;
     },
 
-    async deleteResource(ref: number): Promise<boolean> {
+    async deleteResource(ref: number, requestOptions?: RSRequestOptions): Promise<boolean> {
       validateId(ref, 'resource ref');
-      const result = await client.makeRequest<unknown>('delete_resource', {
-        resource: ref.toString(),
-      });
+      const result = await client.call('delete_resource', { resource: ref }, requestOptions);
       return result !== false;
     },
   };
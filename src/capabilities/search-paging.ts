@@ -0,0 +1,112 @@
+import type { RSClientCore } from '../core/client.js';
+import type { Resource, SearchPagingOptions, RSRequestOptions } from '../core/types.js';
+import type { RSFunctionParams } from '../core/api.js';
+import { ValidationError } from '../core/errors.js';
+import { resourceListDecoder } from '../core/decoders.js';
+import { ensureArray } from '../utils/response.js';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Orders whose sort values change as users interact with resources, so a
+ * resource can move between pages while paging.
+ */
+const UNSTABLE_ORDERS: ReadonlySet<string> = new Set(['relevance', 'popularity', 'rating']);
+
+function validateCount(value: number, name: string, min: number): void {
+  if (!Number.isInteger(value) || value < min) {
+    throw new ValidationError(`${name} must be an integer >= ${min}, got: ${value}`);
+  }
+}
+
+/**
+ * Page through do_search, yielding resources in order. Each page asks for
+ * one extra row to learn whether another page exists. Up to `prefetch`
+ * further pages are requested while the caller consumes the current one;
+ * pages still in flight are cancelled when iteration ends early.
+ *
+ * Offset paging is only as stable as the sort order. Resources already
+ * yielded are skipped if they show up again, and both that and paging
+ * by an unstable order are logged as warnings.
+ */
+export async function* pageSearch(
+  client: RSClientCore,
+  base: RSFunctionParams<'do_search'>,
+  options: SearchPagingOptions = {},
+  requestOptions: RSRequestOptions = {},
+): AsyncGenerator<Resource, void, undefined> {
+  const {
+    pageSize = DEFAULT_PAGE_SIZE,
+    maxResults = Infinity,
+    prefetch = 0,
+    offset: start = 0,
+  } = options;
+  validateCount(pageSize, 'pageSize', 1);
+  validateCount(prefetch, 'prefetch', 0);
+  validateCount(start, 'offset', 0);
+  if (maxResults !== Infinity) validateCount(maxResults, 'maxResults', 0);
+
+  // Lets us cancel abandoned prefetches without aborting the caller's signal
+  const controller = new AbortController();
+  const { signal } = requestOptions;
+  const pageOptions = {
+    ...requestOptions,
+    signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+  };
+  const orderBy = base.order_by ?? 'relevance';
+
+  /** Rows page `index` may contribute before hitting `maxResults` */
+  const pageLimit = (index: number) => Math.min(pageSize, maxResults - index * pageSize);
+
+  const fetchPage = (index: number): Promise<Resource[]> => {
+    if (index === 1 && UNSTABLE_ORDERS.has(orderBy)) {
+      client.log.warn(`RS search paged with an unstable order: ${orderBy}`, {
+        function: 'do_search',
+        orderBy,
+        hint: 'Results can shift between pages; order by resourceid or date for a stable listing',
+      });
+    }
+    const page = client.call('do_search', {
+      ...base,
+      offset: start + index * pageSize,
+      fetchrows: pageLimit(index) + 1,
+    }, pageOptions).then(data => client.decode(resourceListDecoder, ensureArray(data), 'do_search'));
+    // A prefetched page may never be awaited
+    page.catch(() => {});
+    return page;
+  };
+
+  const pages: Array<Promise<Resource[]>> = [];
+  let requested = 0;
+  const seen = new Set<number>();
+  let duplicates = 0;
+
+  try {
+    for (let index = 0; index * pageSize < maxResults; index++) {
+      while (requested <= index + prefetch && requested * pageSize < maxResults) {
+        pages.push(fetchPage(requested++));
+      }
+      const rows = await pages.shift()!;
+      const limit = pageLimit(index);
+
+      for (const resource of rows.slice(0, limit)) {
+        if (seen.has(resource.ref)) {
+          duplicates++;
+          continue;
+        }
+        seen.add(resource.ref);
+        yield resource;
+      }
+      if (rows.length <= limit) break;
+    }
+  } finally {
+    controller.abort();
+    if (duplicates > 0) {
+      client.log.warn('RS search results shifted while paging: do_search', {
+        function: 'do_search',
+        orderBy,
+        duplicates,
+      });
+    }
+  }
+}
@@ -1,25 +1,141 @@
 import type { RSClientCore } from '../core/client.js';
-import type { Resource, SearchResult, SearchOptions } from '../core/types.js';
-import { ensureArray } from '../utils/response.js';
-import { validateId } from '../core/errors.js';
+import type {
+  Resource,
+  SearchResult,
+  SearchOptions,
+  SearchPagingOptions,
+  SearchPreviewOptions,
+  PreviewSearchResult,
+  ResourceWithPreviews,
+  RSRequestOptions,
+} from '../core/types.js';
+import { ensureArray, toNumber } from '../utils/response.js';
+import { ValidationError } from '../core/errors.js';
+import { resourceListDecoder } from '../core/decoders.js';
+import type { RSFunctionParams } from '../core/api.js';
+import { SearchQuery } from '../utils/search-query.js';
 import { assignCapability } from '../utils/assign-capability.js';
+import { pageSearch } from './search-paging.js';
 
 const DEFAULT_LIMIT = 24;
+const SIZE_CODE = /^[a-z0-9_]+$/i;
 
 export interface SearchCapability {
   /**
    * Full-text search for resources.
    *
-   * @param query - Search query (e.g. "sunset", "!collection42", "!field8=value")
-   * @param options - Search options (offset, limit, orderBy, dataJoins, etc.)
+   * @param query - Search string (e.g. "sunset", "!collection42") or a SearchQuery
+   * @param options - Search options (offset, limit, orderBy, dataJoins, etc.).
+   *   With `withTotal`, RS is asked for the total number of matches too.
    */
-  search(query: string, options?: SearchOptions): Promise<SearchResult>;
+  search(
+    query: string | SearchQuery,
+    options?: SearchOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<SearchResult>;
 
   /**
    * Search by specific field value.
-   * Uses RS's `!field<id>=<value>` syntax under the hood.
+   * Uses RS's `!field<id>=<value>` syntax under the hood; values with
+   * commas, colons or spaces are quoted (see SearchQuery).
    */
-  searchByField(fieldId: number, value: string, options?: SearchOptions): Promise<Resource[]>;
+  searchByField(
+    fieldId: number,
+    value: string,
+    options?: SearchOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<Resource[]>;
+
+  /**
+   * Iterate over every result of a search, fetching `pageSize` rows per
+   * request. Stop early with `break` or `maxResults`; set `prefetch` to
+   * request the next pages while the current one is processed.
+   *
+   * Paging uses offsets, so results can shift between pages when the sort
+   * order changes meanwhile. Repeated resources are skipped and a warning
+   * is logged; paging by relevance, popularity or rating also logs one.
+   */
+  iterateSearch(
+    query: string | SearchQuery,
+    options?: SearchPagingOptions,
+    requestOptions?: RSRequestOptions,
+  ): AsyncGenerator<Resource, void, undefined>;
+
+  /**
+   * Search via search_get_previews: each resource comes with preview URLs
+   * for the requested sizes in `previews`, rewritten like getResourcePath
+   * URLs. Paging and `withTotal` work as for `search`.
+   */
+  searchWithPreviews(
+    query: string | SearchQuery,
+    options: SearchPreviewOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<PreviewSearchResult>;
+
+  /** Every result of a search, in one array. See `iterateSearch`. */
+  searchAll(
+    query: string | SearchQuery,
+    options?: SearchPagingOptions,
+    requestOptions?: RSRequestOptions,
+  ): Promise<Resource[]>;
+}
+
+/** do_search params for a query, without paging */
+function searchParams(
+  query: string | SearchQuery,
+  options: Omit<SearchOptions, 'offset' | 'limit'>,
+): RSFunctionParams<'do_search'> {
+  const { orderBy = 'relevance', sort, resourceTypes, archive, dataJoins } = options;
+  const params: RSFunctionParams<'do_search'> = {
+    search: query.toString(),
+    order_by: orderBy,
+  };
+
+  if (sort) params.sort = sort;
+  if (resourceTypes) params.restypes = resourceTypes;
+  if (archive !== undefined) params.archive = archive;
+  if (dataJoins && dataJoins.length > 0) {
+    params.data_joins = dataJoins.join(',');
+  }
+  return params;
+}
+
+/** A page of at most `limit` rows from a reply fetched with `limit + 1` */
+function toPage(
+  rows: Resource[],
+  data: unknown,
+  offset: number,
+  limit: number,
+  withTotal: boolean,
+): SearchResult {
+  // If we got more than `limit`, there are additional results on the server.
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const result: SearchResult = { resources: page, count: page.length, offset, hasMore };
+
+  if (withTotal) {
+    // Older RS versions ignore "offset,rows" and return a plain array; the
+    // total is still known once the last page is reached.
+    const total = reportedTotal(data) ?? (hasMore ? undefined : offset + page.length);
+    if (total !== undefined) result.total = total;
+  }
+  return result;
+}
+
+/** The total from a structured `{ total, data }` search reply */
+function reportedTotal(data: unknown): number | undefined {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return undefined;
+  return toNumber((data as { total?: string | number }).total) ?? undefined;
+}
+
+/** Collect a row's `url_<size>` columns as full URLs */
+function withPreviews(client: RSClientCore, row: Resource, sizes: string[]): ResourceWithPreviews {
+  const previews: Record<string, string> = {};
+  for (const size of sizes) {
+    const url = row[`url_${size}`];
+    if (typeof url === 'string' && url !== '') previews[size] = client.resolveUrl(url);
+  }
+  return { ...row, previews };
 }
 
 /**
@@ -27,51 +143,83 @@ export interface SearchCapability {
  */
 export function withSearch<T extends RSClientCore>(client: T): T & SearchCapability {
   const searchMethods: SearchCapability = {
-    async search(query: string, options: SearchOptions = {}): Promise<SearchResult> {
-      const {
-        orderBy = 'relevance',
-        sort,
-        offset = 0,
-        limit = DEFAULT_LIMIT,
-        resourceTypes,
-        archive,
-        dataJoins,
-      } = options;
+    async search(
+      query: string | SearchQuery,
+      options: SearchOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<SearchResult> {
+      const { offset = 0, limit = DEFAULT_LIMIT, withTotal = false } = options;
 
-      // RS do_search params: $search, $restypes, $order_by, $archive, $fetchrows, $sort, $offset
       // Request one extra row so we can detect whether more results exist
-      // beyond this page (RS do_search only returns an array, no total count).
-      const params: Record<string, string | number | boolean> = {
-        search: query,
-        order_by: orderBy,
-        offset,
-        fetchrows: limit + 1,
-      };
+      // beyond this page. Plain do_search replies have no total count; the
+      // "offset,rows" form of fetchrows gets a reply that includes it.
+      const params: RSFunctionParams<'do_search'> = searchParams(query, options);
+      if (withTotal) {
+        params.fetchrows = `${offset},${limit + 1}`;
+      } else {
+        params.offset = offset;
+        params.fetchrows = limit + 1;
+      }
 
-      if (sort) params.sort = sort;
-      if (resourceTypes) params.restypes = resourceTypes;
-      if (archive !== undefined) params.archive = archive;
-      if (dataJoins && dataJoins.length > 0) {
-        params.data_joins = dataJoins.join(',');
+      const data = await client.call('do_search', params, requestOptions);
+      const rows = client.decode(resourceListDecoder, ensureArray(data), 'do_search');
+      return toPage(rows, data, offset, limit, withTotal);
+    },
+
+    async searchWithPreviews(
+      query: string | SearchQuery,
+      options: SearchPreviewOptions,
+      requestOptions?: RSRequestOptions,
+    ): Promise<PreviewSearchResult> {
+      const { offset = 0, limit = DEFAULT_LIMIT, withTotal = false, sizes, extension } = options;
+      if (sizes.length === 0 || !sizes.every(size => SIZE_CODE.test(size))) {
+        throw new ValidationError(`Invalid preview sizes: ${JSON.stringify(sizes)}`);
       }
 
-      const resources = await client.makeRequest<Resource[]>('do_search', params);
-      const result = ensureArray<Resource>(resources);
+      // search_get_previews has no offset param: paging needs "offset,rows"
+      const { search, order_by, sort, restypes, archive } = searchParams(query, options);
+      const data = await client.call('search_get_previews', {
+        search,
+        restypes,
+        order_by,
+        archive,
+        fetchrows: offset > 0 || withTotal ? `${offset},${limit + 1}` : limit + 1,
+        sort,
+        getsizes: sizes.join(','),
+        previewext: extension,
+      }, requestOptions);
+      const rows = client.decode(resourceListDecoder, ensureArray(data), 'search_get_previews');
+
+      const page = toPage(rows, data, offset, limit, withTotal);
+      return { ...page, resources: page.resources.map(row => withPreviews(client, row, sizes)) };
+    },
 
-      // If we got more than `limit`, there are additional results on the server.
-      const hasMore = result.length > limit;
-      const page = hasMore ? result.slice(0, limit) : result;
+    iterateSearch(
+      query: string | SearchQuery,
+      options: SearchPagingOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): AsyncGenerator<Resource, void, undefined> {
+      return pageSearch(client, searchParams(query, options), options, requestOptions);
+    },
 
-      return {
-        resources: page,
-        count: page.length,
-        offset,
-        hasMore,
-      };
+    async searchAll(
+      query: string | SearchQuery,
+      options: SearchPagingOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<Resource[]> {
+      const resources: Resource[] = [];
+      for await (const resource of searchMethods.iterateSearch(query, options, requestOptions)) {
+        resources.push(resource);
+      }
+      return resources;
     },
 
-    async searchByField(fieldId: number, value: string, options: SearchOptions = {}): Promise<Resource[]> {
-      validateId(fieldId, 'field ID');
+    async searchByField(
+      fieldId: number,
+      value: string,
+      options: SearchOptions = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<Resource[]> {
       const {
         orderBy = 'relevance',
         offset = 0,
@@ -79,8 +227,8 @@ export function withSearch<T extends RSClientCore>(client: T): T & SearchCapabil
         dataJoins,
       } = options;
 
-      const params: Record<string, string | number | boolean> = {
-        search: `!field${fieldId}=${value}`,
+      const params: RSFunctionParams<'do_search'> = {
+        search: new SearchQuery().field(fieldId, value).toString(),
         order_by: orderBy,
         offset,
         fetchrows: limit,
@@ -90,8 +238,8 @@ export function withSearch<T extends RSClientCore>(client: T): T & SearchCapabil
         params.data_joins = dataJoins.join(',');
       }
 
-      const resources = await client.makeRequest<Resource[]>('do_search', params);
-      return ensureArray<Resource>(resources);
+      const resources = await client.call('do_search', params, requestOptions);
+      return client.decode(resourceListDecoder, ensureArray(resources), 'do_search');
     },
   };
 
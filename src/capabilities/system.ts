@@ -1,39 +1,40 @@
 import type { RSClientCore } from '../core/client.js';
-import type { ResourceType, SystemStatus } from '../core/types.js';
+import type { ResourceType, SystemStatus, RSRequestOptions } from '../core/types.js';
 import { ensureArray } from '../utils/response.js';
+import { resourceTypeListDecoder } from '../core/decoders.js';
 import { assignCapability } from '../utils/assign-capability.js';
 
 export interface SystemCapability {
   /** Get all available resource types. */
-  getResourceTypes(): Promise<ResourceType[]>;
+  getResourceTypes(requestOptions?: RSRequestOptions): Promise<ResourceType[]>;
 
   /**
    * Get the RS API version string.
    * @note Uses `get_api_version` which is not in the official RS API index.
    */
-  getApiVersion(): Promise<string>;
+  getApiVersion(requestOptions?: RSRequestOptions): Promise<string>;
 
   /**
    * Get system health status.
    * @note Uses `get_system_status` which is not in the official RS API index.
    */
-  getSystemStatus(): Promise<SystemStatus>;
+  getSystemStatus(requestOptions?: RSRequestOptions): Promise<SystemStatus>;
 }
 
 export function withSystem<T extends RSClientCore>(client: T): T & SystemCapability {
   const methods: SystemCapability = {
-    async getResourceTypes(): Promise<ResourceType[]> {
-      const data = await client.makeRequest<ResourceType[]>('get_resource_types', {});
-      return ensureArray<ResourceType>(data);
+    async getResourceTypes(requestOptions?: RSRequestOptions): Promise<ResourceType[]> {
+      const data = await client.call('get_resource_types', {}, requestOptions);
+      return client.decode(resourceTypeListDecoder, ensureArray(data), 'get_resource_types');
     },
 
-    async getApiVersion(): Promise<string> {
-      const result = await client.makeRequest<string>('get_api_version', {});
+    async getApiVersion(requestOptions?: RSRequestOptions): Promise<string> {
+      const result = await client.call('get_api_version', {}, requestOptions);
       return typeof result === 'string' ? result : '';
     },
 
-    async getSystemStatus(): Promise<SystemStatus> {
-      const data = await client.makeRequest<SystemStatus>('get_system_status', {});
+    async getSystemStatus(requestOptions?: RSRequestOptions): Promise<SystemStatus> {
+      const data = await client.call('get_system_status', {}, requestOptions);
       return data ?? {};
     },
   };
@@ -1,8 +1,9 @@
 import type { RSClientCore } from '../core/client.js';
-import type { AlternativeFile } from '../core/types.js';
+import type { AlternativeFile, RSRequestOptions } from '../core/types.js';
 import { toNumber } from '../utils/response.js';
 import { validateId } from '../core/errors.js';
 import { assignCapability } from '../utils/assign-capability.js';
+import type { RSFunctionParams } from '../core/api.js';
 
 export interface UploadCapability {
   /**
@@ -13,7 +14,7 @@ export interface UploadCapability {
     noExif?: boolean;
     autoRotate?: boolean;
     revert?: boolean;
-  }): Promise<boolean>;
+  }, requestOptions?: RSRequestOptions): Promise<boolean>;
 
   /** Add an alternative file version to a resource. */
   addAlternativeFile(
@@ -21,23 +22,28 @@ export interface UploadCapability {
     name: string,
     description: string,
     filePath: string,
+    requestOptions?: RSRequestOptions,
   ): Promise<number>;
 }
 
 export function withUpload<T extends RSClientCore>(client: T): T & UploadCapability {
   const methods: UploadCapability = {
-    async uploadFile(resourceId: number, filePath: string, options: { noExif?: boolean; autoRotate?: boolean; revert?: boolean } = {}): Promise<boolean> {
+    async uploadFile(
+      resourceId: number,
+      filePath: string,
+      options: { noExif?: boolean; autoRotate?: boolean; revert?: boolean } = {},
+      requestOptions?: RSRequestOptions,
+    ): Promise<boolean> {
       validateId(resourceId, 'resource ID');
-      // RS upload_file params: $ref, $no_exif, $revert, $autorotate, $file_path
-      const params: Record<string, string | number | boolean> = {
-        ref: resourceId.toString(),
+      const params: RSFunctionParams<'upload_file'> = {
+        ref: resourceId,
         file_path: filePath,
       };
       if (options.noExif) params.no_exif = 1;
       if (options.autoRotate) params.autorotate = 1;
       if (options.revert) params.revert = 1;
 
-      const result = await client.makeRequest<unknown>('upload_file', params);
+      const result = await client.call('upload_file', params, requestOptions);
       return result !== false;
     },
 
@@ -46,16 +52,15 @@ export function withUpload<T extends RSClientCore>(client: T): T & UploadCapabil
       name: string,
       description: string,
       filePath: string,
+      requestOptions?: RSRequestOptions,
     ): Promise<number> {
       validateId(resourceId, 'resource ID');
-      // RS add_alternative_file params: $resource, $name, $description, $file_name, $file_extension,
-      // $file_size, $alt_type, $file
-      const result = await client.makeRequest<number | { ref: number }>('add_alternative_file', {
-        resource: resourceId.toString(),
+      const result = await client.call('add_alternative_file', {
+        resource: resourceId,
         name,
         description,
         file: filePath,
-      });
+      }, requestOptions);
       const ref = typeof result === 'object' && result !== null ? toNumber(result.ref) : toNumber(result);
       if (ref === null) throw new Error('add_alternative_file returned invalid ref');
       return ref;
@@ -1,8 +1,11 @@
 import type { RSClientCore } from '../core/client.js';
-import type { User, UserUpdateData, CreateUserParams } from '../core/types.js';
-import { SecurityError, validateId } from '../core/errors.js';
+import type { User, UserUpdateData, CreateUserParams, RSRequestOptions } from '../core/types.js';
+import { SecurityError, PermissionError, RequestAbortedError, validateId } from '../core/errors.js';
+import { sleep } from '../core/retry.js';
 import { assignCapability } from '../utils/assign-capability.js';
 import { ensureArray, toNumber } from '../utils/response.js';
+import { userDecoder, userListDecoder } from '../core/decoders.js';
+import type { RSFunctionParams } from '../core/api.js';
 
 // ---------------------------------------------------------------------------
 // SECURITY: Field allowlist for save_user
@@ -19,27 +22,44 @@ const SAVE_USER_ALLOWED_FIELDS = new Set<keyof UserUpdateData>([
   'comments',
 ]);
 
+/**
+ * Retry policy for the approved=0 save_user step of createUser.
+ * A failure there leaves an auto-approved user behind, so every error is
+ * retried, outside the client-wide retry budget.
+ */
+const SAVE_USER_RETRY_POLICY = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+} as const;
+
 export interface UsersCapability {
   /** Look up a user by username (exact match). */
-  getUser(username: string): Promise<User | null>;
+  getUser(username: string, requestOptions?: RSRequestOptions): Promise<User | null>;
 
   /**
    * Get full user data including comments.
    * Can look up by username (string) or ref (number).
    */
-  getFullUser(usernameOrRef: string | number): Promise<User | null>;
+  getFullUser(usernameOrRef: string | number, requestOptions?: RSRequestOptions): Promise<User | null>;
 
   /** Get the numeric ref ID for a username. */
-  getUserRef(username: string): Promise<number | null>;
+  getUserRef(username: string, requestOptions?: RSRequestOptions): Promise<number | null>;
 
   /** List users, optionally filtering by search string. */
-  getUsers(filter?: string): Promise<User[]>;
+  getUsers(filter?: string, requestOptions?: RSRequestOptions): Promise<User[]>;
 
   /**
-   * Authenticate a user. Returns the session key on success, null on failure.
-   * The session key can then be used to create a session-key-authenticated client.
+   * Authenticate a user. Returns the session key on success, null if RS
+   * rejects the credentials. The session key can then be used to create a
+   * session-key-authenticated client.
+   * Only a rejection returns null: network, timeout and server errors (and
+   * an aborted call) are thrown, so an outage is not mistaken for a bad password.
    */
-  checkCredentials(username: string, password: string): Promise<string | null>;
+  checkCredentials(
+    username: string,
+    password: string,
+    requestOptions?: RSRequestOptions,
+  ): Promise<string | null>;
 
   /**
    * Create a new user account.
@@ -48,10 +68,12 @@ export interface UsersCapability {
    * - Usergroup is read from client config (`signupUsergroup`), NEVER from parameters.
    * - Created users have `approved=0` (pending) to prevent auto-approval
    *   (RS database defaults approved=1).
+   * - `requestOptions.signal` only cancels the `new_user` step. Once the user
+   *   exists, the approval step always runs to completion.
    *
    * @returns The new user's ref ID.
    */
-  createUser(params: CreateUserParams): Promise<number>;
+  createUser(params: CreateUserParams, requestOptions?: RSRequestOptions): Promise<number>;
 
   /**
    * Update user profile data.
@@ -62,72 +84,82 @@ export interface UsersCapability {
    * Fields like usergroup, approved, ip_restrict are silently stripped.
    * Throws SecurityError if no valid fields remain after filtering.
    */
-  saveUser(userRef: number, data: UserUpdateData): Promise<{ success: boolean; error?: string }>;
+  saveUser(
+    userRef: number,
+    data: UserUpdateData,
+    requestOptions?: RSRequestOptions,
+  ): Promise<{ success: boolean; error?: string }>;
 }
 
 export function withUsers<T extends RSClientCore>(client: T): T & UsersCapability {
   const methods: UsersCapability = {
-    async getUser(username: string): Promise<User | null> {
-      const users = await client.makeRequest<User[]>('get_users', {
+    async getUser(username: string, requestOptions?: RSRequestOptions): Promise<User | null> {
+      const users = await client.call('get_users', {
         find: username,
         exact_username_match: true,
-      });
-      const arr = ensureArray<User>(users);
-      return arr.length > 0 ? normalizeUser(arr[0]) : null;
+      }, requestOptions);
+      const arr = ensureArray(users);
+      return arr.length > 0 ? client.decode(userDecoder, arr[0], 'get_users') : null;
     },
 
-    async getFullUser(usernameOrRef: string | number): Promise<User | null> {
+    async getFullUser(
+      usernameOrRef: string | number,
+      requestOptions?: RSRequestOptions,
+    ): Promise<User | null> {
       const findParam = typeof usernameOrRef === 'number'
         ? usernameOrRef.toString()
         : usernameOrRef;
 
-      const params: Record<string, string | number | boolean> = { find: findParam };
+      const params: RSFunctionParams<'get_users'> = { find: findParam };
       if (typeof usernameOrRef === 'string') {
         params.exact_username_match = true;
       }
 
-      const users = await client.makeRequest<User[]>('get_users', params);
-      const arr = ensureArray<User>(users);
-      return arr.length > 0 ? normalizeUser(arr[0]) : null;
+      const users = await client.call('get_users', params, requestOptions);
+      const arr = ensureArray(users);
+      return arr.length > 0 ? client.decode(userDecoder, arr[0], 'get_users') : null;
     },
 
-    async getUserRef(username: string): Promise<number | null> {
-      const user = await methods.getUser(username);
+    async getUserRef(username: string, requestOptions?: RSRequestOptions): Promise<number | null> {
+      const user = await methods.getUser(username, requestOptions);
       return user?.ref ?? null;
     },
 
-    async getUsers(filter?: string): Promise<User[]> {
-      const params: Record<string, string> = {};
-      if (filter) params.find = filter;
-      const users = await client.makeRequest<User[]>('get_users', params);
-      return ensureArray<User>(users).map(normalizeUser);
+    async getUsers(filter?: string, requestOptions?: RSRequestOptions): Promise<User[]> {
+      const users = await client.call('get_users', { find: filter || undefined }, requestOptions);
+      return client.decode(userListDecoder, ensureArray(users), 'get_users');
     },
 
-    async checkCredentials(username: string, password: string): Promise<string | null> {
+    async checkCredentials(
+      username: string,
+      password: string,
+      requestOptions?: RSRequestOptions,
+    ): Promise<string | null> {
       try {
-        const result = await client.makeRequest<string | null>('login', {
+        const result = await client.call('login', {
           username,
           password,
-        });
+        }, requestOptions);
         // RS login returns the session key as a plain string on success
         if (typeof result === 'string' && result.length >= 32) {
           return result;
         }
         return null;
-      } catch {
-        return null;
+      } catch (error) {
+        if (error instanceof PermissionError) return null;
+        throw error;
       }
     },
 
-    async createUser(params: CreateUserParams): Promise<number> {
+    async createUser(params: CreateUserParams, requestOptions?: RSRequestOptions): Promise<number> {
       // SECURITY: Usergroup from client config, NEVER from parameters
       const usergroup = client.config.signupUsergroup ?? 9;
 
       // RS new_user only accepts $username and $usergroup (per RS API docs)
-      const result = await client.makeRequest<number | { ref: number; user: number }>('new_user', {
+      const result = await client.call('new_user', {
         username: params.username,
         usergroup,
-      });
+      }, requestOptions);
 
       // RS returns varying formats: { ref: N }, { user: N }, or just N
       let ref: number | null = null;
@@ -142,46 +174,53 @@ export function withUsers<T extends RSClientCore>(client: T): T & UsersCapabilit
 
       // SECURITY: Explicitly set approved=0 (RS database defaults approved=1!)
       // This is the CRITICAL security step — if it fails, user is auto-approved.
-      // We retry with backoff because a transient failure here = security hole.
+      // We retry with backoff because a failure here = security hole.
       const saveData: Record<string, string | number> = { approved: 0 };
       if (params.fullname) saveData.fullname = params.fullname;
       if (params.email) saveData.email = params.email;
       if (params.password) saveData.password = params.password;
 
-      const MAX_RETRIES = 3;
-      const BACKOFF_BASE_MS = 500;
+      // A dedicated loop rather than the core retry path: that only repeats
+      // transient errors and gives up once the shared retry budget is spent,
+      // and disabling retries in config must never weaken this step. The
+      // caller's signal is deliberately not passed: once the user exists,
+      // this step must not be cancelled.
+      const { maxAttempts, baseDelayMs } = SAVE_USER_RETRY_POLICY;
       let lastError: unknown;
-
-      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
         try {
-          await client.makeRequest('save_user', {
-            ref: ref.toString(),
+          await client.call('save_user', {
+            ref,
             data: JSON.stringify(saveData),
-          });
+          }, { retry: false, timeout: requestOptions?.timeout });
           return ref; // Success — user created with approved=0
         } catch (error) {
           lastError = error;
-          if (attempt < MAX_RETRIES) {
-            client.log.warn(
-              `createUser save_user attempt ${attempt}/${MAX_RETRIES} failed, retrying...`,
-              { userRef: ref, error: error instanceof Error ? error.message : String(error) },
-            );
-            await new Promise(resolve => setTimeout(resolve, BACKOFF_BASE_MS * attempt));
+          if (attempt < maxAttempts) {
+            client.log.warn(`createUser save_user attempt ${attempt}/${maxAttempts} failed, retrying`, {
+              userRef: ref,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            await sleep(baseDelayMs * attempt);
           }
         }
       }
 
-      // All retries failed — user exists but may be auto-approved (approved=1 DB default)
+      // All attempts failed — user exists but may be auto-approved (approved=1 DB default)
       // This is a CRITICAL security problem
       throw new SecurityError(
-        `CRITICAL: User ${ref} was created but save_user failed after ${MAX_RETRIES} attempts. ` +
+        `CRITICAL: User ${ref} was created but save_user failed after ${maxAttempts} attempts. ` +
         `User may be auto-approved (RS defaults approved=1). ` +
         `Manually set approved=0 for user ref ${ref}. ` +
         `Cause: ${lastError instanceof Error ? lastError.message : String(lastError)}`,
       );
     },
 
-    async saveUser(userRef: number, data: UserUpdateData): Promise<{ success: boolean; error?: string }> {
+    async saveUser(
+      userRef: number,
+      data: UserUpdateData,
+      requestOptions?: RSRequestOptions,
+    ): Promise<{ success: boolean; error?: string }> {
       validateId(userRef, 'user ref');
       // SECURITY: Allowlist fields to prevent privilege escalation.
       // RS save_user accepts usergroup, approved, ip_restrict, etc.
@@ -201,13 +240,10 @@ export function withUsers<T extends RSClientCore>(client: T): T & UsersCapabilit
       }
 
       try {
-        const result = await client.makeRequest<{ status?: string; data?: unknown; error?: string }>(
-          'save_user',
-          {
-            ref: userRef.toString(),
-            data: JSON.stringify(sanitized),
-          },
-        );
+        const result = await client.call('save_user', {
+          ref: userRef,
+          data: JSON.stringify(sanitized),
+        }, requestOptions);
 
         // JSend success: { status: "success", data: null }
         if (result && typeof result === 'object' && result.status === 'success') {
@@ -227,6 +263,7 @@ export function withUsers<T extends RSClientCore>(client: T): T & UsersCapabilit
 
         return { success: false, error: 'Unexpected response format' };
       } catch (error) {
+        if (error instanceof RequestAbortedError) throw error;
         const msg = error instanceof Error ? error.message : 'Unknown error';
         return { success: false, error: msg };
       }
@@ -235,11 +272,3 @@ export function withUsers<T extends RSClientCore>(client: T): T & UsersCapabilit
 
   return assignCapability(client, methods);
 }
-
-function normalizeUser(user: Record<string, unknown>): User {
-  return {
-    ...user,
-    ref: toNumber(user.ref as string | number) ?? 0,
-    usergroup: toNumber(user.usergroup as string | number) ?? 0,
-  } as User;
-}
@@ -0,0 +1,401 @@
+import type {
+  AlternativeFile,
+  Collection,
+  FieldDefinition,
+  FieldOption,
+  ImageSize,
+  Node,
+  Resource,
+  ResourceFieldData,
+  ResourceType,
+  RSParams,
+  SystemStatus,
+  User,
+} from './types.js';
+
+// ---------------------------------------------------------------------------
+// Typed registry of RS API functions.
+//
+// Maps each function name to its named params (exactly as RS reads them
+// from the query string) and its response type. `RSClientCore.call` checks
+// both at compile time, so a misspelt or invented param (`limit` instead of
+// `fetchrows`) is a type error rather than a silently ignored query param.
+//
+// Response types describe what RS documents. They are not checked at
+// runtime — pass rows through `client.decode` for that. Functions not
+// listed here (e.g. from plugins) are still reachable via `makeRequest`.
+// ---------------------------------------------------------------------------
+
+/**
+ * An RS flag. Sent as `1` or `true`; there is deliberately no `false`,
+ * because PHP reads the string "false" as truthy — use `0` (or omit it).
+ */
+export type RSFlag = 0 | 1 | true;
+
+/** Comma-separated IDs, e.g. `"1,2,3"` */
+export type RSIdList = string;
+
+/** Ref of a newly created record; RS versions differ in whether it is wrapped */
+type CreatedRef = number | { ref: number };
+
+/** JSend-style reply used by newer RS endpoints */
+interface JSendResponse {
+  status?: string;
+  data?: unknown;
+  error?: string;
+}
+
+/** A search row from search_get_previews, with `url_<size>` preview URLs */
+type PreviewRow = Resource & { [key: `url_${string}`]: string | undefined };
+
+/**
+ * Search rows. Passing `fetchrows` as `"<offset>,<rows>"` asks RS for a
+ * structured reply that includes the total number of matches.
+ */
+type SearchRows<Row> = Row[] | { total: number; data: Row[] };
+
+/** Rows to fetch: a count, or `"<offset>,<rows>"` for a reply with the total */
+export type RSFetchRows = number | `${number},${number}`;
+
+export interface RSApi {
+  // Search
+  do_search: {
+    params: {
+      search: string;
+      /** CSV of resource type IDs */
+      restypes?: string;
+      order_by?: string;
+      /** Archive state, or a CSV of states */
+      archive?: number | string;
+      fetchrows?: RSFetchRows;
+      sort?: 'ASC' | 'DESC';
+      offset?: number;
+      /** CSV of field IDs returned as `field<ID>` columns */
+      data_joins?: string;
+    };
+    response: SearchRows<Resource>;
+  };
+  search_get_previews: {
+    params: {
+      search: string;
+      restypes?: string;
+      order_by?: string;
+      archive?: number | string;
+      fetchrows?: RSFetchRows;
+      sort?: 'ASC' | 'DESC';
+      recent_search_daylimit?: number;
+      /** CSV of preview size codes, e.g. `"thm,pre"` */
+      getsizes?: string;
+      previewext?: string;
+    };
+    response: SearchRows<PreviewRow>;
+  };
+  search_public_collections: {
+    params: { search: string; order_by?: string; sort?: 'ASC' | 'DESC'; exclude_themes?: RSFlag };
+    response: Collection[];
+  };
+
+  // Resources
+  get_resource_data: {
+    params: { resource: number };
+    response: Resource | false;
+  };
+  get_resource_field_data: {
+    params: { resource: number; field?: number };
+    response: ResourceFieldData[];
+  };
+  get_data_by_field: {
+    params: { ref: number; field: number | string };
+    response: string;
+  };
+  get_resource_path: {
+    params: {
+      ref: number;
+      size?: string;
+      generate?: 0 | 1;
+      extension?: string;
+      page?: number;
+      watermarked?: 0 | 1;
+      alternative?: number;
+    };
+    response: string | null;
+  };
+  get_resource_all_image_sizes: {
+    params: { resource: number };
+    /** `false` if the user may not see the resource's files */
+    response: ImageSize[] | false;
+  };
+  get_resource_log: {
+    params: { resource: number; fetchrows?: number };
+    response: unknown[];
+  };
+  get_related_resources: {
+    params: { ref: number };
+    response: Resource[];
+  };
+  get_alternative_files: {
+    params: { resource: number; order_by?: string; sort?: 'ASC' | 'DESC'; type?: string };
+    response: AlternativeFile[];
+  };
+  get_edit_access: {
+    params: { resource: number };
+    response: boolean;
+  };
+  /** 0 open, 1 restricted, 2 confidential */
+  get_resource_access: {
+    params: { resource: number };
+    response: number;
+  };
+  create_resource: {
+    params: {
+      resource_type: number;
+      archive?: number;
+      url?: string;
+      no_exif?: RSFlag;
+      revert?: RSFlag;
+      autorotate?: RSFlag;
+      /** JSON object of field ID → value */
+      metadata?: string;
+    };
+    response: CreatedRef;
+  };
+  copy_resource: {
+    params: { from: number; resource_type?: number };
+    response: CreatedRef;
+  };
+  delete_resource: {
+    params: { resource: number | RSIdList };
+    response: boolean;
+  };
+  update_field: {
+    params: { resource: number | RSIdList; field: number | string; value: string; nodevalues?: RSFlag };
+    response: boolean;
+  };
+  put_resource_data: {
+    /** `data` is a JSON object of column/field → value */
+    params: { resource: number; data: string };
+    response: boolean;
+  };
+  update_resource_type: {
+    params: { resource: number; type: number };
+    response: boolean;
+  };
+  update_related_resource: {
+    params: { ref: number; related: RSIdList; add?: 0 | 1 };
+    response: boolean;
+  };
+  relate_all_resources: {
+    params: { related: RSIdList };
+    response: boolean;
+  };
+  update_resource_archive_status: {
+    params: { resource: RSIdList; archive: number };
+    response: boolean;
+  };
+  add_alternative_file: {
+    params: {
+      resource: number;
+      name: string;
+      description?: string;
+      file_name?: string;
+      file_extension?: string;
+      file_size?: number;
+      alt_type?: string;
+      /** Local path or URL RS fetches the file from */
+      file?: string;
+    };
+    response: CreatedRef;
+  };
+  delete_alternative_file: {
+    params: { resource: number; ref: number };
+    response: boolean;
+  };
+  upload_file: {
+    params: { ref: number; file_path: string; no_exif?: RSFlag; revert?: RSFlag; autorotate?: RSFlag };
+    response: boolean;
+  };
+  upload_file_by_url: {
+    params: { ref: number; url: string; no_exif?: RSFlag; revert?: RSFlag; autorotate?: RSFlag };
+    response: boolean;
+  };
+  replace_resource_file: {
+    params: {
+      resource: number;
+      file_location: string;
+      no_exif?: RSFlag;
+      autorotate?: RSFlag;
+      keep_original?: RSFlag;
+    };
+    response: JSendResponse;
+  };
+
+  // Fields & nodes
+  get_resource_type_fields: {
+    params: { by_resource_types?: number | string; find?: string; by_types?: string };
+    response: FieldDefinition[];
+  };
+  get_field_options: {
+    params: { ref: number; nodeinfo?: RSFlag };
+    response: FieldOption[];
+  };
+  get_field_values: {
+    params: { field: number };
+    response: string[];
+  };
+  get_nodes: {
+    params: {
+      /** Field ID */
+      ref: number;
+      parent?: number;
+      recursive?: RSFlag;
+      offset?: number;
+      rows?: number;
+      name?: string;
+      use_count?: RSFlag;
+      order_by_translated_name?: RSFlag;
+    };
+    response: Node[];
+  };
+  get_node_id: {
+    params: { value: string; resource_type_field: number };
+    response: number | false;
+  };
+  set_node: {
+    params: {
+      /** Node to update, or `'null'` to create one */
+      ref: number | 'null';
+      resource_type_field: number;
+      name: string;
+      parent?: number;
+      order_by?: number;
+      returnexisting?: RSFlag;
+    };
+    response: CreatedRef;
+  };
+  add_resource_nodes: {
+    params: { resource: number; nodestring: RSIdList };
+    response: boolean;
+  };
+  add_resource_nodes_multi: {
+    params: { resourceid: RSIdList; nodes: RSIdList };
+    response: boolean;
+  };
+  remove_resource_nodes: {
+    params: { resource: number; nodestring: RSIdList };
+    response: boolean;
+  };
+
+  // Collections
+  get_user_collections: {
+    params: { user?: number };
+    response: Collection[];
+  };
+  get_all_featured_collections: {
+    params: Record<string, never>;
+    response: Collection[];
+  };
+  get_featured_collections: {
+    params: { parent: number };
+    response: Collection[];
+  };
+  create_collection: {
+    params: { name: string; forupload?: RSFlag };
+    response: CreatedRef;
+  };
+  delete_collection: {
+    params: { collection: number };
+    response: boolean;
+  };
+  add_resource_to_collection: {
+    params: { resource: number; collection: number };
+    response: boolean;
+  };
+  remove_resource_from_collection: {
+    params: { resource: number; collection: number };
+    response: boolean;
+  };
+  show_hide_collection: {
+    params: { collection: number; show: 0 | 1; user: number };
+    response: boolean;
+  };
+  send_collection_to_admin: {
+    params: { collection: number };
+    response: boolean;
+  };
+  collection_email: {
+    params: { ref: number; emails: string; message?: string };
+    response: boolean;
+  };
+
+  // Users
+  get_users: {
+    params: { find?: string; exact_username_match?: RSFlag };
+    response: User[];
+  };
+  get_users_by_permission: {
+    params: { permissions: string };
+    response: User[];
+  };
+  login: {
+    params: { username: string; password: string };
+    /** Session key */
+    response: string | null;
+  };
+  new_user: {
+    params: { username: string; usergroup: number };
+    response: number | { ref: number; user: number };
+  };
+  save_user: {
+    /** `data` is a JSON object of user column → value */
+    params: { ref: number; data: string };
+    response: JSendResponse;
+  };
+  checkperm: {
+    params: { perm: string };
+    response: boolean;
+  };
+  mark_email_as_invalid: {
+    params: { email: string };
+    response: boolean;
+  };
+
+  // System
+  get_resource_types: {
+    params: Record<string, never>;
+    response: ResourceType[];
+  };
+  get_api_version: {
+    params: Record<string, never>;
+    response: string;
+  };
+  get_system_status: {
+    params: Record<string, never>;
+    response: SystemStatus;
+  };
+}
+
+/** Name of an RS API function in the registry */
+export type RSFunctionName = keyof RSApi;
+
+/** Named params of an RS API function */
+export type RSFunctionParams<F extends RSFunctionName> = RSApi[F]['params'];
+
+/** Response type of an RS API function */
+export type RSFunctionResponse<F extends RSFunctionName> = RSApi[F]['response'];
+
+/**
+ * Arguments after the function name: params are optional only for
+ * functions where every param is.
+ */
+export type RSCallArgs<F extends RSFunctionName, Options> = {} extends RSFunctionParams<F>
+  ? [params?: RSFunctionParams<F>, options?: Options]
+  : [params: RSFunctionParams<F>, options?: Options];
+
+/** Typed params as sent to RS: keys set to `undefined` are dropped */
+export function toRSParams(params: object = {}): RSParams {
+  const result: RSParams = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) result[key] = value as RSParams[string];
+  }
+  return result;
+}
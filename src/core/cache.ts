@@ -0,0 +1,268 @@
+import type { RSCacheOptions, RSCacheStore, RSLogger, RSParams } from './types.js';
+import { canonicalizeParams } from '../utils/query-builder.js';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/** Functions cached by default — metadata that rarely changes */
+export const DEFAULT_CACHE_TTLS: Readonly<Record<string, number>> = {
+  get_resource_type_fields: FIVE_MINUTES,
+  get_field_options: FIVE_MINUTES,
+  get_nodes: FIVE_MINUTES,
+  get_resource_types: FIVE_MINUTES,
+  get_featured_collections: FIVE_MINUTES,
+  get_all_featured_collections: FIVE_MINUTES,
+};
+
+/**
+ * In-memory LRU cache store.
+ * Values are deep-copied on the way in and out, so callers mutating a
+ * returned array cannot corrupt the cached copy.
+ */
+export class MemoryCacheStore implements RSCacheStore {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry.value);
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: this.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Invalidation tags
+//
+// Every cached read is tagged with the entities it depends on; every
+// mutation names the tags it makes stale. `search` covers all do_search
+// results, since almost any resource change can alter a result set.
+// ---------------------------------------------------------------------------
+
+/** Split a CSV id param (batch calls pass "1,2,3") into one tag per id. */
+function idTags(prefix: string, value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return String(value).split(',').filter(Boolean).map(id => `${prefix}:${id.trim()}`);
+}
+
+/** Tags a cached read depends on. */
+export function cacheTagsFor(functionName: string, params: Readonly<RSParams>): string[] {
+  switch (functionName) {
+    case 'do_search': {
+      const collection = /^!collection(\d+)/.exec(String(params.search ?? ''));
+      return collection ? ['search', `collection:${collection[1]}`] : ['search'];
+    }
+    case 'search_get_previews':
+      return ['search'];
+    case 'get_resource_data':
+    case 'get_resource_field_data':
+    case 'get_resource_all_image_sizes':
+    case 'get_resource_log':
+    case 'get_alternative_files':
+    case 'get_edit_access':
+    case 'get_resource_access':
+      return idTags('resource', params.resource);
+    case 'get_resource_path':
+    case 'get_related_resources':
+    case 'get_data_by_field':
+      return idTags('resource', params.ref);
+    case 'get_resource_type_fields':
+      return ['fields'];
+    case 'get_field_options':
+    case 'get_nodes':
+      return idTags('field', params.ref);
+    case 'get_field_values':
+      return idTags('field', params.field);
+    case 'get_node_id':
+      return idTags('field', params.resource_type_field);
+    case 'get_user_collections':
+    case 'search_public_collections':
+      return ['collections'];
+    case 'get_featured_collections':
+    case 'get_all_featured_collections':
+      return ['featured-collections'];
+    case 'get_users':
+    case 'get_users_by_permission':
+      return ['users'];
+    case 'get_resource_types':
+      return ['resource-types'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Tags made stale by a mutation, or null if the mutation is unknown and
+ * the whole cache must be dropped.
+ */
+export function invalidationTagsFor(functionName: string, params: Readonly<RSParams>): string[] | null {
+  switch (functionName) {
+    case 'set_node':
+      return idTags('field', params.resource_type_field);
+    case 'update_field':
+      return ['search', ...idTags('resource', params.resource), ...idTags('field', params.field)];
+    case 'add_resource_to_collection':
+    case 'remove_resource_from_collection':
+    case 'create_collection':
+    case 'delete_collection':
+      return [...idTags('collection', params.collection), 'collections', 'featured-collections'];
+    case 'create_resource':
+    case 'copy_resource':
+      return ['search'];
+    case 'delete_resource':
+    case 'update_resource_archive_status':
+    case 'remove_resource_nodes':
+      return ['search', ...idTags('resource', params.resource)];
+    case 'add_resource_nodes_multi':
+      return ['search', ...idTags('resource', params.resourceid)];
+    case 'upload_file':
+      return ['search', ...idTags('resource', params.ref)];
+    case 'add_alternative_file':
+      return idTags('resource', params.resource);
+    case 'new_user':
+    case 'save_user':
+      return ['users'];
+    case 'login':
+    case 'collection_email':
+      return [];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Response cache with per-function TTLs and tag-based invalidation.
+ *
+ * The tag index lives in this process, so invalidation covers entries
+ * written through this client; entries written by other processes to a
+ * shared store expire by TTL.
+ *
+ * Store failures never fail a request — they are logged and the call
+ * falls through to RS.
+ */
+export class ResponseCache {
+  private readonly store: RSCacheStore;
+  private readonly ttls: Readonly<Record<string, number>>;
+  private readonly keysByTag = new Map<string, Set<string>>();
+
+  constructor(
+    options: RSCacheOptions,
+    /** Prefix isolating entries per RS instance and user */
+    private readonly namespace: string,
+    private readonly log: RSLogger,
+  ) {
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries);
+    this.ttls = options.ttl ?? DEFAULT_CACHE_TTLS;
+  }
+
+  /** True if responses of this function are cached. */
+  isCached(functionName: string): boolean {
+    return (this.ttls[functionName] ?? 0) > 0;
+  }
+
+  keyFor(functionName: string, params: Readonly<RSParams>): string {
+    return `${this.namespace}:${functionName}?${canonicalizeParams(params)}`;
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.warn('get', error);
+      return undefined;
+    }
+  }
+
+  async set(functionName: string, params: Readonly<RSParams>, key: string, value: unknown): Promise<void> {
+    try {
+      await this.store.set(key, value, this.ttls[functionName]);
+    } catch (error) {
+      this.warn('set', error);
+      return;
+    }
+    for (const tag of cacheTagsFor(functionName, params)) {
+      let keys = this.keysByTag.get(tag);
+      if (!keys) this.keysByTag.set(tag, keys = new Set());
+      keys.add(key);
+    }
+  }
+
+  /** Drop entries made stale by a mutation. Returns the number of keys removed. */
+  async invalidateFor(functionName: string, params: Readonly<RSParams>): Promise<number> {
+    const tags = invalidationTagsFor(functionName, params);
+    if (tags === null) {
+      const count = this.indexedKeyCount();
+      await this.clear();
+      return count;
+    }
+    return this.invalidateTags(tags);
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    const keys = new Set<string>();
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) keys.add(key);
+      this.keysByTag.delete(tag);
+    }
+    try {
+      for (const key of keys) {
+        await this.store.delete(key);
+      }
+    } catch (error) {
+      this.warn('delete', error);
+    }
+    return keys.size;
+  }
+
+  async clear(): Promise<void> {
+    this.keysByTag.clear();
+    try {
+      await this.store.clear();
+    } catch (error) {
+      this.warn('clear', error);
+    }
+  }
+
+  private warn(operation: string, error: unknown): void {
+    this.log.warn(`RS cache store ${operation} failed`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  private indexedKeyCount(): number {
+    const keys = new Set<string>();
+    for (const tagKeys of this.keysByTag.values()) tagKeys.forEach(k => keys.add(k));
+    return keys.size;
+  }
+}
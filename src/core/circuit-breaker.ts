@@ -0,0 +1,116 @@
+import type { CircuitState, RSCircuitBreakerOptions, RSLogger } from './types.js';
+import { CircuitOpenError } from './errors.js';
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Readonly<RSCircuitBreakerOptions> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  halfOpenMaxCalls: 1,
+  successThreshold: 1,
+};
+
+/**
+ * Circuit breaker around the RS endpoint.
+ *
+ * - closed: requests flow normally; consecutive transient failures are counted.
+ * - open: requests fail immediately with CircuitOpenError until
+ *   `resetTimeoutMs` has elapsed.
+ * - half-open: a limited number of probe requests are let through. Enough
+ *   successes close the circuit; any failure re-opens it.
+ *
+ * Only transient failures (5xx, timeouts, network errors) count — an RS
+ * error response still proves the server is up. State changes are
+ * reported through the client logger.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private successes = 0;
+  private probesInFlight = 0;
+  private openedAt = 0;
+
+  constructor(
+    private readonly options: RSCircuitBreakerOptions,
+    private readonly log: RSLogger,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Current state. An open circuit whose timeout elapsed reports half-open. */
+  get currentState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Reserve permission to send a request.
+   * Throws CircuitOpenError if the circuit is open or all probe slots are taken.
+   */
+  acquire(functionName: string): void {
+    if (this.state === 'open') {
+      const elapsed = this.now() - this.openedAt;
+      if (elapsed < this.options.resetTimeoutMs) {
+        throw new CircuitOpenError(functionName, this.options.resetTimeoutMs - elapsed);
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probesInFlight >= this.options.halfOpenMaxCalls) {
+        // A probe is already in flight; its outcome decides the next state
+        throw new CircuitOpenError(functionName, 0);
+      }
+      this.probesInFlight++;
+    }
+  }
+
+  /** Record a request that reached RS and got an answer. */
+  onSuccess(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.successes++;
+      if (this.successes >= this.options.successThreshold) {
+        this.transition('closed');
+      }
+    } else if (this.state === 'closed') {
+      this.failures = 0;
+    }
+  }
+
+  /** Record a transient failure (5xx, timeout, network error). */
+  onFailure(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.transition('open');
+    } else if (this.state === 'closed') {
+      this.failures++;
+      if (this.failures >= this.options.failureThreshold) {
+        this.transition('open');
+      }
+    }
+  }
+
+  /** Record a request cancelled by the caller — says nothing about RS health. */
+  onCancel(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    const failures = this.failures;
+    this.state = to;
+    this.failures = 0;
+    this.successes = 0;
+    if (to === 'open') this.openedAt = this.now();
+    if (to !== 'half-open') this.probesInFlight = 0;
+
+    const data = { from, to, failures, resetTimeoutMs: this.options.resetTimeoutMs };
+    if (to === 'open') {
+      this.log.warn('RS circuit breaker opened — failing fast', data);
+    } else {
+      this.log.info(`RS circuit breaker ${to}`, data);
+    }
+  }
+}
@@ -1,9 +1,59 @@
-import type { RSConfig, RSLogger } from './types.js';
-import { ResourceSpaceError, PermissionError } from './errors.js';
+import type {
+  CircuitState,
+  RSConfig,
+  RSLogger,
+  RSMiddleware,
+  RSParams,
+  RSRequestContext,
+  RSRequestOptions,
+  RSRetryPolicy,
+  RSTransport,
+  RSTransportResponse,
+} from './types.js';
+import {
+  ResourceSpaceError,
+  PermissionError,
+  RequestAbortedError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  UrlTooLongError,
+  ResponseValidationError,
+  ValidationError,
+} from './errors.js';
 import { validateConfig } from './config.js';
-import { buildSignedQuery } from '../utils/query-builder.js';
+import {
+  defaultTransport,
+  discardBody,
+  runRequestHooks,
+  runResponseHooks,
+  runErrorHooks,
+} from './transport.js';
+import { isReadOnlyFunction } from './functions.js';
+import {
+  toRSParams,
+  type RSCallArgs,
+  type RSFunctionName,
+  type RSFunctionResponse,
+} from './api.js';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_OPTIONS } from './circuit-breaker.js';
+import { RateLimiter } from './rate-limiter.js';
+import { ResponseCache } from './cache.js';
+import { Fixtures } from './fixtures.js';
+import type { Decoder, DecodeIssue } from '../utils/decode.js';
+import { SingleFlight, type SingleFlightStats } from './single-flight.js';
+import { Telemetry, type CallTrace } from './telemetry.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryBudget,
+  computeBackoff,
+  isRetryableError,
+  sleep,
+} from './retry.js';
+import { buildSignedQuery, canonicalizeParams } from '../utils/query-builder.js';
 import { normalizeResponse } from '../utils/response.js';
 import { rewriteToInternalUrl } from '../utils/url-rewriter.js';
+import { redactParams } from '../utils/redact.js';
 
 /** Silent logger used when no logger is provided */
 const noopLogger: RSLogger = {
@@ -13,17 +63,8 @@ const noopLogger: RSLogger = {
   error() {},
 };
 
-/** Fields that must NEVER appear in log output */
-const SENSITIVE_PARAM_KEYS = new Set(['password', 'secret', 'key', 'session_key']);
-
-/** Redact sensitive values from params before logging */
-function redactParams(params: Record<string, unknown>): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-  for (const [k, v] of Object.entries(params)) {
-    result[k] = SENSITIVE_PARAM_KEYS.has(k) ? '***' : v;
-  }
-  return result;
-}
+/** Response validation issues included in a lenient-mode warning */
+const MAX_LOGGED_ISSUES = 10;
 
 /**
  * Core ResourceSpace client.
@@ -39,26 +80,303 @@ export class RSClientCore {
   /** Validated configuration with defaults applied */
   readonly config: ReturnType<typeof validateConfig>;
   readonly log: RSLogger;
+  private readonly transport: RSTransport;
+  private readonly middleware: RSMiddleware[];
+  private readonly retryBudget: RetryBudget;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly cache?: ResponseCache;
+  private readonly singleFlight?: SingleFlight;
+  private readonly telemetry?: Telemetry;
 
   constructor(config: RSConfig) {
     this.config = validateConfig(config);
     this.log = config.logger ?? noopLogger;
+    const transport = config.transport ?? defaultTransport;
+    this.transport = config.fixtures
+      ? new Fixtures(config.fixtures, () => [this.config.secret, this.signingSecret]).wrap(transport)
+      : transport;
+    this.middleware = [...(config.middleware ?? [])];
+    const budget = { ...DEFAULT_RETRY_POLICY, ...(this.config.retry || {}) };
+    this.retryBudget = new RetryBudget(budget.budgetTokens, budget.budgetRefill);
+    if (this.config.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(
+        { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...this.config.circuitBreaker },
+        this.log,
+      );
+    }
+    if (this.config.rateLimit) {
+      this.rateLimiter = new RateLimiter(this.config.rateLimit);
+    }
+    if (this.config.cache) {
+      const namespace = `rs:${this.config.user}@${this.config.baseUrl}`;
+      this.cache = new ResponseCache(this.config.cache, namespace, this.log);
+    }
+    if (this.config.coalesceRequests !== false) {
+      this.singleFlight = new SingleFlight();
+    }
+    if (this.config.telemetry?.tracer || this.config.telemetry?.meter) {
+      this.telemetry = new Telemetry(this.config.telemetry, this.config.authMode, this.log);
+    }
+  }
+
+  /**
+   * Secret used to sign requests (API key or session key).
+   * Subclasses may override it to rotate credentials — e.g. a refreshed
+   * session key — without rebuilding the client.
+   */
+  protected get signingSecret(): string {
+    return this.config.secret;
+  }
+
+  /** Circuit breaker state ('closed' when no breaker is configured). */
+  get circuitState(): CircuitState {
+    return this.circuitBreaker?.currentState ?? 'closed';
+  }
+
+  /**
+   * Append middleware to the request pipeline.
+   * Applies to all requests made after this call.
+   */
+  use(middleware: RSMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
    * Make an authenticated request to the ResourceSpace API.
    *
+   * Identical read-only calls in flight at the same time are coalesced into
+   * a single HTTP request (disable with `coalesceRequests: false`).
+   *
    * @param functionName - RS API function name (e.g. "do_search", "get_resource_data")
    * @param params - Function parameters (param1, param2, etc. or named params)
+   * @param options - Per-call options (retry override, cache bypass, signal, timeout)
    * @returns Normalized response of type T
    */
   async makeRequest<T>(
     functionName: string,
-    params: Record<string, string | number | boolean> = {},
+    params: RSParams = {},
+    options: RSRequestOptions = {},
+  ): Promise<T> {
+    const { signal, timeout } = options;
+    if (timeout !== undefined && !(Number.isFinite(timeout) && timeout > 0)) {
+      throw new ValidationError(`timeout must be a positive number of milliseconds, got: ${timeout}`);
+    }
+    if (signal?.aborted) throw new RequestAbortedError(functionName, signal.reason);
+    const urlLength = this.measureUrl(functionName, params);
+    if (urlLength > this.config.maxUrlLength) {
+      throw new UrlTooLongError(functionName, urlLength, this.config.maxUrlLength);
+    }
+
+    const call = this.telemetry?.start(functionName, params);
+    try {
+      const result = await this.dispatch<T>(functionName, params, options, call?.trace);
+      call?.end();
+      return result;
+    } catch (error) {
+      // Waits (rate limit, backoff, coalesced flights) reject with the raw abort reason
+      const failure = signal?.aborted && !(error instanceof RequestAbortedError)
+        ? new RequestAbortedError(functionName, signal.reason)
+        : error;
+      call?.end(failure);
+      throw failure;
+    }
+  }
+
+  /**
+   * Call an RS API function from the `RSApi` registry. Param names and
+   * types, and the response type, are checked at compile time; params set
+   * to `undefined` are omitted. Use `makeRequest` for unlisted functions.
+   *
+   * @example
+   * const rows = await client.call('do_search', { search: 'sunset', fetchrows: 10 });
+   */
+  call<F extends RSFunctionName>(
+    functionName: F,
+    ...[params, options]: RSCallArgs<F, RSRequestOptions>
+  ): Promise<RSFunctionResponse<F>> {
+    return this.makeRequest<RSFunctionResponse<F>>(functionName, toRSParams(params), options);
+  }
+
+  /** Route a call through the cache and request coalescing. */
+  private async dispatch<T>(
+    functionName: string,
+    params: RSParams,
+    options: RSRequestOptions,
+    trace?: CallTrace,
+  ): Promise<T> {
+    const cache = this.cache;
+
+    if (!isReadOnlyFunction(functionName)) {
+      if (!cache) return this.execute<T>(functionName, params, options, options.signal, trace);
+      try {
+        return await this.execute<T>(functionName, params, options, options.signal, trace);
+      } finally {
+        // Invalidate even on failure — the mutation may have been applied
+        const removed = await cache.invalidateFor(functionName, params);
+        if (removed > 0) {
+          this.log.debug(`RS API cache invalidated by ${functionName}`, {
+            function: functionName,
+            removed,
+          });
+        }
+      }
+    }
+
+    const useCache = cache !== undefined && options.cache !== false && cache.isCached(functionName);
+    const cacheKey = useCache ? cache.keyFor(functionName, params) : '';
+    if (useCache) {
+      const cached = await cache.get(cacheKey);
+      if (cached !== undefined) {
+        if (trace) trace.cacheHit = true;
+        this.log.debug(`RS API cache hit: ${functionName}`, { function: functionName });
+        return cached as T;
+      }
+    }
+
+    const work = async (signal?: AbortSignal): Promise<T> => {
+      const result = await this.execute<T>(functionName, params, options, signal, trace);
+      if (useCache) await cache.set(functionName, params, cacheKey, result);
+      return result;
+    };
+
+    if (!this.singleFlight) return work(options.signal);
+    // The shared request gets its own signal, aborted only once every
+    // coalesced caller has cancelled
+    return this.singleFlight.run(`${functionName}?${canonicalizeParams(params)}`, work, {
+      signal: options.signal,
+      onJoin: () => {
+        if (trace) trace.coalesced = true;
+        this.log.debug(`RS API request coalesced: ${functionName}`, {
+          function: functionName,
+          ...this.singleFlight!.stats,
+        });
+      },
+    });
+  }
+
+  /** Single-flight counters, or null when coalescing is disabled. */
+  get coalescingStats(): SingleFlightStats | null {
+    return this.singleFlight?.stats ?? null;
+  }
+
+  /** Drop all cached responses. No-op when caching is disabled. */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  /**
+   * Run a call through the circuit breaker, rate limiter and retry policy.
+   * `signal` cancels the call; it may differ from `options.signal` for
+   * coalesced requests.
+   */
+  private async execute<T>(
+    functionName: string,
+    params: RSParams,
+    options: RSRequestOptions,
+    signal?: AbortSignal,
+    trace?: CallTrace,
   ): Promise<T> {
+    const policy = this.resolveRetryPolicy(functionName, options);
+
+    for (let attempt = 1; ; attempt++) {
+      // Throws CircuitOpenError without touching the network while open
+      this.circuitBreaker?.acquire(functionName);
+
+      let result: T;
+      let release: () => void;
+      try {
+        release = await this.acquireRateLimit(functionName, params, signal);
+      } catch (error) {
+        this.circuitBreaker?.onCancel();
+        throw error;
+      }
+      try {
+        if (trace) trace.attempts = attempt;
+        result = await this.send<T>(functionName, params, attempt, signal, options.timeout, trace);
+      } catch (error) {
+        release();
+        if (error instanceof RequestAbortedError) {
+          this.circuitBreaker?.onCancel();
+          throw error;
+        }
+        const transient = isRetryableError(error);
+        // Any non-transient answer (e.g. an RS error body) proves RS is up
+        if (transient) this.circuitBreaker?.onFailure();
+        else this.circuitBreaker?.onSuccess();
+        if (!transient) throw error;
+
+        this.retryBudget.onFailure();
+        if (!policy || attempt >= policy.maxAttempts) throw error;
+        if (!this.retryBudget.canRetry()) {
+          this.log.warn(`RS API retry budget exhausted: ${functionName}`, {
+            function: functionName,
+            attempt,
+          });
+          throw error;
+        }
+
+        const delayMs = computeBackoff(attempt, policy);
+        this.log.warn(`RS API retry: ${functionName}`, {
+          function: functionName,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          delayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await sleep(delayMs, signal);
+        continue;
+      }
+
+      release();
+      this.circuitBreaker?.onSuccess();
+      this.retryBudget.onSuccess();
+      return result;
+    }
+  }
+
+  /**
+   * Wait for a rate limit slot. Returns a release function (no-op without a limiter).
+   */
+  private async acquireRateLimit(
+    functionName: string,
+    params: RSParams,
+    signal?: AbortSignal,
+  ): Promise<() => void> {
+    if (!this.rateLimiter) return () => {};
+    const started = Date.now();
+    const release = await this.rateLimiter.acquire(functionName, params, signal);
+    const waitedMs = Date.now() - started;
+    if (waitedMs > 0) {
+      this.log.debug(`RS API rate limited: ${functionName}`, { function: functionName, waitedMs });
+    }
+    return release;
+  }
+
+  /**
+   * Resolve the retry policy for a call, or null if it must not be retried.
+   * Mutations are only retried when the caller explicitly opts in.
+   */
+  private resolveRetryPolicy(functionName: string, options: RSRequestOptions): RSRetryPolicy | null {
+    const override = options.retry;
+    if (override === false) return null;
+    if (override === undefined && !isReadOnlyFunction(functionName)) return null;
+    // A per-call policy object enables retries even when disabled in config
+    if (this.config.retry === false && typeof override !== 'object') return null;
+
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...(this.config.retry || {}),
+      ...(typeof override === 'object' ? override : {}),
+    };
+  }
+
+  /** Build the signed request URL. */
+  private buildUrl(functionName: string, params: RSParams): string {
     const { query, sign } = buildSignedQuery(
       this.config.user,
-      this.config.secret,
+      this.signingSecret,
       this.config.authMode,
       functionName,
       params,
@@ -68,30 +386,81 @@ export class RSClientCore {
     const requestBaseUrl = this.config.internalUrl || this.config.baseUrl;
     // Ensure base URL ends with /api/ or similar
     const base = requestBaseUrl.replace(/\/+$/, '');
-    const url = `${base}/?${query}&sign=${sign}`;
+    return `${base}/?${query}&sign=${sign}`;
+  }
+
+  /**
+   * Length of the signed URL a call would be sent with.
+   * Compare against `config.maxUrlLength` to size batches.
+   */
+  measureUrl(functionName: string, params: RSParams = {}): number {
+    return this.buildUrl(functionName, params).length;
+  }
+
+  /**
+   * Perform a single signed request attempt through the middleware pipeline.
+   * The attempt is aborted by `signal` or after `timeout` ms (default: config.timeout).
+   */
+  private async send<T>(
+    functionName: string,
+    params: RSParams,
+    attempt: number,
+    signal?: AbortSignal,
+    timeout = this.config.timeout,
+    trace?: CallTrace,
+  ): Promise<T> {
+    const url = this.buildUrl(functionName, params);
 
     this.log.debug(`RS API request: ${functionName}`, {
       function: functionName,
       authMode: this.config.authMode,
       user: this.config.user,
+      attempt,
       params: redactParams(params),
     });
 
-    try {
-      const response = await fetch(url, {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    const ctx: RSRequestContext = {
+      functionName,
+      params,
+      attempt,
+      url,
+      init: {
         method: 'GET',
-        signal: AbortSignal.timeout(this.config.timeout),
+        signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
         headers: {
           'Accept': 'application/json',
         },
-      });
+      },
+      state: {},
+    };
+
+    try {
+      await runRequestHooks(this.middleware, ctx);
+      let raw: RSTransportResponse;
+      try {
+        raw = await this.transport(ctx.url, ctx.init);
+      } catch (error) {
+        // Caller cancellation wins over the timeout if both fired
+        if (signal?.aborted) throw new RequestAbortedError(functionName, signal.reason);
+        // Raised by the transport itself, e.g. a missing fixture in replay mode
+        if (error instanceof ResourceSpaceError) throw error;
+        const failure = timeoutSignal.aborted
+          ? new TimeoutError(functionName, timeout, error)
+          : new NetworkError(functionName, error);
+        this.log.error(`RS API error: ${functionName}`, error, {
+          function: functionName,
+          code: failure.code,
+          error: failure.message,
+        });
+        throw failure;
+      }
+      const response = await runResponseHooks(this.middleware, ctx, raw);
+      if (trace) trace.status = response.status;
 
       if (response.status >= 500) {
-        throw new ResourceSpaceError(
-          `ResourceSpace server error: ${response.status}`,
-          functionName,
-          response.status,
-        );
+        await discardBody(response);
+        throw new ServerError(functionName, response.status);
       }
 
       // Treat 401/403 as permission errors rather than silently passing through.
@@ -99,11 +468,13 @@ export class RSClientCore {
       // (e.g. get_resource_type_fields needs permission 'a'). Without this check,
       // the empty array is treated as a valid (but empty) response, poisoning caches.
       if (response.status === 401 || response.status === 403) {
+        await discardBody(response);
         throw new PermissionError(functionName, `HTTP ${response.status}`);
       }
 
       // Read response body as text first, then normalize
       const text = await response.text();
+      if (trace) trace.responseSize = new TextEncoder().encode(text).byteLength;
       let data: unknown;
       try {
         data = JSON.parse(text);
@@ -123,7 +494,10 @@ export class RSClientCore {
 
       return result;
     } catch (error) {
+      await runErrorHooks(this.middleware, ctx, error, this.log);
       if (error instanceof ResourceSpaceError) throw error;
+      // Cancelled by the caller, not a timeout or network failure
+      if (signal?.aborted) throw new RequestAbortedError(functionName, signal.reason);
 
       const message = error instanceof Error ? error.message : String(error);
       this.log.error(`RS API error: ${functionName}`, error, {
@@ -141,6 +515,27 @@ export class RSClientCore {
     }
   }
 
+  /**
+   * Check a response against its decoder, converting numeric strings.
+   * Mismatches throw ResponseValidationError in strict mode; in lenient
+   * mode (the default) they are logged and the data is returned as received.
+   */
+  decode<T>(decoder: Decoder<T>, data: unknown, functionName: string): T {
+    const issues: DecodeIssue[] = [];
+    const result = decoder.decode(data, issues);
+    if (issues.length === 0) return result;
+
+    if (this.config.responseValidation === 'strict') {
+      throw new ResponseValidationError(functionName, issues);
+    }
+    this.log.warn(`RS API response did not match its type: ${functionName}`, {
+      function: functionName,
+      issueCount: issues.length,
+      issues: issues.slice(0, MAX_LOGGED_ISSUES).map(i => `${i.path}: ${i.message}`),
+    });
+    return result;
+  }
+
   /**
    * Rewrite an RS-returned URL to use internal Docker networking.
    * No-op if internalUrl is not configured.
@@ -148,4 +543,17 @@ export class RSClientCore {
   rewriteUrl(url: string): string {
     return rewriteToInternalUrl(url, this.config.baseUrl, this.config.internalUrl);
   }
+
+  /**
+   * Turn a file URL or path returned by RS into a full URL. Absolute URLs
+   * go through `rewriteUrl`; paths are joined to the RS base URL.
+   */
+  resolveUrl(urlOrPath: string): string {
+    if (urlOrPath.startsWith('http://') || urlOrPath.startsWith('https://')) {
+      return this.rewriteUrl(urlOrPath);
+    }
+    const baseUrl = this.config.baseUrl.replace(/\/api\/?$/, '').replace(/\/+$/, '');
+    const normalizedPath = urlOrPath.startsWith('/') ? urlOrPath : `/${urlOrPath}`;
+    return `${baseUrl}${normalizedPath}`;
+  }
 }
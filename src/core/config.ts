@@ -1,15 +1,21 @@
 import type { RSConfig } from './types.js';
 import { ConfigurationError } from './errors.js';
+import { isReadOnlyFunction } from './functions.js';
 
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_BATCH_SIZE = 100;
+const DEFAULT_MAX_URL_LENGTH = 8000;
+/** Room for the base URL, function name, user and signature */
+const MIN_URL_LENGTH = 256;
 const MIN_SECRET_LENGTH = 32;
 
 /**
  * Validate an RSConfig and return it with defaults applied.
  * Throws ConfigurationError on invalid input.
  */
-export function validateConfig(config: RSConfig): Required<Pick<RSConfig, 'timeout' | 'maxBatchSize'>> & RSConfig {
+export function validateConfig(
+  config: RSConfig,
+): Required<Pick<RSConfig, 'timeout' | 'maxBatchSize' | 'maxUrlLength'>> & RSConfig {
   if (!config.baseUrl) {
     throw new ConfigurationError('baseUrl is required');
   }
@@ -27,11 +33,79 @@ export function validateConfig(config: RSConfig): Required<Pick<RSConfig, 'timeo
   if (config.authMode !== 'apiKey' && config.authMode !== 'sessionKey') {
     throw new ConfigurationError(`authMode must be "apiKey" or "sessionKey", got "${config.authMode}"`);
   }
+  if (config.maxUrlLength !== undefined
+    && (!Number.isInteger(config.maxUrlLength) || config.maxUrlLength < MIN_URL_LENGTH)) {
+    throw new ConfigurationError(
+      `maxUrlLength must be an integer of at least ${MIN_URL_LENGTH}, got ${config.maxUrlLength}`,
+    );
+  }
+  if (config.responseValidation !== undefined
+    && config.responseValidation !== 'strict' && config.responseValidation !== 'lenient') {
+    throw new ConfigurationError(
+      `responseValidation must be "strict" or "lenient", got "${config.responseValidation}"`,
+    );
+  }
+  if (config.retry) {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = config.retry;
+    if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+      throw new ConfigurationError(`retry.maxAttempts must be a positive integer, got ${maxAttempts}`);
+    }
+    if (baseDelayMs !== undefined && baseDelayMs < 0) {
+      throw new ConfigurationError(`retry.baseDelayMs must not be negative, got ${baseDelayMs}`);
+    }
+    if (maxDelayMs !== undefined && maxDelayMs < 0) {
+      throw new ConfigurationError(`retry.maxDelayMs must not be negative, got ${maxDelayMs}`);
+    }
+  }
+  if (config.circuitBreaker) {
+    const { failureThreshold, resetTimeoutMs, halfOpenMaxCalls, successThreshold } = config.circuitBreaker;
+    for (const [name, value] of Object.entries({ failureThreshold, halfOpenMaxCalls, successThreshold })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new ConfigurationError(`circuitBreaker.${name} must be a positive integer, got ${value}`);
+      }
+    }
+    if (resetTimeoutMs !== undefined && resetTimeoutMs < 0) {
+      throw new ConfigurationError(`circuitBreaker.resetTimeoutMs must not be negative, got ${resetTimeoutMs}`);
+    }
+  }
+  if (config.rateLimit) {
+    const limits = [
+      { prefix: 'rateLimit', ...config.rateLimit },
+      ...(config.rateLimit.rules ?? []).map(rule => ({ prefix: `rateLimit.rules[${rule.function}]`, ...rule })),
+    ];
+    for (const { prefix, requestsPerSecond, burst, maxConcurrent } of limits) {
+      if (requestsPerSecond !== undefined && !(requestsPerSecond > 0)) {
+        throw new ConfigurationError(`${prefix}.requestsPerSecond must be positive, got ${requestsPerSecond}`);
+      }
+      if (burst !== undefined && !(burst >= 1)) {
+        throw new ConfigurationError(`${prefix}.burst must be at least 1, got ${burst}`);
+      }
+      if (maxConcurrent !== undefined && (!Number.isInteger(maxConcurrent) || maxConcurrent < 1)) {
+        throw new ConfigurationError(`${prefix}.maxConcurrent must be a positive integer, got ${maxConcurrent}`);
+      }
+    }
+  }
+
+  if (config.cache?.ttl) {
+    for (const [fn, ttl] of Object.entries(config.cache.ttl)) {
+      if (!isReadOnlyFunction(fn)) {
+        throw new ConfigurationError(`cache.ttl.${fn}: only read-only functions can be cached`);
+      }
+      if (!(ttl >= 0)) {
+        throw new ConfigurationError(`cache.ttl.${fn} must not be negative, got ${ttl}`);
+      }
+    }
+  }
+  if (config.cache?.maxEntries !== undefined
+    && (!Number.isInteger(config.cache.maxEntries) || config.cache.maxEntries < 1)) {
+    throw new ConfigurationError(`cache.maxEntries must be a positive integer, got ${config.cache.maxEntries}`);
+  }
 
   return {
     ...config,
     timeout: config.timeout ?? DEFAULT_TIMEOUT,
     maxBatchSize: config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE,
+    maxUrlLength: config.maxUrlLength ?? DEFAULT_MAX_URL_LENGTH,
   };
 }
 
@@ -0,0 +1,155 @@
+import type { Decoder, Infer } from '../utils/decode.js';
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from '../utils/decode.js';
+
+// ---------------------------------------------------------------------------
+// Response decoders — the single source of truth for the RS response types
+// in types.ts, which are inferred from these.
+//
+// Required keys are the columns every endpoint returning the type includes;
+// anything some endpoints omit is optional.
+// ---------------------------------------------------------------------------
+
+const resourceRowDecoder = object({
+  ref: number,
+  resource_type: number,
+  has_image: number,
+  is_transcoding: number,
+  image_red: nullable(number),
+  image_green: nullable(number),
+  image_blue: nullable(number),
+  thumb_width: nullable(number),
+  thumb_height: nullable(number),
+  file_modified: nullable(string),
+  /** Null when checksums are disabled or the resource has no file */
+  file_checksum: nullable(string),
+  file_extension: string,
+  preview_extension: nullable(string),
+  creation_date: string,
+  rating: nullable(number),
+  user_rating: nullable(number),
+  user_rating_count: nullable(number),
+  user_rating_total: nullable(number),
+  access: number,
+});
+
+/** Field values requested with `data_joins`, as `field<ID>` (passed through unchecked) */
+type DataJoins = { [key: `field${number}`]: string | undefined };
+
+/** A resource row, as returned by do_search and get_resource_data */
+export const resourceDecoder = resourceRowDecoder as Decoder<Infer<typeof resourceRowDecoder> & DataJoins>;
+
+export const resourceFieldDataDecoder = object({
+  ref: number,
+  resource_type_field: number,
+  name: string,
+  title: string,
+  value: string,
+  type: number,
+});
+
+/**
+ * A collection row. get_user_collections returns every column; featured
+ * collection endpoints only a subset, hence the optional keys.
+ */
+export const collectionDecoder = object({
+  ref: number,
+  name: string,
+  user: optional(number),
+  created: optional(string),
+  public: optional(number),
+  allow_changes: optional(number),
+  cant_delete: optional(number),
+  keywords: optional(string),
+  savedsearch: optional(nullable(number)),
+  home_page_publish: optional(number),
+  home_page_text: optional(string),
+  home_page_image: optional(nullable(number)),
+  session_id: optional(nullable(number)),
+  order_by: optional(number),
+  parent: optional(nullable(number)),
+  has_resources: optional(oneOf(boolean, number)),
+  has_children: optional(oneOf(boolean, number)),
+});
+
+export const userDecoder = object({
+  ref: number,
+  username: string,
+  email: string,
+  fullname: string,
+  usergroup: number,
+  comments: optional(string),
+  approved: optional(number),
+});
+
+export const fieldDefinitionDecoder = object({
+  ref: number,
+  name: string,
+  title: string,
+  type: number,
+  /** 0 for global fields */
+  resource_type: optional(number),
+});
+
+export const fieldOptionDecoder = object({
+  ref: number,
+  name: string,
+  parent: optional(number),
+  order_by: optional(number),
+});
+
+export const nodeDecoder = object({
+  ref: number,
+  resource_type_field: number,
+  name: string,
+  parent: nullable(number),
+  order_by: number,
+});
+
+export const resourceTypeDecoder = object({
+  ref: number,
+  name: string,
+});
+
+export const alternativeFileDecoder = object({
+  ref: number,
+  resource: number,
+  name: string,
+  description: string,
+  file_name: string,
+  file_extension: string,
+  file_size: number,
+  creation_date: string,
+});
+
+/** One rendition from get_resource_all_image_sizes */
+export const imageSizeDecoder = object({
+  /** Preview size code; "original" for the resource file */
+  size_code: string,
+  extension: string,
+  url: string,
+  /** Server file path; not sent by every RS version */
+  path: optional(string),
+  /** Pixel dimensions, where RS reports them */
+  width: optional(nullable(number)),
+  height: optional(nullable(number)),
+});
+
+export const resourceListDecoder = array(resourceDecoder);
+export const resourceFieldDataListDecoder = array(resourceFieldDataDecoder);
+export const collectionListDecoder = array(collectionDecoder);
+export const userListDecoder = array(userDecoder);
+export const fieldDefinitionListDecoder = array(fieldDefinitionDecoder);
+export const fieldOptionListDecoder = array(fieldOptionDecoder);
+export const nodeListDecoder = array(nodeDecoder);
+export const resourceTypeListDecoder = array(resourceTypeDecoder);
+export const alternativeFileListDecoder = array(alternativeFileDecoder);
+export const imageSizeListDecoder = array(imageSizeDecoder);
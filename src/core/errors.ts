@@ -1,8 +1,32 @@
+import type { DecodeIssue } from '../utils/decode.js';
+
+/**
+ * Stable, machine-readable error codes. Branch on `error.code` (or the
+ * error class) rather than on `message`, which may change.
+ */
+export type RSErrorCode =
+  | 'RS_ERROR'
+  | 'PERMISSION_DENIED'
+  | 'SESSION_EXPIRED'
+  | 'NOT_FOUND'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'SERVER_ERROR'
+  | 'ABORTED'
+  | 'CIRCUIT_OPEN'
+  | 'URL_TOO_LONG'
+  | 'FIXTURE_MISSING'
+  | 'CHECKSUM_MISMATCH';
+
 /**
  * Base error for all ResourceSpace API errors.
  * Preserves the original RS error context for debugging.
  */
 export class ResourceSpaceError extends Error {
+  /** Stable error code; `RS_ERROR` for RS errors without a more specific class */
+  readonly code: RSErrorCode = 'RS_ERROR';
+
   constructor(
     message: string,
     public readonly functionName: string,
@@ -19,6 +43,8 @@ export class ResourceSpaceError extends Error {
  * Thrown when RS returns a permission/access error.
  */
 export class PermissionError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'PERMISSION_DENIED';
+
   constructor(functionName: string, detail?: string) {
     super(
       `Permission denied for ${functionName}${detail ? `: ${detail}` : ''}`,
@@ -28,6 +54,221 @@ export class PermissionError extends ResourceSpaceError {
   }
 }
 
+/**
+ * Thrown when a session key was rejected and could not be renewed
+ * (no re-authentication callback, or re-authentication failed).
+ */
+export class SessionExpiredError extends PermissionError {
+  override readonly code: RSErrorCode = 'SESSION_EXPIRED';
+
+  constructor(
+    functionName: string,
+    /** User whose session expired */
+    public readonly username: string,
+  ) {
+    super(functionName, `session for ${username} expired and could not be renewed`);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Thrown when RS reports that the requested item (resource, collection,
+ * field, user, function, ...) does not exist.
+ */
+export class NotFoundError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'NOT_FOUND';
+
+  constructor(functionName: string, detail: string) {
+    super(`Not found: ${functionName} — ${detail}`, functionName, undefined, detail);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when RS failed internally: a 5xx status, or a PHP fatal error
+ * leaking into a 200 response body (then `statusCode` is undefined and
+ * `rsError` holds the error text).
+ */
+export class ServerError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'SERVER_ERROR';
+
+  constructor(functionName: string, statusCode?: number, detail?: string) {
+    super(
+      statusCode !== undefined
+        ? `ResourceSpace server error: ${statusCode}`
+        : `ResourceSpace server error: ${detail}`,
+      functionName,
+      statusCode,
+      detail,
+    );
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Thrown when a request attempt exceeds its timeout.
+ */
+export class TimeoutError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'TIMEOUT';
+
+  constructor(
+    functionName: string,
+    /** Timeout of the attempt in ms */
+    public readonly timeoutMs: number,
+    cause?: unknown,
+  ) {
+    const message = `Request timed out after ${timeoutMs}ms: ${functionName}`;
+    super(message, functionName, undefined, undefined, cause);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown when the request never got a response: connection refused,
+ * DNS failure, TLS error, reset connection, ...
+ * The transport's error is preserved as `cause`.
+ */
+export class NetworkError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'NETWORK_ERROR';
+
+  constructor(functionName: string, cause: unknown) {
+    super(
+      `API request failed: ${functionName} — ${cause instanceof Error ? cause.message : String(cause)}`,
+      functionName,
+      undefined,
+      undefined,
+      cause,
+    );
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Thrown when the response is not something RS produces — typically an
+ * HTML page from a proxy, a login redirect or a misconfigured `baseUrl`.
+ */
+export class InvalidResponseError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'INVALID_RESPONSE';
+
+  constructor(functionName: string, detail: string) {
+    super(`Invalid response from ${functionName}: ${detail}`, functionName);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * Thrown in strict `responseValidation` mode when a response does not
+ * match its type, e.g. a missing `name` or a non-numeric `ref`.
+ */
+export class ResponseValidationError extends InvalidResponseError {
+  constructor(
+    functionName: string,
+    /** Every mismatch found, with its location in the response */
+    public readonly issues: DecodeIssue[],
+  ) {
+    const shown = issues.slice(0, 3).map(i => `${i.path}: ${i.message}`).join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(functionName, `${shown}${more}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Thrown when a call is cancelled through its `signal`.
+ * The abort reason is preserved as `cause`.
+ */
+export class RequestAbortedError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'ABORTED';
+
+  constructor(functionName: string, reason?: unknown) {
+    super(`Request aborted: ${functionName}`, functionName, undefined, undefined, reason);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Thrown without contacting RS while the circuit breaker is open.
+ */
+export class CircuitOpenError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'CIRCUIT_OPEN';
+
+  constructor(
+    functionName: string,
+    /** Milliseconds until the circuit allows a probe request */
+    public readonly retryAfterMs: number,
+  ) {
+    super(
+      `Circuit open — ResourceSpace unavailable, failing fast for ${functionName} (retry in ${retryAfterMs}ms)`,
+      functionName,
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown before sending when the signed request URL would exceed
+ * `config.maxUrlLength`. Proxies reject such requests with confusing 414
+ * or 5xx errors, so they are never sent.
+ */
+export class UrlTooLongError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'URL_TOO_LONG';
+
+  constructor(
+    functionName: string,
+    /** Length of the signed URL */
+    public readonly length: number,
+    /** Configured limit */
+    public readonly maxLength: number,
+  ) {
+    super(
+      `Request URL for ${functionName} is ${length} characters, over the ${maxLength} limit — `
+        + 'send fewer IDs or shorter values',
+      functionName,
+    );
+    this.name = 'UrlTooLongError';
+  }
+}
+
+/**
+ * Thrown in fixture replay mode when no recorded response matches a call.
+ * Re-record the fixtures, or check that the call's params are the recorded ones.
+ */
+export class FixtureMissingError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'FIXTURE_MISSING';
+
+  constructor(
+    functionName: string,
+    /** Canonical (redacted) params of the unmatched call */
+    public readonly params: string,
+    /** Fixture file that was searched */
+    public readonly path: string,
+  ) {
+    super(`No recorded response for ${functionName}(${params}) in ${path}`, functionName);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+/**
+ * Thrown when a downloaded original does not match the resource's
+ * `file_checksum`: the file is corrupt, truncated or was replaced.
+ */
+export class ChecksumMismatchError extends ResourceSpaceError {
+  override readonly code: RSErrorCode = 'CHECKSUM_MISMATCH';
+
+  constructor(
+    functionName: string,
+    /** Resource whose file was downloaded */
+    public readonly ref: number,
+    /** `file_checksum` recorded by RS */
+    public readonly expected: string,
+    /** Checksum of the downloaded bytes */
+    public readonly actual: string,
+  ) {
+    super(`Checksum mismatch for resource ${ref}: expected ${expected}, got ${actual}`, functionName);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
 /**
  * Thrown when RS configuration is invalid or missing.
  */
@@ -80,3 +321,4 @@ export function validateId(value: number, name: string): void {
     throw new ValidationError(`${name} must be a positive integer, got: ${value}`);
   }
 }
+
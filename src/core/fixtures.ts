@@ -0,0 +1,134 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { RSFixture, RSFixtureOptions, RSTransport } from './types.js';
+import { ConfigurationError, FixtureMissingError } from './errors.js';
+import { canonicalizeParams } from '../utils/query-builder.js';
+import { redactDeep, redactParams } from '../utils/redact.js';
+
+const FIXTURE_FILE_VERSION = 1;
+
+/** Query params that identify the caller or carry the signature, not the call */
+const UNMATCHED_PARAMS = new Set(['user', 'function', 'authmode', 'sign']);
+
+/** Recorded in place of session keys; long enough to pass checkCredentials */
+const SCRUBBED_SESSION_KEY = 'scrubbed-session-key-00000000000';
+
+const SCRUBBED = '[scrubbed]';
+
+interface FixtureFile {
+  version: number;
+  fixtures: RSFixture[];
+}
+
+/**
+ * Records RS traffic to a fixture file, or replays it, by wrapping the
+ * transport. Recording happens below retries, caching and middleware, so
+ * the file holds exactly what RS sent back.
+ *
+ * Fixtures never contain the API key, session keys or request signatures:
+ * `sign` and `user` are dropped from the recorded params, sensitive params
+ * and response fields are redacted, and `login` results are replaced.
+ */
+export class Fixtures {
+  private readonly fixtures: RSFixture[];
+  /** Next response to replay per call, by match key */
+  private readonly cursors = new Map<string, number>();
+  /** Session keys seen in login responses, scrubbed wherever they reappear */
+  private readonly sessionKeys = new Set<string>();
+
+  constructor(
+    private readonly options: RSFixtureOptions,
+    /** Current API key and signing secret, scrubbed from recorded bodies */
+    private readonly secrets: () => string[],
+  ) {
+    this.fixtures = options.mode === 'replay' ? readFixtureFile(options.path) : [];
+  }
+
+  /** Wrap a transport: record what it returns, or (in replay mode) replace it. */
+  wrap(transport: RSTransport): RSTransport {
+    if (this.options.mode === 'replay') {
+      return async url => {
+        const { functionName, params } = describeRequest(url);
+        const fixture = this.next(functionName, params);
+        return { status: fixture.status, text: () => Promise.resolve(fixture.body) };
+      };
+    }
+
+    return async (url, init) => {
+      const response = await transport(url, init);
+      const body = await response.text();
+      const { functionName, params } = describeRequest(url);
+      this.fixtures.push({
+        function: functionName,
+        params,
+        status: response.status,
+        body: this.scrub(functionName, body),
+      });
+      this.save();
+      return { status: response.status, text: () => Promise.resolve(body) };
+    };
+  }
+
+  private next(functionName: string, params: string): RSFixture {
+    const matches = this.fixtures.filter(f => f.function === functionName && f.params === params);
+    if (matches.length === 0) {
+      throw new FixtureMissingError(functionName, params, this.options.path);
+    }
+    const key = `${functionName}?${params}`;
+    const index = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, index + 1);
+    return matches[Math.min(index, matches.length - 1)];
+  }
+
+  private scrub(functionName: string, body: string): string {
+    let scrubbed = body;
+    try {
+      let data = JSON.parse(body) as unknown;
+      if (functionName === 'login' && typeof data === 'string' && data !== '') {
+        this.sessionKeys.add(data);
+        data = SCRUBBED_SESSION_KEY;
+      }
+      scrubbed = JSON.stringify(redactDeep(data));
+    } catch {
+      // Not JSON (e.g. an HTML error page) — keep as is, minus secrets
+    }
+    for (const secret of [...this.secrets(), ...this.sessionKeys]) {
+      if (secret) scrubbed = scrubbed.split(secret).join(SCRUBBED);
+    }
+    return scrubbed;
+  }
+
+  private save(): void {
+    const file: FixtureFile = { version: FIXTURE_FILE_VERSION, fixtures: this.fixtures };
+    fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+    fs.writeFileSync(this.options.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+}
+
+/** Function name and canonical, redacted params of a signed request URL */
+function describeRequest(url: string): { functionName: string; params: string } {
+  const query = new URLSearchParams(url.includes('?') ? url.slice(url.indexOf('?') + 1) : '');
+  const params: Record<string, string> = {};
+  for (const [key, value] of query) {
+    if (!UNMATCHED_PARAMS.has(key)) params[key] = value;
+  }
+  return {
+    functionName: query.get('function') ?? '',
+    params: canonicalizeParams(redactParams(params) as Record<string, string>),
+  };
+}
+
+function readFixtureFile(file: string): RSFixture[] {
+  let parsed: FixtureFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8')) as FixtureFile;
+  } catch (error) {
+    throw new ConfigurationError(
+      `Cannot read fixture file ${file}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (parsed.version !== FIXTURE_FILE_VERSION || !Array.isArray(parsed.fixtures)) {
+    throw new ConfigurationError(`Unsupported fixture file format in ${file}`);
+  }
+  return parsed.fixtures;
+}
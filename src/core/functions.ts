@@ -0,0 +1,54 @@
+/**
+ * Classification of RS API functions by side effects.
+ *
+ * Read-only functions can be safely repeated (retried, cached, coalesced)
+ * because repeating them never changes server state. Everything else —
+ * including functions not listed here — is treated as a mutation.
+ * Unknown functions default to mutation so that nothing is ever
+ * repeated by accident.
+ */
+const READ_ONLY_FUNCTIONS: ReadonlySet<string> = new Set([
+  // Search
+  'do_search',
+  'search_get_previews',
+  // Resources
+  'get_resource_data',
+  'get_resource_field_data',
+  'get_data_by_field',
+  'get_resource_path',
+  'get_resource_all_image_sizes',
+  'get_resource_log',
+  'get_related_resources',
+  'get_alternative_files',
+  'get_edit_access',
+  'get_resource_access',
+  // Collections
+  'get_user_collections',
+  'get_all_featured_collections',
+  'get_featured_collections',
+  'search_public_collections',
+  // Fields
+  'get_resource_type_fields',
+  'get_field_options',
+  'get_field_values',
+  'get_nodes',
+  'get_node_id',
+  // Users
+  'get_users',
+  'get_users_by_permission',
+  'checkperm',
+  // System
+  'get_resource_types',
+  'get_api_version',
+  'get_system_status',
+]);
+
+/**
+ * True if the RS function has no server-side effects and may be repeated.
+ *
+ * Note: `get_resource_path` with `generate=1` may create a preview file,
+ * but repeating it yields the same result, so it is still safe to repeat.
+ */
+export function isReadOnlyFunction(functionName: string): boolean {
+  return READ_ONLY_FUNCTIONS.has(functionName);
+}
@@ -0,0 +1,143 @@
+import type { RSParams, RSRateLimitOptions, RSRateLimitRule } from './types.js';
+import { sleep } from './retry.js';
+
+/** Releases a slot acquired from a limiter. Safe to call more than once. */
+export type ReleaseFn = () => void;
+
+/**
+ * Token bucket limiting the sustained request rate.
+ *
+ * Callers reserve a token up front (the balance may go negative), then
+ * wait until their reservation is covered. This keeps waiters in FIFO
+ * order without a separate queue.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  async take(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    const now = this.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond,
+    );
+    this.lastRefill = now;
+    this.tokens -= 1;
+
+    if (this.tokens < 0) {
+      try {
+        await sleep(Math.ceil((-this.tokens / this.ratePerSecond) * 1000), signal);
+      } catch (error) {
+        this.tokens += 1; // Give the reservation back
+        throw error;
+      }
+    }
+  }
+}
+
+/** Counting semaphore limiting requests in flight. Waiters are served FIFO. */
+export class Semaphore {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(private readonly max: number) {}
+
+  async acquire(signal?: AbortSignal): Promise<ReleaseFn> {
+    signal?.throwIfAborted();
+    if (this.active < this.max) {
+      this.active++;
+    } else {
+      // The releasing caller hands its slot over directly
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          const index = this.waiters.indexOf(waiter);
+          if (index >= 0) this.waiters.splice(index, 1);
+          reject(signal!.reason);
+        };
+        const waiter = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        this.waiters.push(waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) next();
+      else this.active--;
+    };
+  }
+}
+
+interface Limits {
+  bucket?: TokenBucket;
+  semaphore?: Semaphore;
+}
+
+function createLimits(options: Omit<RSRateLimitRule, 'function' | 'match'>, now: () => number): Limits {
+  const { requestsPerSecond, burst, maxConcurrent } = options;
+  return {
+    bucket: requestsPerSecond
+      ? new TokenBucket(requestsPerSecond, burst ?? requestsPerSecond, now)
+      : undefined,
+    semaphore: maxConcurrent ? new Semaphore(maxConcurrent) : undefined,
+  };
+}
+
+/**
+ * Client-wide rate limiter: token bucket + max in-flight, plus optional
+ * stricter per-function rules.
+ */
+export class RateLimiter {
+  private readonly global: Limits;
+  private readonly rules: Array<{ rule: RSRateLimitRule; limits: Limits }>;
+
+  constructor(options: RSRateLimitOptions, now: () => number = Date.now) {
+    this.global = createLimits(options, now);
+    this.rules = (options.rules ?? []).map(rule => ({ rule, limits: createLimits(rule, now) }));
+  }
+
+  /**
+   * Wait until a request may be sent.
+   * Returns a function that must be called when the request completes.
+   * Rejects with the abort reason if `signal` aborts while waiting.
+   */
+  async acquire(
+    functionName: string,
+    params: Readonly<RSParams>,
+    signal?: AbortSignal,
+  ): Promise<ReleaseFn> {
+    const applicable = this.rules
+      .filter(({ rule }) => rule.function === functionName && (!rule.match || rule.match(params)))
+      .map(({ limits }) => limits);
+
+    // Rules first, then global — a consistent order so waiters cannot deadlock
+    const releases: ReleaseFn[] = [];
+    try {
+      for (const limits of [...applicable, this.global]) {
+        if (limits.semaphore) releases.push(await limits.semaphore.acquire(signal));
+        if (limits.bucket) await limits.bucket.take(signal);
+      }
+    } catch (error) {
+      releases.forEach(release => release());
+      throw error;
+    }
+
+    return () => releases.forEach(release => release());
+  }
+}
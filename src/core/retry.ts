@@ -0,0 +1,110 @@
+import type { RSRetryPolicy } from './types.js';
+import {
+  ResourceSpaceError,
+  PermissionError,
+  NotFoundError,
+  TimeoutError,
+  NetworkError,
+  InvalidResponseError,
+  RequestAbortedError,
+} from './errors.js';
+
+export const DEFAULT_RETRY_POLICY: Readonly<RSRetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  jitter: true,
+  budgetTokens: 10,
+  budgetRefill: 0.1,
+};
+
+/**
+ * Exponential backoff delay before retry number `attempt` (1-based).
+ * With jitter enabled, uses "full jitter": a uniform random delay between
+ * 0 and the exponential value, which spreads out retries from many clients.
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: Pick<RSRetryPolicy, 'baseDelayMs' | 'maxDelayMs' | 'jitter'>,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.floor(random() * exponential) : exponential;
+}
+
+/**
+ * True if an error is transient and the request may succeed if repeated:
+ * 5xx responses, timeouts and network failures.
+ *
+ * RS error responses (200 with error body), permission errors and client
+ * errors are NOT retryable — repeating them yields the same result.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ResourceSpaceError)) return false;
+  if (error instanceof TimeoutError || error instanceof NetworkError) return true;
+  if (
+    error instanceof PermissionError
+    || error instanceof NotFoundError
+    || error instanceof InvalidResponseError
+    || error instanceof RequestAbortedError
+  ) {
+    return false;
+  }
+  if (error.statusCode !== undefined) return error.statusCode >= 500;
+  // No status and an underlying cause: the transport itself failed
+  // (timeout, connection refused, DNS failure, ...)
+  return error.cause !== undefined && error.rsError === undefined;
+}
+
+/**
+ * Client-wide retry budget (token bucket).
+ *
+ * Each retryable failure spends one token; each success refunds a fraction
+ * of one. Retries are only allowed while more than half the budget remains,
+ * so a sustained outage quickly stops retries instead of multiplying load
+ * on an already struggling server.
+ */
+export class RetryBudget {
+  private tokens: number;
+
+  constructor(
+    private readonly maxTokens: number,
+    private readonly refill: number,
+  ) {
+    this.tokens = maxTokens;
+  }
+
+  onSuccess(): void {
+    this.tokens = Math.min(this.maxTokens, this.tokens + this.refill);
+  }
+
+  onFailure(): void {
+    this.tokens = Math.max(0, this.tokens - 1);
+  }
+
+  canRetry(): boolean {
+    return this.tokens > this.maxTokens / 2;
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds.
+ * Rejects with the signal's abort reason if `signal` aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
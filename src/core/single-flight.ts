@@ -0,0 +1,98 @@
+/** Counters describing how many calls were coalesced */
+export interface SingleFlightStats {
+  /** Calls that sent their own request */
+  executed: number;
+  /** Calls that joined a request already in flight */
+  coalesced: number;
+  /** Distinct requests currently in flight */
+  inFlight: number;
+}
+
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiting: number;
+}
+
+/** Reject with the signal's reason if it aborts before `promise` settles. */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); },
+    );
+  });
+}
+
+/**
+ * Coalesces identical concurrent calls into one execution ("single-flight").
+ *
+ * The first caller for a key runs the work; callers arriving while it is
+ * in flight share its outcome. Followers receive a deep copy of the result
+ * so no two callers hold the same mutable object.
+ *
+ * Each caller may cancel through its own signal without affecting the
+ * others; the shared work is only aborted once every caller has cancelled.
+ */
+export class SingleFlight {
+  private readonly inFlight = new Map<string, Flight>();
+  private executed = 0;
+  private coalesced = 0;
+
+  get stats(): SingleFlightStats {
+    return { executed: this.executed, coalesced: this.coalesced, inFlight: this.inFlight.size };
+  }
+
+  /**
+   * Run `work` for `key`, or join the run already in flight.
+   * `onJoin` is called when this call was coalesced.
+   */
+  async run<T>(
+    key: string,
+    work: (signal: AbortSignal) => Promise<T>,
+    options: { signal?: AbortSignal; onJoin?: () => void } = {},
+  ): Promise<T> {
+    const { signal, onJoin } = options;
+    signal?.throwIfAborted();
+
+    let flight = this.inFlight.get(key);
+    const joined = flight !== undefined;
+    if (flight) {
+      this.coalesced++;
+      onJoin?.();
+    } else {
+      this.executed++;
+      const controller = new AbortController();
+      const created: Flight = { promise: work(controller.signal), controller, waiting: 0 };
+      const cleanup = () => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      };
+      // Also marks the promise as handled if every caller has cancelled
+      created.promise.then(cleanup, cleanup);
+      this.inFlight.set(key, created);
+      flight = created;
+    }
+
+    flight.waiting++;
+    try {
+      const result = await raceAbort(flight.promise, signal);
+      return (joined ? structuredClone(result) : result) as T;
+    } catch (error) {
+      if (signal?.aborted && --flight.waiting === 0) {
+        // Last interested caller is gone — cancel the shared work, and make
+        // sure nobody new joins a cancelled flight
+        if (this.inFlight.get(key) === flight) this.inFlight.delete(key);
+        flight.controller.abort(signal.reason);
+      }
+      throw error;
+    }
+  }
+}
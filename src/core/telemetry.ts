@@ -0,0 +1,167 @@
+import type {
+  AuthMode,
+  RSAttributes,
+  RSCounter,
+  RSHistogram,
+  RSLogger,
+  RSParams,
+  RSSpan,
+  RSTelemetryOptions,
+} from './types.js';
+import { ResourceSpaceError } from './errors.js';
+import { redactParams } from '../utils/redact.js';
+
+/** Span status codes (OpenTelemetry SpanStatusCode values) */
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/** Facts about one makeRequest call, filled in as the request runs */
+export interface CallTrace {
+  /** Attempts sent to RS (0 for cache hits and coalesced calls) */
+  attempts: number;
+  /** HTTP status of the last attempt */
+  status?: number;
+  /** Size of the last response body in bytes */
+  responseSize?: number;
+  cacheHit?: boolean;
+  coalesced?: boolean;
+}
+
+/** A makeRequest call being traced. `end` must be called exactly once. */
+export interface TracedCall {
+  readonly trace: CallTrace;
+  end(error?: unknown): void;
+}
+
+/**
+ * Records a span and metrics per RS call through the configured tracer
+ * and meter.
+ *
+ * Telemetry must never break a request: errors thrown by the tracer or
+ * meter are logged as warnings and otherwise ignored.
+ */
+export class Telemetry {
+  private readonly requests?: RSCounter;
+  private readonly retries?: RSCounter;
+  private readonly duration?: RSHistogram;
+  private readonly responseSize?: RSHistogram;
+
+  constructor(
+    private readonly options: RSTelemetryOptions,
+    private readonly authMode: AuthMode,
+    private readonly log: RSLogger,
+    private readonly now: () => number = Date.now,
+  ) {
+    const { meter } = options;
+    if (!meter) return;
+    this.requests = meter.createCounter('rs.client.requests', {
+      description: 'ResourceSpace API calls, by function and outcome',
+    });
+    this.retries = meter.createCounter('rs.client.retries', {
+      description: 'Retried ResourceSpace API attempts',
+    });
+    this.duration = meter.createHistogram('rs.client.duration', {
+      description: 'Duration of ResourceSpace API calls, including retries',
+      unit: 'ms',
+    });
+    this.responseSize = meter.createHistogram('rs.client.response.size', {
+      description: 'Size of ResourceSpace API response bodies',
+      unit: 'By',
+    });
+  }
+
+  /** Start tracing a call. */
+  start(functionName: string, params: RSParams): TracedCall {
+    const started = this.now();
+    const trace: CallTrace = { attempts: 0 };
+    const span = this.guard('start span', () =>
+      this.options.tracer?.startSpan(`rs ${functionName}`, {
+        attributes: this.spanAttributes(functionName, params),
+      }),
+    );
+
+    let ended = false;
+    return {
+      trace,
+      end: (error?: unknown) => {
+        if (ended) return;
+        ended = true;
+        const durationMs = this.now() - started;
+        if (span) this.guard('end span', () => this.endSpan(span, trace, durationMs, error));
+        this.guard('record metrics', () => this.record(functionName, trace, durationMs, error));
+      },
+    };
+  }
+
+  private spanAttributes(functionName: string, params: RSParams): RSAttributes {
+    const attributes: RSAttributes = {
+      'rs.function': functionName,
+      'rs.auth_mode': this.authMode,
+    };
+    if (this.options.recordParams !== false) {
+      for (const [key, value] of Object.entries(redactParams(params))) {
+        attributes[`rs.param.${key}`] = value as string | number | boolean;
+      }
+    }
+    return attributes;
+  }
+
+  private endSpan(span: RSSpan, trace: CallTrace, durationMs: number, error?: unknown): void {
+    span.setAttribute('rs.duration_ms', durationMs);
+    span.setAttribute('rs.retry_count', Math.max(0, trace.attempts - 1));
+    span.setAttribute('rs.cache_hit', trace.cacheHit ?? false);
+    span.setAttribute('rs.coalesced', trace.coalesced ?? false);
+    if (trace.status !== undefined) span.setAttribute('http.response.status_code', trace.status);
+    if (trace.responseSize !== undefined) span.setAttribute('rs.response_size', trace.responseSize);
+
+    if (error === undefined) {
+      span.setAttribute('rs.status', 'ok');
+      span.setStatus({ code: STATUS_OK });
+    } else {
+      span.setAttribute('rs.status', 'error');
+      span.setAttribute('error.type', errorType(error));
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({
+        code: STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    span.end();
+  }
+
+  private record(functionName: string, trace: CallTrace, durationMs: number, error?: unknown): void {
+    const attributes: RSAttributes = {
+      'rs.function': functionName,
+      'rs.status': error === undefined ? 'ok' : 'error',
+      'rs.cache_hit': trace.cacheHit ?? false,
+    };
+    if (error !== undefined) attributes['error.type'] = errorType(error);
+
+    this.requests?.add(1, attributes);
+    this.duration?.record(durationMs, attributes);
+    if (trace.attempts > 1) {
+      this.retries?.add(trace.attempts - 1, { 'rs.function': functionName });
+    }
+    if (trace.responseSize !== undefined) {
+      this.responseSize?.record(trace.responseSize, { 'rs.function': functionName });
+    }
+  }
+
+  private guard<T>(what: string, fn: () => T): T | undefined {
+    try {
+      return fn();
+    } catch (error) {
+      this.log.warn(`RS telemetry failed to ${what}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
+
+/** Low-cardinality error label: the stable RS error code, else the error name. */
+function errorType(error: unknown): string {
+  if (error instanceof ResourceSpaceError) return error.code;
+  if (error instanceof Error) return error.name;
+  return 'unknown';
+}
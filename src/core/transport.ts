@@ -0,0 +1,86 @@
+import type {
+  RSLogger,
+  RSMiddleware,
+  RSRequestContext,
+  RSRequestInit,
+  RSTransport,
+  RSTransportResponse,
+} from './types.js';
+
+/**
+ * Default transport: the global `fetch`.
+ *
+ * Resolved at call time rather than captured at construction, so that a
+ * `fetch` installed later (polyfills, test stubs) is still picked up.
+ */
+export const defaultTransport: RSTransport = (url: string, init: RSRequestInit) =>
+  fetch(url, init as RequestInit);
+
+/**
+ * Release the connection of a response whose body will not be read.
+ * Under undici an unread body keeps its socket busy until collected.
+ */
+export async function discardBody(response: RSTransportResponse): Promise<void> {
+  const body = response.body as (AsyncIterable<Uint8Array> & { cancel?(): Promise<void> }) | null | undefined;
+  if (!body) return;
+  try {
+    if (typeof body.cancel === 'function') await body.cancel();
+    else await body[Symbol.asyncIterator]().return?.();
+  } catch {
+    // Already closed or errored: nothing left to release
+  }
+}
+
+/** Run `onRequest` hooks in registration order. */
+export async function runRequestHooks(
+  middleware: readonly RSMiddleware[],
+  ctx: RSRequestContext,
+): Promise<void> {
+  for (const mw of middleware) {
+    if (mw.onRequest) await mw.onRequest(ctx);
+  }
+}
+
+/**
+ * Run `onResponse` hooks in reverse registration order.
+ * A hook may return a replacement response for the hooks after it.
+ */
+export async function runResponseHooks(
+  middleware: readonly RSMiddleware[],
+  ctx: RSRequestContext,
+  response: RSTransportResponse,
+): Promise<RSTransportResponse> {
+  let current = response;
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const hook = middleware[i].onResponse;
+    if (!hook) continue;
+    const replaced = await hook.call(middleware[i], ctx, current);
+    if (replaced) current = replaced;
+  }
+  return current;
+}
+
+/**
+ * Run `onError` hooks in reverse registration order.
+ * Hooks only observe — a hook that throws is logged and skipped so the
+ * original error always reaches the caller.
+ */
+export async function runErrorHooks(
+  middleware: readonly RSMiddleware[],
+  ctx: RSRequestContext,
+  error: unknown,
+  log: RSLogger,
+): Promise<void> {
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const mw = middleware[i];
+    if (!mw.onError) continue;
+    try {
+      await mw.onError(ctx, error);
+    } catch (hookError) {
+      log.warn(`RS middleware onError hook failed: ${mw.name ?? `#${i}`}`, {
+        function: ctx.functionName,
+        error: hookError instanceof Error ? hookError.message : String(hookError),
+      });
+    }
+  }
+}
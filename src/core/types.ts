@@ -1,3 +1,17 @@
+import type { Infer } from '../utils/decode.js';
+import type {
+  resourceDecoder,
+  resourceFieldDataDecoder,
+  collectionDecoder,
+  userDecoder,
+  fieldDefinitionDecoder,
+  fieldOptionDecoder,
+  nodeDecoder,
+  resourceTypeDecoder,
+  alternativeFileDecoder,
+  imageSizeDecoder,
+} from './decoders.js';
+
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
@@ -19,6 +33,12 @@ export interface RSConfig {
   timeout?: number;
   /** Max batch operation size (default: 100) */
   maxBatchSize?: number;
+  /**
+   * Max length of a signed request URL (default: 8000). Longer requests
+   * fail with UrlTooLongError before they are sent; batch operations split
+   * their ID lists to stay under it. Match your proxy's limit.
+   */
+  maxUrlLength?: number;
   /**
    * Usergroup ID to assign when creating users.
    * This is a security control — it is NEVER accepted from caller input.
@@ -26,6 +46,308 @@ export interface RSConfig {
   signupUsergroup?: number;
   /** Optional logger — if omitted, logging is silent */
   logger?: RSLogger;
+  /**
+   * HTTP transport used for every API call (default: global `fetch`).
+   * Any fetch-compatible function works, e.g. undici's `fetch`.
+   */
+  transport?: RSTransport;
+  /** Middleware run around every API call, in order */
+  middleware?: RSMiddleware[];
+  /**
+   * Retry policy for transient failures (5xx, timeouts, network errors).
+   * Read-only functions retry automatically; mutations only when the call
+   * opts in. Set to `false` to disable retries (default: enabled).
+   */
+  retry?: Partial<RSRetryPolicy> | false;
+  /**
+   * Circuit breaker around the RS endpoint (disabled unless set).
+   * While open, calls fail fast with CircuitOpenError instead of waiting
+   * for the request timeout.
+   */
+  circuitBreaker?: Partial<RSCircuitBreakerOptions>;
+  /**
+   * Client-side rate limiting shared by all calls through this client
+   * (disabled unless set). Calls over the limit wait rather than fail.
+   */
+  rateLimit?: RSRateLimitOptions;
+  /**
+   * Response cache for read-only functions (disabled unless set).
+   * Entries are invalidated automatically when a related mutation is made
+   * through the same client.
+   */
+  cache?: RSCacheOptions;
+  /**
+   * Coalesce identical concurrent read-only calls (same function and
+   * params) into a single HTTP request (default: true).
+   */
+  coalesceRequests?: boolean;
+  /** Tracing and metrics hooks (spans and instruments per RS call) */
+  telemetry?: RSTelemetryOptions;
+  /**
+   * Record live RS traffic to a fixture file, or replay it offline
+   * (disabled unless set). Replay never contacts RS.
+   */
+  fixtures?: RSFixtureOptions;
+  /**
+   * What to do when a response does not match its type (default: 'lenient').
+   * Numeric strings are converted either way.
+   * - `strict`: throw ResponseValidationError
+   * - `lenient`: log a warning and return the data as received
+   */
+  responseValidation?: 'strict' | 'lenient';
+}
+
+export interface RSFixtureOptions {
+  /**
+   * `record`: send requests to RS and write each response to `path`
+   * (the file is replaced, not appended to).
+   * `replay`: answer every call from `path`, matched on function name and
+   * canonical params. Repeated calls get their responses in recorded order;
+   * the last one is repeated once they run out.
+   */
+  mode: 'record' | 'replay';
+  /** Fixture file (JSON) */
+  path: string;
+}
+
+/** One recorded RS call. Secrets, signatures and session keys are scrubbed. */
+export interface RSFixture {
+  function: string;
+  /** Canonical query params without `user`, `function`, `authmode` and `sign` */
+  params: string;
+  status: number;
+  body: string;
+}
+
+export interface RSCacheOptions {
+  /** Where entries are kept (default: in-memory LRU) */
+  store?: RSCacheStore;
+  /** Max entries for the default in-memory store (default: 500) */
+  maxEntries?: number;
+  /**
+   * TTL in ms per RS function. Only functions listed here are cached.
+   * Default: field definitions, field options, nodes, resource types and
+   * featured collections for 5 minutes.
+   */
+  ttl?: Record<string, number>;
+}
+
+/**
+ * Pluggable cache backend (e.g. Redis). Values are plain JSON-compatible
+ * data; stores must not hand out references that callers could mutate.
+ */
+export interface RSCacheStore {
+  get(key: string): unknown | undefined | Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface RSRateLimitOptions {
+  /** Sustained request rate (token bucket refill). Omit for no rate limit. */
+  requestsPerSecond?: number;
+  /** Token bucket size — requests that may be sent in a burst (default: requestsPerSecond) */
+  burst?: number;
+  /** Max requests in flight at once. Omit for no concurrency limit. */
+  maxConcurrent?: number;
+  /**
+   * Stricter limits for specific functions. A matching call must pass both
+   * its rule's limits and the client-wide limits.
+   */
+  rules?: RSRateLimitRule[];
+}
+
+export interface RSRateLimitRule {
+  /** RS API function name the rule applies to */
+  function: string;
+  /** Further narrow the rule by params (e.g. `p => p.generate === 1`) */
+  match?: (params: Readonly<RSParams>) => boolean;
+  requestsPerSecond?: number;
+  burst?: number;
+  maxConcurrent?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface RSCircuitBreakerOptions {
+  /** Consecutive transient failures that open the circuit (default: 5) */
+  failureThreshold: number;
+  /** How long the circuit stays open before allowing a probe, in ms (default: 30000) */
+  resetTimeoutMs: number;
+  /** Concurrent probe requests allowed while half-open (default: 1) */
+  halfOpenMaxCalls: number;
+  /** Successful probes required to close the circuit again (default: 1) */
+  successThreshold: number;
+}
+
+export interface RSRetryPolicy {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts: number;
+  /** Base delay for exponential backoff in ms (default: 200) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in ms (default: 5000) */
+  maxDelayMs: number;
+  /** Randomize each delay between 0 and the backoff value (default: true) */
+  jitter: boolean;
+  /**
+   * Retry budget size. Each retryable failure spends one token, each
+   * success refunds `budgetRefill` tokens; retries stop while the budget
+   * is at or below half. Prevents retry storms during outages. (default: 10)
+   */
+  budgetTokens: number;
+  /** Tokens refunded per successful request (default: 0.1) */
+  budgetRefill: number;
+}
+
+/** Per-call options accepted by `makeRequest` */
+export interface RSRequestOptions {
+  /**
+   * Override retry behaviour for this call.
+   * - `undefined`: retry only if the function is read-only
+   * - `false`: never retry
+   * - `true` or a policy: retry even if the function mutates state
+   *   (caller asserts the call is safe to repeat)
+   */
+  retry?: boolean | Partial<RSRetryPolicy>;
+  /** Set to `false` to bypass the response cache for this call */
+  cache?: boolean;
+  /**
+   * Cancel the call. Aborting rejects with RequestAbortedError, including
+   * while waiting for a rate limit slot or a retry backoff.
+   */
+  signal?: AbortSignal;
+  /**
+   * Timeout per attempt in ms, overriding `config.timeout` for this call.
+   * Coalesced calls share the timeout of the call that sent the request.
+   */
+  timeout?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Transport & middleware (pluggable — consumers may bring their own)
+// ---------------------------------------------------------------------------
+
+/** Request parameters as sent to RS (before signing) */
+export type RSParams = Record<string, string | number | boolean>;
+
+/**
+ * Options passed to the transport. Shaped like fetch's RequestInit so
+ * that middleware can attach implementation-specific options
+ * (e.g. an undici `dispatcher`).
+ */
+export interface RSRequestInit {
+  /** Always GET — RS validates signatures against QUERY_STRING */
+  method: 'GET';
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+  [key: string]: unknown;
+}
+
+/** The subset of fetch's Response that the client relies on */
+export interface RSTransportResponse {
+  status: number;
+  text(): Promise<string>;
+  /** Response headers. Only file downloads read them. */
+  headers?: { get(name: string): string | null };
+  /** Response body as a byte stream. Required for file downloads only. */
+  body?: AsyncIterable<Uint8Array> | null;
+}
+
+/** Fetch-compatible function that performs the HTTP request */
+export type RSTransport = (url: string, init: RSRequestInit) => Promise<RSTransportResponse>;
+
+/**
+ * Per-request state shared by all middleware hooks of a single API call.
+ */
+export interface RSRequestContext {
+  /** RS API function name */
+  readonly functionName: string;
+  /** Unsigned request params. May contain secrets — never log unredacted. */
+  readonly params: Readonly<RSParams>;
+  /** Attempt number, starting at 1 (greater than 1 on retries) */
+  readonly attempt: number;
+  /**
+   * Fully signed request URL. Middleware must not alter the query string,
+   * or RS will reject the signature.
+   */
+  url: string;
+  /** Transport options — headers and signal may be modified by middleware */
+  init: RSRequestInit;
+  /** Scratch space for middleware to pass data between its hooks */
+  readonly state: Record<string, unknown>;
+}
+
+/**
+ * Hooks run around the signed GET of every API call.
+ *
+ * `onRequest` hooks run in registration order before the transport is
+ * called; `onResponse` and `onError` hooks run in reverse order, so the
+ * first middleware registered wraps all others.
+ */
+export interface RSMiddleware {
+  /** Name used in log output */
+  name?: string;
+  /** Inspect or modify the outgoing request (headers, signal, init options). */
+  onRequest?(ctx: RSRequestContext): void | Promise<void>;
+  /** Inspect the raw response. Returning a response replaces it. */
+  onResponse?(
+    ctx: RSRequestContext,
+    response: RSTransportResponse,
+  ): RSTransportResponse | void | Promise<RSTransportResponse | void>;
+  /** Observe a failed call. The error is always re-thrown after all hooks run. */
+  onError?(ctx: RSRequestContext, error: unknown): void | Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Telemetry (pluggable — shaped like the OpenTelemetry API, no dependency)
+// ---------------------------------------------------------------------------
+
+export type RSAttributeValue = string | number | boolean;
+export type RSAttributes = Record<string, RSAttributeValue>;
+
+/**
+ * Span status code. Values match OpenTelemetry's SpanStatusCode
+ * (0 = unset, 1 = ok, 2 = error).
+ */
+export type RSSpanStatusCode = 0 | 1 | 2;
+
+/** Subset of an OpenTelemetry Span used by the client */
+export interface RSSpan {
+  setAttribute(key: string, value: RSAttributeValue): unknown;
+  setStatus(status: { code: RSSpanStatusCode; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+/** Subset of an OpenTelemetry Tracer — an OTel tracer can be passed as-is */
+export interface RSTracer {
+  startSpan(name: string, options?: { attributes?: RSAttributes }): RSSpan;
+}
+
+export interface RSCounter {
+  add(value: number, attributes?: RSAttributes): void;
+}
+
+export interface RSHistogram {
+  record(value: number, attributes?: RSAttributes): void;
+}
+
+/** Subset of an OpenTelemetry Meter — an OTel meter can be passed as-is */
+export interface RSMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): RSCounter;
+  createHistogram(name: string, options?: { description?: string; unit?: string }): RSHistogram;
+}
+
+export interface RSTelemetryOptions {
+  /** Creates one span per makeRequest call */
+  tracer?: RSTracer;
+  /** Creates the per-function request, retry, duration and size instruments */
+  meter?: RSMeter;
+  /**
+   * Record call params as `rs.param.<name>` span attributes (default: true).
+   * Secrets are always redacted.
+   */
+  recordParams?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -43,30 +365,10 @@ export interface RSLogger {
 // API response types
 // ---------------------------------------------------------------------------
 
-export interface Resource {
-  ref: number;
-  resource_type: number;
-  has_image: number;
-  is_transcoding: number;
-  image_red: number;
-  image_green: number;
-  image_blue: number;
-  thumb_width: number;
-  thumb_height: number;
-  file_modified: string;
-  file_checksum: string;
-  file_extension: string;
-  preview_extension: string;
-  creation_date: string;
-  rating: number | null;
-  user_rating: number | null;
-  user_rating_count: number | null;
-  user_rating_total: number | null;
-  access: number;
-  /** Dynamic field values populated via data_joins */
-  [key: `field${number}`]: string | undefined;
-  [key: string]: unknown;
-}
+// Inferred from the decoders in decoders.ts, which check responses at runtime.
+
+/** A resource row. Fields requested via data_joins appear as `field<ID>`. */
+export type Resource = Infer<typeof resourceDecoder>;
 
 export interface SearchResult {
   resources: Resource[];
@@ -75,95 +377,57 @@ export interface SearchResult {
   offset: number;
   /** True when additional results exist beyond this page on the server. */
   hasMore?: boolean;
+  /**
+   * Total matches on the server, when requested with `withTotal`.
+   * Undefined if this RS version does not report totals and more pages exist.
+   */
+  total?: number;
 }
 
-export interface ResourceFieldData {
-  ref: number;
-  resource_type_field: number;
-  name: string;
-  title: string;
-  value: string;
-  type: number;
-  [key: string]: unknown;
-}
+/** A resource with preview URLs from search_get_previews */
+export type ResourceWithPreviews = Resource & {
+  /** Full preview URL per requested size code (missing if RS has none) */
+  previews: Record<string, string>;
+};
 
-export interface Collection {
-  ref: number;
-  name: string;
-  user: number;
-  created: string;
-  public: number;
-  allow_changes: number;
-  cant_delete: number;
-  keywords: string;
-  savedsearch: number | null;
-  home_page_publish: number;
-  home_page_text: string;
-  home_page_image: number | null;
-  session_id: number | null;
-  order_by?: number;
-  parent?: number | null;
-  has_resources?: number | boolean;
-  has_children?: number | boolean;
-  [key: string]: unknown;
+export interface PreviewSearchResult extends Omit<SearchResult, 'resources'> {
+  resources: ResourceWithPreviews[];
 }
 
-export interface User {
-  ref: number;
-  username: string;
-  email: string;
-  fullname: string;
-  usergroup: number;
-  comments?: string;
-  approved?: number;
-  [key: string]: unknown;
-}
+export type ResourceFieldData = Infer<typeof resourceFieldDataDecoder>;
 
-export interface FieldDefinition {
-  ref: number;
-  name: string;
-  title: string;
-  type: number;
-  resource_type?: number;
-  [key: string]: unknown;
-}
+export type Collection = Infer<typeof collectionDecoder>;
 
-export interface FieldOption {
-  ref: number;
-  name: string;
-  parent?: number;
-  order_by?: number;
-}
+export type User = Infer<typeof userDecoder>;
 
-export interface Node {
-  ref: number;
-  resource_type_field: number;
-  name: string;
-  parent: number | null;
-  order_by: number;
-  [key: string]: unknown;
-}
+export type FieldDefinition = Infer<typeof fieldDefinitionDecoder>;
 
-export interface ResourceType {
-  ref: number;
-  name: string;
-  [key: string]: unknown;
-}
+export type FieldOption = Infer<typeof fieldOptionDecoder>;
+
+export type Node = Infer<typeof nodeDecoder>;
+
+export type ResourceType = Infer<typeof resourceTypeDecoder>;
 
 export interface SystemStatus {
   [key: string]: unknown;
 }
 
-export interface AlternativeFile {
-  ref: number;
-  resource: number;
-  name: string;
-  description: string;
-  file_name: string;
-  file_extension: string;
-  file_size: number;
-  creation_date: string;
-  [key: string]: unknown;
+export type AlternativeFile = Infer<typeof alternativeFileDecoder>;
+
+export type ImageSize = Infer<typeof imageSizeDecoder>;
+
+/** A preview size or the original file of a resource */
+export interface ResourceRendition {
+  /** Size code ('thm', 'pre', 'scr', ...), or '' for the original */
+  size: string;
+  /** Pixel dimensions; null if RS did not report them */
+  width: number | null;
+  height: number | null;
+  /** File extension; '' if the rendition does not exist */
+  extension: string;
+  /** Full URL, rewritten as for getResourcePath; null if the rendition does not exist */
+  url: string | null;
+  exists: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -178,8 +442,33 @@ export interface SearchOptions {
   resourceTypes?: string;
   archive?: number;
   dataJoins?: number[];
+  /** Also fetch the total number of matches (see SearchResult.total) */
+  withTotal?: boolean;
+}
+
+export interface SearchPreviewOptions extends Omit<SearchOptions, 'dataJoins'> {
+  /** Preview size codes to return URLs for, e.g. `['thm', 'pre']` */
+  sizes: string[];
+  /** Preview file extension (RS default: jpg) */
+  extension?: string;
+}
+
+/** Options for iterating over every page of a search */
+export interface SearchPagingOptions extends Omit<SearchOptions, 'limit' | 'withTotal'> {
+  /** Rows per do_search request (default: 100) */
+  pageSize?: number;
+  /** Stop after this many resources (default: no limit) */
+  maxResults?: number;
+  /** Pages requested ahead while the current one is consumed (default: 0) */
+  prefetch?: number;
 }
 
+/** Paging options for a collection's resources, which are always in collection order */
+export type CollectionPagingOptions = Pick<
+  SearchPagingOptions,
+  'pageSize' | 'maxResults' | 'prefetch' | 'offset' | 'dataJoins'
+>;
+
 export interface ResourcePathOptions {
   /** Size variant (e.g. 'scr', 'pre', 'thm', '' for original). Default: 'pre' */
   size?: string;
@@ -191,6 +480,22 @@ export interface ResourcePathOptions {
   watermarked?: boolean;
   /** Generate the preview if it doesn't exist on disk. Default: true */
   createIfMissing?: boolean;
+  /** Alternative file ID, to get that file instead of the resource's own */
+  alternative?: number;
+}
+
+export interface RenditionOptions {
+  /**
+   * Size codes to report on, in order ('' for the original). Sizes RS does
+   * not list are included with `exists: false`; others RS lists are left
+   * out. Default: everything RS lists, in its order.
+   */
+  sizes?: string[];
+}
+
+export interface BatchRenditionOptions extends RenditionOptions {
+  /** Max requests in flight at once (default 4) */
+  concurrency?: number;
 }
 
 /** Fields allowed in save_user — security enforced */
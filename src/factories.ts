@@ -2,16 +2,21 @@ import type { RSConfig } from './core/types.js';
 import { RSClientCore } from './core/client.js';
 import { withSearch } from './capabilities/search.js';
 import { withResources } from './capabilities/resources.js';
+import { withDownload } from './capabilities/download.js';
 import { withCollections } from './capabilities/collections.js';
 import { withFields } from './capabilities/fields.js';
 import { withUsers } from './capabilities/users.js';
 import { withSystem } from './capabilities/system.js';
 import { withBatch } from './capabilities/batch.js';
 import { withUpload } from './capabilities/upload.js';
+import { withResourceLoader } from './capabilities/resource-loader.js';
+import { withFacets } from './capabilities/facets.js';
+import { withResourceMapper } from './capabilities/resource-mapper.js';
 
 /**
  * Create a basic client with core capabilities.
- * Capabilities: search, resources, collections, fields, system.
+ * Capabilities: search, resources (with batched loading and downloads), collections, fields,
+ * facets, resource mapping, system.
  *
  * Includes read AND write methods for resources/collections/fields
  * (RS enforces server-side permissions regardless).
@@ -20,7 +25,9 @@ import { withUpload } from './capabilities/upload.js';
  * Suitable for: gallery apps, search interfaces, content management.
  */
 export function createBasicClient(config: RSConfig) {
-  return withSystem(withFields(withCollections(withResources(withSearch(new RSClientCore(config))))));
+  return withSystem(withResourceMapper(withFacets(withFields(
+    withCollections(withResourceLoader(withDownload(withResources(withSearch(new RSClientCore(config)))))),
+  ))));
 }
 
 /** @deprecated Use createBasicClient instead. This is an alias for backwards compatibility. */
@@ -38,7 +45,9 @@ export const createStandardClient = createBasicClient;
  */
 export function createAdminClient(config: RSConfig) {
   return withUpload(withBatch(withUsers(
-    withSystem(withFields(withCollections(withResources(withSearch(new RSClientCore(config))))))
+    withSystem(withResourceMapper(withFacets(withFields(
+      withCollections(withResourceLoader(withDownload(withResources(withSearch(new RSClientCore(config)))))),
+    ))))
   )));
 }
 
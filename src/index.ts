@@ -1,23 +1,69 @@
 // Core
 export { RSClientCore } from './core/client.js';
 export { validateConfig, configFromEnv } from './core/config.js';
+export { defaultTransport } from './core/transport.js';
+export { isReadOnlyFunction } from './core/functions.js';
+export { DEFAULT_RETRY_POLICY, isRetryableError } from './core/retry.js';
+export { DEFAULT_CIRCUIT_BREAKER_OPTIONS } from './core/circuit-breaker.js';
+export { MemoryCacheStore, DEFAULT_CACHE_TTLS } from './core/cache.js';
+export type { SingleFlightStats } from './core/single-flight.js';
 export {
   ResourceSpaceError,
   PermissionError,
+  SessionExpiredError,
+  NotFoundError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  InvalidResponseError,
+  ResponseValidationError,
+  CircuitOpenError,
+  UrlTooLongError,
+  FixtureMissingError,
+  ChecksumMismatchError,
+  RequestAbortedError,
   ConfigurationError,
   BatchSizeLimitError,
   SecurityError,
   ValidationError,
   validateId,
 } from './core/errors.js';
+export type { RSErrorCode } from './core/errors.js';
 
 // Types
 export type {
   RSConfig,
   AuthMode,
   RSLogger,
+  RSParams,
+  RSRequestInit,
+  RSTransport,
+  RSTransportResponse,
+  RSRequestContext,
+  RSMiddleware,
+  RSRetryPolicy,
+  RSRequestOptions,
+  RSCircuitBreakerOptions,
+  CircuitState,
+  RSRateLimitOptions,
+  RSRateLimitRule,
+  RSCacheOptions,
+  RSCacheStore,
+  RSFixtureOptions,
+  RSFixture,
+  RSTelemetryOptions,
+  RSTracer,
+  RSSpan,
+  RSSpanStatusCode,
+  RSMeter,
+  RSCounter,
+  RSHistogram,
+  RSAttributes,
+  RSAttributeValue,
   Resource,
   SearchResult,
+  PreviewSearchResult,
+  ResourceWithPreviews,
   ResourceFieldData,
   Collection,
   User,
@@ -27,18 +73,81 @@ export type {
   ResourceType,
   SystemStatus,
   AlternativeFile,
+  ImageSize,
+  ResourceRendition,
   SearchOptions,
+  SearchPagingOptions,
+  SearchPreviewOptions,
+  CollectionPagingOptions,
   ResourcePathOptions,
+  RenditionOptions,
+  BatchRenditionOptions,
   UserUpdateData,
   CreateUserParams,
   CreateCollectionParams,
 } from './core/types.js';
 
+// Typed RS API function registry (used by RSClientCore.call)
+export type {
+  RSApi,
+  RSFunctionName,
+  RSFunctionParams,
+  RSFunctionResponse,
+  RSCallArgs,
+  RSFlag,
+  RSIdList,
+} from './core/api.js';
+
+// Response decoders (the response types above are inferred from these)
+export {
+  resourceDecoder,
+  resourceFieldDataDecoder,
+  collectionDecoder,
+  userDecoder,
+  fieldDefinitionDecoder,
+  fieldOptionDecoder,
+  nodeDecoder,
+  resourceTypeDecoder,
+  alternativeFileDecoder,
+  imageSizeDecoder,
+} from './core/decoders.js';
+export type { Decoder, DecodeIssue, Infer } from './utils/decode.js';
+
 // Capabilities (mixins)
 export { withSearch, type SearchCapability } from './capabilities/search.js';
 export { withResources, type ResourcesCapability } from './capabilities/resources.js';
+export {
+  withResourceLoader,
+  type ResourceLoaderCapability,
+  type ResourceLoaderOptions,
+} from './capabilities/resource-loader.js';
+export {
+  withDownload,
+  type DownloadCapability,
+  type DownloadOptions,
+  type DownloadProgress,
+  type DownloadResult,
+} from './capabilities/download.js';
 export { withCollections, type CollectionsCapability } from './capabilities/collections.js';
 export { withFields, type FieldsCapability } from './capabilities/fields.js';
+export {
+  withFacets,
+  type FacetsCapability,
+  type FacetOptions,
+  type FacetNode,
+  type FieldFacet,
+} from './capabilities/facets.js';
+export {
+  withResourceMapper,
+  type ResourceMapperCapability,
+  type ResourceMapper,
+  type ResourceMapperOptions,
+  type ResourceSchema,
+  type FieldMapping,
+  type FieldValueType,
+  type MappedResource,
+  type MappedSearchResult,
+} from './capabilities/resource-mapper.js';
 export { withUsers, type UsersCapability } from './capabilities/users.js';
 export { withSystem, type SystemCapability } from './capabilities/system.js';
 export { withBatch, type BatchCapability } from './capabilities/batch.js';
@@ -53,9 +162,34 @@ export {
   createClient,
 } from './factories.js';
 
+// Sessions
+export {
+  SessionManager,
+  SessionClient,
+  MemorySessionStore,
+  isSessionKeyError,
+} from './session.js';
+export type { RSSession, RSSessionStore, SessionManagerOptions } from './session.js';
+
+// Multi-instance registry
+export { ClientRegistry } from './registry.js';
+export type {
+  RSInstanceProfile,
+  RSInstanceHealth,
+  HealthCheckOptions,
+  ClientOf,
+} from './registry.js';
+
 // Utilities
 export { generateSignature, constantTimeCompare } from './utils/signature.js';
-export { buildSignedQuery, buildQueryString } from './utils/query-builder.js';
-export { normalizeResponse, ensureArray, toNumber } from './utils/response.js';
+export { buildSignedQuery, buildQueryString, canonicalizeParams } from './utils/query-builder.js';
+export { normalizeResponse, classifyRSError, ensureArray, toNumber } from './utils/response.js';
 export { rewriteToInternalUrl } from './utils/url-rewriter.js';
+export { SearchQuery, type SearchDateRange } from './utils/search-query.js';
+export {
+  captureFieldSchema,
+  parseFieldSchemaSnapshot,
+  generateFieldSchemaModule,
+  type FieldSchemaSnapshot,
+} from './utils/field-schema.js';
 export { assignCapability } from './utils/assign-capability.js';
@@ -0,0 +1,132 @@
+import type { RSConfig, CircuitState } from './core/types.js';
+import type { RSClientCore } from './core/client.js';
+import { ConfigurationError, ResourceSpaceError } from './core/errors.js';
+
+/** A named RS deployment and the client to build for it */
+export interface RSInstanceProfile<C extends RSClientCore = RSClientCore> {
+  /**
+   * Instance config, or a function returning it (called on first use).
+   * A function returning null — e.g. `configFromEnv` with missing
+   * variables — marks the instance as not configured.
+   */
+  config: RSConfig | (() => RSConfig | null);
+  /**
+   * Build the client, e.g. `createBasicClient`, `createAdminClient` or
+   * `config => createClient(config, withSearch, withSystem)`.
+   */
+  create: (config: RSConfig) => C;
+}
+
+/** Client type built by a profile */
+export type ClientOf<P> = P extends RSInstanceProfile<infer C> ? C : never;
+
+export interface RSInstanceHealth {
+  /** True if the instance answered the probe request */
+  ok: boolean;
+  /** Round trip of the probe in ms */
+  latencyMs: number;
+  circuitState?: CircuitState;
+  /** Error code (`ResourceSpaceError.code`, or `CONFIGURATION` if the instance is not configured) */
+  code?: string;
+  error?: string;
+}
+
+export interface HealthCheckOptions {
+  /** Probe timeout per instance in ms (default: 5000) */
+  timeout?: number;
+}
+
+const DEFAULT_HEALTH_TIMEOUT = 5000;
+
+/**
+ * Registry of clients for several RS deployments (e.g. staging, production,
+ * a partner archive), each with its own capability set.
+ *
+ * Clients are built on first use and reused afterwards. `get` returns the
+ * client type of the named profile.
+ *
+ * @example
+ * ```ts
+ * const registry = new ClientRegistry({
+ *   production: { config: () => configFromEnv('RS_PROD'), create: createAdminClient },
+ *   archive: { config: archiveConfig, create: c => createClient(c, withSearch) },
+ * });
+ * registry.get('archive').search('1920s'); // typed: search only
+ * ```
+ */
+export class ClientRegistry<P extends Record<string, RSInstanceProfile>> {
+  private readonly clients = new Map<keyof P, RSClientCore>();
+
+  constructor(private readonly profiles: P) {}
+
+  /** Names of all registered instances */
+  get names(): Array<keyof P & string> {
+    return Object.keys(this.profiles);
+  }
+
+  has(name: string): name is keyof P & string {
+    return Object.prototype.hasOwnProperty.call(this.profiles, name);
+  }
+
+  /**
+   * Client for the named instance, built on first call.
+   * Throws ConfigurationError for unknown or unconfigured instances.
+   */
+  get<K extends keyof P & string>(name: K): ClientOf<P[K]> {
+    const existing = this.clients.get(name);
+    if (existing) return existing as ClientOf<P[K]>;
+
+    if (!this.has(name)) {
+      throw new ConfigurationError(`Unknown RS instance "${name}"`);
+    }
+    const profile = this.profiles[name];
+    const config = typeof profile.config === 'function' ? profile.config() : profile.config;
+    if (!config) {
+      throw new ConfigurationError(`RS instance "${name}" is not configured`);
+    }
+
+    const client = profile.create(config);
+    this.clients.set(name, client);
+    return client as ClientOf<P[K]>;
+  }
+
+  /**
+   * Probe every instance in parallel with a cheap, uncached read
+   * (`get_resource_types`). Never throws — failures are reported per instance.
+   */
+  async healthCheck(options: HealthCheckOptions = {}): Promise<Record<keyof P & string, RSInstanceHealth>> {
+    const timeout = options.timeout ?? DEFAULT_HEALTH_TIMEOUT;
+    const entries = await Promise.all(
+      this.names.map(async name => [name, await this.probe(name, timeout)] as const),
+    );
+    return Object.fromEntries(entries) as Record<keyof P & string, RSInstanceHealth>;
+  }
+
+  private async probe(name: keyof P & string, timeout: number): Promise<RSInstanceHealth> {
+    const started = Date.now();
+    let client: RSClientCore;
+    try {
+      client = this.get(name);
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: 0,
+        code: 'CONFIGURATION',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    try {
+      await client.makeRequest('get_resource_types', {}, { cache: false, retry: false, timeout });
+      return { ok: true, latencyMs: Date.now() - started, circuitState: client.circuitState };
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: Date.now() - started,
+        circuitState: client.circuitState,
+        code: error instanceof ResourceSpaceError ? error.code : undefined,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
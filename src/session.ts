@@ -0,0 +1,212 @@
+import type { RSConfig, RSParams, RSRequestOptions } from './core/types.js';
+import { RSClientCore } from './core/client.js';
+import { PermissionError, SessionExpiredError } from './core/errors.js';
+import type { UsersCapability } from './capabilities/users.js';
+
+/** A logged-in user's session key */
+export interface RSSession {
+  username: string;
+  sessionKey: string;
+  /** When the key was issued (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Pluggable session storage (e.g. Redis), keyed by username.
+ * Sharing a store lets several processes reuse — and renew — the same sessions.
+ */
+export interface RSSessionStore {
+  get(username: string): RSSession | undefined | Promise<RSSession | undefined>;
+  set(username: string, session: RSSession): void | Promise<void>;
+  delete(username: string): void | Promise<void>;
+}
+
+/** In-process session store. Sessions are lost when the process exits. */
+export class MemorySessionStore implements RSSessionStore {
+  private readonly sessions = new Map<string, RSSession>();
+
+  get(username: string): RSSession | undefined {
+    const session = this.sessions.get(username);
+    return session ? { ...session } : undefined;
+  }
+
+  set(username: string, session: RSSession): void {
+    this.sessions.set(username, { ...session });
+  }
+
+  delete(username: string): void {
+    this.sessions.delete(username);
+  }
+}
+
+export interface SessionManagerOptions<C extends RSClientCore> {
+  /** Client used to log users in — typically an admin client */
+  auth: Pick<UsersCapability, 'checkCredentials'>;
+  /**
+   * Settings for session clients (baseUrl, timeout, cache, ...).
+   * `user`, `secret` and `authMode` are set per session.
+   */
+  config: Omit<RSConfig, 'user' | 'secret' | 'authMode'>;
+  /**
+   * Apply the capabilities session clients should have.
+   * @example core => withCollections(withSearch(core))
+   */
+  capabilities: (core: SessionClient) => C;
+  /** Where sessions are kept (default: MemorySessionStore) */
+  store?: RSSessionStore;
+  /**
+   * Called when a session key is rejected. Return the user's password to
+   * log in again, or null to end the session. Without this callback an
+   * expired session ends with SessionExpiredError.
+   */
+  reauthenticate?: (username: string) => Promise<string | null> | string | null;
+  /** Decide whether an error means the session key is no longer valid (default: isSessionKeyError) */
+  isExpired?: (error: unknown) => boolean;
+}
+
+/** RS messages meaning the session key itself was rejected */
+const SESSION_KEY_PATTERNS = [
+  'invalid signature',
+  'invalid session',
+  'session expired',
+  'session has expired',
+  'http 401',
+] as const;
+
+/**
+ * True if an error looks like RS rejecting the session key itself rather
+ * than denying a specific action: "Invalid signature" or HTTP 401.
+ */
+export function isSessionKeyError(error: unknown): boolean {
+  if (!(error instanceof PermissionError) || error instanceof SessionExpiredError) return false;
+  const message = error.message.toLowerCase();
+  return SESSION_KEY_PATTERNS.some(p => message.includes(p));
+}
+
+/**
+ * Core client authenticated with a session key that can be renewed in place.
+ *
+ * A call rejected because the key expired triggers `renew` once, then is
+ * repeated with the new key. Concurrent failures share one renewal.
+ */
+export class SessionClient extends RSClientCore {
+  private sessionKey: string;
+  private renewal?: Promise<string>;
+
+  constructor(
+    config: RSConfig,
+    private readonly renew: (staleKey: string) => Promise<string>,
+    private readonly isExpired: (error: unknown) => boolean = isSessionKeyError,
+  ) {
+    super(config);
+    this.sessionKey = config.secret;
+  }
+
+  protected override get signingSecret(): string {
+    return this.sessionKey;
+  }
+
+  override async makeRequest<T>(
+    functionName: string,
+    params: RSParams = {},
+    options: RSRequestOptions = {},
+  ): Promise<T> {
+    const key = this.sessionKey;
+    try {
+      return await super.makeRequest<T>(functionName, params, options);
+    } catch (error) {
+      if (!this.isExpired(error)) throw error;
+      await this.renewKey(key);
+      // The rejected call never ran, so repeating it is safe even for mutations
+      return super.makeRequest<T>(functionName, params, options);
+    }
+  }
+
+  private async renewKey(staleKey: string): Promise<void> {
+    // Another call already renewed the key
+    if (this.sessionKey !== staleKey) return;
+    this.renewal ??= this.renew(staleKey).finally(() => {
+      this.renewal = undefined;
+    });
+    this.sessionKey = await this.renewal;
+  }
+}
+
+/**
+ * Logs users in through `checkCredentials` and hands out session-key
+ * clients with a chosen set of capabilities.
+ *
+ * Sessions live in a pluggable store. When RS rejects a session key, the
+ * manager re-authenticates through `reauthenticate` and the failed call is
+ * repeated transparently.
+ */
+export class SessionManager<C extends RSClientCore> {
+  private readonly store: RSSessionStore;
+  private readonly clients = new Map<string, C>();
+
+  constructor(private readonly options: SessionManagerOptions<C>) {
+    this.store = options.store ?? new MemorySessionStore();
+  }
+
+  /**
+   * Log a user in and return their client.
+   * Throws PermissionError if the credentials are rejected; network and
+   * server errors are thrown as they are.
+   */
+  async login(username: string, password: string): Promise<C> {
+    const sessionKey = await this.options.auth.checkCredentials(username, password);
+    if (!sessionKey) throw new PermissionError('login', `invalid credentials for ${username}`);
+
+    await this.store.set(username, { username, sessionKey, createdAt: Date.now() });
+    this.clients.delete(username);
+    return this.clientFor(username, sessionKey);
+  }
+
+  /** Client for a stored session, or null if the user has no session. */
+  async resume(username: string): Promise<C | null> {
+    const existing = this.clients.get(username);
+    if (existing) return existing;
+    const session = await this.store.get(username);
+    return session ? this.clientFor(username, session.sessionKey) : null;
+  }
+
+  /** End a user's session. Their client stops working. */
+  async logout(username: string): Promise<void> {
+    this.clients.delete(username);
+    await this.store.delete(username);
+  }
+
+  private clientFor(username: string, sessionKey: string): C {
+    const core = new SessionClient(
+      { ...this.options.config, user: username, secret: sessionKey, authMode: 'sessionKey' },
+      staleKey => this.renew(username, staleKey),
+      this.options.isExpired,
+    );
+    const client = this.options.capabilities(core);
+    this.clients.set(username, client);
+    return client;
+  }
+
+  /**
+   * Get a fresh session key after `staleKey` was rejected. Only a declined
+   * or rejected re-login ends the session: if RS cannot be reached, the
+   * error is thrown and the stored session is kept.
+   */
+  private async renew(username: string, staleKey: string): Promise<string> {
+    // Another process sharing the store may have renewed it already
+    const stored = await this.store.get(username);
+    if (stored && stored.sessionKey !== staleKey) return stored.sessionKey;
+
+    const password = await this.options.reauthenticate?.(username);
+    const sessionKey = password
+      ? await this.options.auth.checkCredentials(username, password)
+      : null;
+
+    if (!sessionKey) {
+      await this.logout(username);
+      throw new SessionExpiredError('login', username);
+    }
+    await this.store.set(username, { username, sessionKey, createdAt: Date.now() });
+    return sessionKey;
+  }
+}
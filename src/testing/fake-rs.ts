@@ -0,0 +1,863 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type {
+  RSConfig,
+  RSTransport,
+  FieldDefinition,
+  Node,
+  ResourceType,
+} from '../core/types.js';
+import { generateSignature, constantTimeCompare } from '../utils/signature.js';
+
+// ---------------------------------------------------------------------------
+// Fake ResourceSpace API
+//
+// A stateful stand-in for the RS API, for tests and local development.
+// Requests are signature-checked exactly like RS does (SHA256(key + query),
+// `authmode` stripped before checking), so a client that works against the
+// fake signs correctly against a real RS.
+//
+// Deliberately NOT modelled: permissions, archive workflows, file storage.
+// ---------------------------------------------------------------------------
+
+/** RS field types whose values are stored as nodes */
+const NODE_FIELD_TYPES = new Set([2, 3, 7, 9, 12]);
+
+/** Dynamic keywords list: unknown values become new nodes */
+const DYNAMIC_KEYWORDS_TYPE = 9;
+
+const DEFAULT_BASE_URL = 'http://fake-rs.test/api/';
+
+const DEFAULT_RESOURCE_TYPES: ResourceType[] = [
+  { ref: 1, name: 'Photo' },
+  { ref: 2, name: 'Document' },
+];
+
+/** A subset of RS's default fields. resource_type 0 = global field. */
+const DEFAULT_FIELDS: FieldDefinition[] = [
+  { ref: 8, name: 'title', title: 'Title', type: 0, resource_type: 0 },
+  { ref: 1, name: 'keywords', title: 'Keywords', type: 9, resource_type: 0 },
+  { ref: 3, name: 'country', title: 'Country', type: 3, resource_type: 0 },
+  { ref: 12, name: 'date', title: 'Date', type: 4, resource_type: 0 },
+];
+
+export interface FakeRSUser {
+  ref: number;
+  username: string;
+  password: string;
+  fullname: string;
+  email: string;
+  usergroup: number;
+  /** RS defaults new users to approved=1 */
+  approved: number;
+  comments: string;
+  /** Key clients sign with in apiKey mode */
+  apiKey: string;
+  [key: string]: unknown;
+}
+
+export type FakeRSUserSeed = Partial<FakeRSUser> & { username: string };
+
+export interface FakeRSResourceSeed {
+  ref?: number;
+  resource_type?: number;
+  /** Archive state (0 = active, the default) */
+  archive?: number;
+  /** Field values by field ref or shortname. Node fields take CSV node names. */
+  fields?: Record<string | number, string>;
+  /** Extra resource table columns, e.g. file_extension or file_checksum */
+  columns?: Record<string, string | number | null>;
+}
+
+export interface FakeRSCollectionSeed {
+  ref?: number;
+  name: string;
+  /** Owner username (default: the first user) */
+  owner?: string;
+  public?: boolean;
+  resources?: number[];
+}
+
+export interface FakeRSOptions {
+  /** Base URL the in-process transport answers on (default: http://fake-rs.test/api/) */
+  baseUrl?: string;
+  /** Users (default: a single `admin` with password `admin`) */
+  users?: FakeRSUserSeed[];
+  resourceTypes?: ResourceType[];
+  /** Field definitions (default: title, keywords, country, date) */
+  fields?: FieldDefinition[];
+}
+
+/**
+ * An RS quirk to reproduce on demand:
+ * - `jsonString`: the result JSON-encoded twice (a JSON string containing JSON)
+ * - `numericStrings`: every number in the result sent as a string
+ * - `errorBody`: HTTP 200 with an error string instead of a result
+ * - `forbidden`: HTTP 403 with `[]`, as RS sends for missing permissions
+ * - `httpStatus`: any status and raw body, e.g. a 502 proxy page
+ *
+ * `errorBody`, `forbidden` and `httpStatus` skip the call, so no state changes.
+ */
+export type FakeRSQuirk =
+  | { kind: 'jsonString' }
+  | { kind: 'numericStrings' }
+  | { kind: 'errorBody'; message?: string }
+  | { kind: 'forbidden' }
+  | { kind: 'httpStatus'; status: number; body?: string };
+
+export interface FakeRSCall {
+  function: string;
+  /** Query params other than user, function, authmode and sign */
+  params: Record<string, string>;
+  /** Signing username, or undefined if the signature was rejected */
+  user?: string;
+}
+
+export interface FakeRSResponse {
+  status: number;
+  body: string;
+}
+
+export interface FakeRSServer {
+  /** Base URL to use as `config.baseUrl` */
+  url: string;
+  close(): Promise<void>;
+}
+
+interface FakeResource {
+  ref: number;
+  resource_type: number;
+  archive: number;
+  creation_date: string;
+  /** Values of non-node fields by field ref */
+  values: Map<number, string>;
+  nodes: Set<number>;
+  columns: Record<string, string | number | null>;
+}
+
+interface FakeCollection {
+  ref: number;
+  name: string;
+  user: number;
+  public: number;
+  created: string;
+  resources: number[];
+}
+
+interface QuirkRule {
+  functionName: string;
+  quirk: FakeRSQuirk;
+  remaining: number;
+}
+
+type Params = Record<string, string>;
+type SearchRows = Array<Record<string, unknown>>;
+type Handler = (params: Params, caller: FakeRSUser) => unknown;
+
+/** An RS-level failure: answered as HTTP 200 with an error string, like RS */
+class RSFault extends Error {}
+
+/**
+ * Stateful in-memory ResourceSpace API.
+ *
+ * Use `transport` in-process, or `listen()` for a local HTTP server.
+ *
+ * @example
+ * ```ts
+ * const rs = new FakeResourceSpace();
+ * const photo = rs.addResource({ fields: { title: 'Sunset' } });
+ * const client = createAdminClient(rs.clientConfig());
+ * await client.search('sunset'); // → [{ ref: photo, ... }]
+ * ```
+ */
+export class FakeResourceSpace {
+  readonly baseUrl: string;
+  /** Every request received, in order */
+  readonly calls: FakeRSCall[] = [];
+
+  private readonly users = new Map<number, FakeRSUser>();
+  private readonly sessions = new Map<string, number>();
+  private readonly resources = new Map<number, FakeResource>();
+  private readonly collections = new Map<number, FakeCollection>();
+  private readonly fields = new Map<number, FieldDefinition>();
+  private readonly nodes = new Map<number, Node>();
+  private readonly resourceTypes: ResourceType[];
+  private quirks: QuirkRule[] = [];
+  private nextRef = { user: 1, resource: 1, collection: 1, node: 1 };
+
+  private readonly handlers: Record<string, Handler> = {
+    do_search: p => this.doSearch(p),
+    search_get_previews: p => this.searchGetPreviews(p),
+    get_resource_data: p => this.resourceRow(this.resources.get(toInt(p.resource)), []) ?? false,
+    get_resource_field_data: p => this.resourceFieldData(toInt(p.resource)),
+    create_resource: p => this.addResource({
+      resource_type: toInt(p.resource_type),
+      archive: p.archive !== undefined ? toInt(p.archive) : undefined,
+    }),
+    update_field: p => this.updateField(p),
+    delete_resource: p => csvInts(p.resource).map(ref => this.resources.delete(ref)).every(Boolean),
+
+    get_resource_types: () => this.resourceTypes,
+    get_resource_type_fields: p => this.fieldList(p.by_resource_types),
+    get_nodes: p => this.nodeList(p),
+    set_node: p => this.setNode(p),
+    add_resource_nodes_multi: p => this.addResourceNodes(csvInts(p.resourceid), csvInts(p.nodes)),
+
+    get_user_collections: (_p, caller) => [...this.collections.values()]
+      .filter(c => c.user === caller.ref)
+      .map(c => this.collectionRow(c)),
+    create_collection: (p, caller) => this.addCollection({ name: p.name, owner: caller.username }),
+    delete_collection: p => this.collections.delete(toInt(p.collection)),
+    add_resource_to_collection: p => this.collectionMembership(p, true),
+    remove_resource_from_collection: p => this.collectionMembership(p, false),
+
+    get_users: p => this.findUsers(p),
+    new_user: p => this.newUser(p),
+    save_user: p => this.saveUser(p),
+    login: p => this.login(p.username, p.password),
+  };
+
+  constructor(options: FakeRSOptions = {}) {
+    this.baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+    this.resourceTypes = (options.resourceTypes ?? DEFAULT_RESOURCE_TYPES).map(t => ({ ...t }));
+    for (const field of options.fields ?? DEFAULT_FIELDS) {
+      this.fields.set(field.ref, { ...field });
+    }
+    for (const user of options.users ?? [{ username: 'admin', password: 'admin', usergroup: 3 }]) {
+      this.addUser(user);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Seeding and inspection
+  // -------------------------------------------------------------------------
+
+  /** Add a user. The API key defaults to a stable value derived from the username. */
+  addUser(seed: FakeRSUserSeed): FakeRSUser {
+    const ref = seed.ref ?? this.nextRef.user;
+    this.nextRef.user = Math.max(this.nextRef.user, ref + 1);
+    const user: FakeRSUser = {
+      password: '',
+      fullname: seed.username,
+      email: '',
+      usergroup: 2,
+      approved: 1,
+      comments: '',
+      apiKey: crypto.createHash('sha256').update(`fake-rs:${seed.username}`).digest('hex'),
+      ...seed,
+      ref,
+    };
+    this.users.set(ref, user);
+    return user;
+  }
+
+  /** Look up a user, e.g. to check what `save_user` changed. */
+  getUser(username: string): FakeRSUser | undefined {
+    return [...this.users.values()].find(u => u.username === username);
+  }
+
+  /** Add a resource and return its ref. */
+  addResource(seed: FakeRSResourceSeed = {}): number {
+    const ref = seed.ref ?? this.nextRef.resource;
+    this.nextRef.resource = Math.max(this.nextRef.resource, ref + 1);
+    const resource: FakeResource = {
+      ref,
+      resource_type: seed.resource_type ?? 1,
+      archive: seed.archive ?? 0,
+      creation_date: rsDate(new Date()),
+      values: new Map(),
+      nodes: new Set(),
+      columns: { ...seed.columns },
+    };
+    this.resources.set(ref, resource);
+    for (const [field, value] of Object.entries(seed.fields ?? {})) {
+      if (!this.setFieldValue(resource, this.requireField(field), value)) {
+        throw new Error(`Unknown node value "${value}" for field ${field}`);
+      }
+    }
+    return ref;
+  }
+
+  /** Add a collection and return its ref. */
+  addCollection(seed: FakeRSCollectionSeed): number {
+    const owner = seed.owner ? this.getUser(seed.owner) : this.users.values().next().value;
+    if (!owner) throw new Error(`Unknown collection owner "${seed.owner}"`);
+    const ref = seed.ref ?? this.nextRef.collection;
+    this.nextRef.collection = Math.max(this.nextRef.collection, ref + 1);
+    this.collections.set(ref, {
+      ref,
+      name: seed.name,
+      user: owner.ref,
+      public: seed.public ? 1 : 0,
+      created: rsDate(new Date()),
+      resources: [...(seed.resources ?? [])],
+    });
+    return ref;
+  }
+
+  /** Add a node (fixed list option) to a field and return its ref. */
+  addNode(fieldRefOrName: number | string, name: string, parent: number | null = null): number {
+    const field = this.requireField(fieldRefOrName);
+    const ref = this.nextRef.node++;
+    const siblings = [...this.nodes.values()]
+      .filter(n => n.resource_type_field === field.ref && n.parent === parent);
+    this.nodes.set(ref, {
+      ref,
+      resource_type_field: field.ref,
+      name,
+      parent,
+      order_by: (siblings.length + 1) * 10,
+    });
+    return ref;
+  }
+
+  /** Current value of a resource field as RS would return it, or undefined. */
+  getFieldValue(resourceRef: number, fieldRefOrName: number | string): string | undefined {
+    const resource = this.resources.get(resourceRef);
+    if (!resource) return undefined;
+    return this.fieldValue(resource, this.requireField(fieldRefOrName));
+  }
+
+  /** Refs of the resources in a collection, in collection order. */
+  getCollectionResources(collectionRef: number): number[] {
+    return [...(this.collections.get(collectionRef)?.resources ?? [])];
+  }
+
+  /** Invalidate session keys (all, or one user's), as if they expired. */
+  expireSessions(username?: string): void {
+    const user = username === undefined ? undefined : this.getUser(username);
+    for (const [key, ref] of this.sessions) {
+      if (username === undefined || ref === user?.ref) this.sessions.delete(key);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Quirks
+  // -------------------------------------------------------------------------
+
+  /**
+   * Reproduce an RS quirk for a function (`'*'` for every function), for
+   * the next `times` calls (default: until `clearQuirks`).
+   */
+  injectQuirk(functionName: string, quirk: FakeRSQuirk, options: { times?: number } = {}): void {
+    this.quirks.push({ functionName, quirk, remaining: options.times ?? Infinity });
+  }
+
+  clearQuirks(): void {
+    this.quirks = [];
+  }
+
+  private takeQuirk(functionName: string): FakeRSQuirk | undefined {
+    const rule = this.quirks.find(q =>
+      q.remaining > 0 && (q.functionName === functionName || q.functionName === '*'));
+    if (!rule) return undefined;
+    rule.remaining--;
+    return rule.quirk;
+  }
+
+  // -------------------------------------------------------------------------
+  // Serving
+  // -------------------------------------------------------------------------
+
+  /** Fetch-compatible transport answering in-process. Pass as `config.transport`. */
+  readonly transport: RSTransport = async (url: string) => {
+    const { status, body } = this.handle(url);
+    return { status, text: () => Promise.resolve(body) };
+  };
+
+  /**
+   * Client config for a user in apiKey mode. Without `baseUrl` the client
+   * talks to the fake in-process; pass a `listen()` URL to go over HTTP.
+   */
+  clientConfig(username = 'admin', baseUrl?: string): RSConfig {
+    const user = this.getUser(username);
+    if (!user) throw new Error(`Unknown user "${username}"`);
+    return {
+      baseUrl: baseUrl ?? this.baseUrl,
+      user: user.username,
+      secret: user.apiKey,
+      authMode: 'apiKey',
+      ...(baseUrl ? {} : { transport: this.transport }),
+    };
+  }
+
+  /** Serve the fake over HTTP on 127.0.0.1 (default: a free port). */
+  async listen(port = 0): Promise<FakeRSServer> {
+    const server = http.createServer((req, res) => {
+      const { status, body } = this.handle(`http://127.0.0.1${req.url ?? '/'}`);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(body);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', resolve);
+    });
+    const { port: bound } = server.address() as AddressInfo;
+    return {
+      url: `http://127.0.0.1:${bound}/api/`,
+      close: () => new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+      }),
+    };
+  }
+
+  /** Answer one signed RS API request URL. */
+  handle(url: string): FakeRSResponse {
+    const query = url.includes('?') ? url.slice(url.indexOf('?') + 1) : '';
+    const all = new URLSearchParams(query);
+    const functionName = all.get('function') ?? '';
+    const params: Params = {};
+    for (const [key, value] of all) {
+      if (!['user', 'function', 'authmode', 'sign'].includes(key)) params[key] = value;
+    }
+
+    const caller = this.authenticate(query);
+    this.calls.push({ function: functionName, params, user: caller?.username });
+    if (!caller) return json(200, 'Invalid signature');
+
+    const quirk = this.takeQuirk(functionName);
+    if (quirk?.kind === 'errorBody') {
+      return json(200, quirk.message ?? `Error: ${functionName} failed`);
+    }
+    if (quirk?.kind === 'forbidden') return { status: 403, body: '[]' };
+    if (quirk?.kind === 'httpStatus') return { status: quirk.status, body: quirk.body ?? '' };
+
+    const handler = this.handlers[functionName];
+    if (!handler) return json(200, `Error: Unknown function ${functionName}`);
+
+    let result: unknown;
+    try {
+      result = handler(params, caller);
+    } catch (error) {
+      if (error instanceof RSFault) return json(200, `Error: ${error.message}`);
+      // Unexpected failures surface the way PHP errors do
+      return { status: 500, body: `Fatal error: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    if (quirk?.kind === 'numericStrings') result = stringifyNumbers(result);
+    if (quirk?.kind === 'jsonString') return json(200, JSON.stringify(result));
+    return json(200, result);
+  }
+
+  /**
+   * Check the signature the way RS does: SHA256(key + query), with the
+   * trailing `sign` and any `authmode` param removed from the query.
+   */
+  private authenticate(query: string): FakeRSUser | undefined {
+    const match = /^(.*)&sign=([0-9a-f]+)$/.exec(query);
+    if (!match) return undefined;
+    const [, unsigned, sign] = match;
+    const user = this.getUser(new URLSearchParams(unsigned).get('user') ?? '');
+    if (!user) return undefined;
+
+    const sessionMode = /(^|&)authmode=sessionkey(&|$)/i.test(unsigned);
+    const signed = unsigned.replace(/&authmode=[^&]*/i, '');
+    const keys = sessionMode
+      ? [...this.sessions].filter(([, ref]) => ref === user.ref).map(([key]) => key)
+      : [user.apiKey];
+    const valid = keys.some(key => constantTimeCompare(generateSignature(key, signed), sign));
+    return valid ? user : undefined;
+  }
+
+  // -------------------------------------------------------------------------
+  // Resources and search
+  // -------------------------------------------------------------------------
+
+  /**
+   * do_search. Supports the syntax SearchQuery emits, terms separated by
+   * commas: keywords (all must match a field value; quoted = phrase),
+   * `-keyword`, `!collection<ref>`, `!list<ref>:<ref>...`,
+   * `!field<ref>=<value>`, `!hasdata<ref>`, `!empty<ref>`, `@@<node>[@@<node>...]`,
+   * `<shortname>:<value>[;<value>...]` and `<shortname>:rangestart<date>end<date>`.
+   * `fetchrows` as `<offset>,<rows>` returns `{ total, data }`.
+   */
+  private doSearch(p: Params): SearchRows | { total: number; data: SearchRows } {
+    const archives = csvInts(p.archive ?? '0');
+    const restypes = p.restypes ? csvInts(p.restypes) : undefined;
+    let collection: FakeCollection | undefined;
+    const filters: Array<(r: FakeResource) => boolean> = [];
+
+    for (const term of splitOutsideQuotes(p.search ?? '', ',')) {
+      const special = /^!(collection|list|field|hasdata|empty)(.*)$/i.exec(term);
+      const scoped = /^([a-z0-9_]+):(.+)$/i.exec(term);
+      if (/^(@@\d+)+$/.test(term)) {
+        const refs = term.split('@@').filter(Boolean).map(Number);
+        filters.push(r => refs.some(ref => r.nodes.has(ref)));
+      } else if (special) {
+        const [, kind, rest] = special;
+        if (kind.toLowerCase() === 'collection') {
+          const found = this.collections.get(toInt(rest));
+          collection = found;
+          filters.push(r => found?.resources.includes(r.ref) ?? false);
+        } else if (kind.toLowerCase() === 'list') {
+          const refs = new Set(rest.split(':').map(Number));
+          filters.push(r => refs.has(r.ref));
+        } else if (kind.toLowerCase() === 'field') {
+          const [fieldRef, ...valueParts] = rest.split('=');
+          const field = this.fields.get(toInt(fieldRef));
+          const value = unquote(valueParts.join('=')).toLowerCase();
+          filters.push(r => field !== undefined && this.fieldValueList(r, field)
+            .some(v => v.toLowerCase() === value));
+        } else {
+          const field = this.fields.get(toInt(rest));
+          const wanted = kind.toLowerCase() === 'hasdata';
+          filters.push(r => field !== undefined
+            && this.fieldValueList(r, field).some(v => v.trim() !== '') === wanted);
+        }
+      } else if (term.startsWith('!')) {
+        throw new RSFault(`unsupported special search ${term}`);
+      } else if (scoped) {
+        filters.push(this.fieldKeywordFilter(scoped[1], scoped[2]));
+      } else if (term.startsWith('-')) {
+        const word = unquote(term.slice(1)).toLowerCase();
+        filters.push(r => !this.fieldValues(r).some(v => v.toLowerCase().includes(word)));
+      } else {
+        const phrase = unquote(term);
+        const words = phrase !== term ? [phrase] : term.split(/\s+/);
+        for (const word of words.map(w => w.toLowerCase())) {
+          filters.push(r => this.fieldValues(r).some(v => v.toLowerCase().includes(word)));
+        }
+      }
+    }
+
+    let matches = [...this.resources.values()].filter(r =>
+      archives.includes(r.archive)
+      && (!restypes || restypes.includes(r.resource_type))
+      && filters.every(f => f(r)));
+
+    if (p.order_by === 'collection' && collection) {
+      const order = collection.resources;
+      matches.sort((a, b) => order.indexOf(a.ref) - order.indexOf(b.ref));
+    } else if (p.order_by === 'date') {
+      matches.sort((a, b) => a.creation_date.localeCompare(b.creation_date) || a.ref - b.ref);
+    } else {
+      matches.sort((a, b) => a.ref - b.ref);
+    }
+    if (p.sort?.toUpperCase() === 'DESC') matches.reverse();
+
+    const structured = p.fetchrows?.includes(',') ?? false;
+    const [offset, rows] = structured
+      ? csvInts(p.fetchrows)
+      : [p.offset ? toInt(p.offset) : 0, p.fetchrows ? toInt(p.fetchrows) : undefined];
+    const total = matches.length;
+    matches = matches.slice(offset, rows !== undefined ? offset + rows : undefined);
+    const joins = p.data_joins ? csvInts(p.data_joins) : [];
+    const data = matches.map(r => this.resourceRow(r, joins)!);
+    return structured ? { total, data } : data;
+  }
+
+  /** search_get_previews: do_search rows plus `url_<size>` for each of `getsizes` */
+  private searchGetPreviews(p: Params): unknown {
+    // search_get_previews has no offset param; it pages with "offset,rows" only
+    const { offset, ...params } = p;
+    const result = this.doSearch(params);
+    const extension = p.previewext || 'jpg';
+    const root = this.baseUrl.replace(/api\/?$/, '');
+    for (const row of Array.isArray(result) ? result : result.data) {
+      for (const size of (p.getsizes ?? '').split(',').filter(Boolean)) {
+        row[`url_${size}`] = `${root}filestore/${row.ref}/${row.ref}${size}.${extension}`;
+      }
+    }
+    return result;
+  }
+
+  /** `<shortname>:<value>`: a keyword OR group, or a date range */
+  private fieldKeywordFilter(name: string, value: string): (r: FakeResource) => boolean {
+    const field = this.findField(name);
+    const values = (r: FakeResource) => (field ? this.fieldValueList(r, field) : []);
+    const range = /^range(?:start([\d-]+))?(?:end([\d-]+))?$/.exec(value);
+    if (range) {
+      const [, from = '', to = '9999-12-31'] = range;
+      return r => values(r).some(v => v !== '' && v.slice(0, 10) >= from && v.slice(0, 10) <= to);
+    }
+    const alternatives = splitOutsideQuotes(value, ';').map(a => unquote(a).toLowerCase());
+    return r => values(r).some(v => alternatives.some(a => v.toLowerCase().includes(a)));
+  }
+
+  private resourceRow(resource: FakeResource | undefined, joins: number[]): Record<string, unknown> | undefined {
+    if (!resource) return undefined;
+    const row: Record<string, unknown> = {
+      ref: resource.ref,
+      resource_type: resource.resource_type,
+      archive: resource.archive,
+      has_image: 0,
+      is_transcoding: 0,
+      image_red: null,
+      image_green: null,
+      image_blue: null,
+      thumb_width: null,
+      thumb_height: null,
+      file_modified: null,
+      file_checksum: null,
+      file_extension: '',
+      preview_extension: null,
+      creation_date: resource.creation_date,
+      rating: null,
+      user_rating: null,
+      user_rating_count: null,
+      user_rating_total: null,
+      access: 0,
+      ...resource.columns,
+    };
+    for (const fieldRef of joins) {
+      const field = this.fields.get(fieldRef);
+      row[`field${fieldRef}`] = field ? this.fieldValue(resource, field) ?? '' : '';
+    }
+    return row;
+  }
+
+  private resourceFieldData(ref: number): unknown[] | false {
+    const resource = this.resources.get(ref);
+    if (!resource) return false;
+    return this.fieldList(String(resource.resource_type)).map(field => ({
+      ref: field.ref,
+      resource_type_field: field.ref,
+      name: field.name,
+      title: field.title,
+      type: field.type,
+      value: this.fieldValue(resource, field) ?? '',
+    }));
+  }
+
+  private updateField(p: Params): boolean {
+    const field = this.findField(p.field);
+    if (!field) return false;
+    const resources = csvInts(p.resource).map(ref => this.resources.get(ref));
+    if (resources.some(r => !r)) return false;
+    return resources.every(r => this.setFieldValue(r!, field, p.value ?? ''));
+  }
+
+  /** False if a node field is given a name that is not one of its nodes. */
+  private setFieldValue(resource: FakeResource, field: FieldDefinition, value: string): boolean {
+    if (!NODE_FIELD_TYPES.has(field.type)) {
+      resource.values.set(field.ref, value);
+      return true;
+    }
+    const names = value.split(',').map(n => n.trim()).filter(Boolean);
+    const refs: number[] = [];
+    for (const name of names) {
+      const node = [...this.nodes.values()]
+        .find(n => n.resource_type_field === field.ref && n.name.toLowerCase() === name.toLowerCase());
+      if (node) refs.push(node.ref);
+      else if (field.type === DYNAMIC_KEYWORDS_TYPE) refs.push(this.addNode(field.ref, name));
+      else return false;
+    }
+    for (const ref of resource.nodes) {
+      if (this.nodes.get(ref)?.resource_type_field === field.ref) resource.nodes.delete(ref);
+    }
+    for (const ref of refs) resource.nodes.add(ref);
+    return true;
+  }
+
+  private fieldValue(resource: FakeResource, field: FieldDefinition): string | undefined {
+    const values = this.fieldValueList(resource, field);
+    return values.length > 0 ? values.join(', ') : undefined;
+  }
+
+  /** A field's value, or its node names for node fields. */
+  private fieldValueList(resource: FakeResource, field: FieldDefinition): string[] {
+    if (!NODE_FIELD_TYPES.has(field.type)) {
+      const value = resource.values.get(field.ref);
+      return value !== undefined ? [value] : [];
+    }
+    return [...resource.nodes]
+      .map(ref => this.nodes.get(ref))
+      .filter((n): n is Node => n?.resource_type_field === field.ref)
+      .map(n => n.name);
+  }
+
+  private fieldValues(resource: FakeResource): string[] {
+    return [...this.fields.values()].flatMap(field => this.fieldValueList(resource, field));
+  }
+
+  // -------------------------------------------------------------------------
+  // Fields and nodes
+  // -------------------------------------------------------------------------
+
+  private findField(refOrName: number | string | undefined): FieldDefinition | undefined {
+    if (refOrName === undefined) return undefined;
+    const ref = Number(refOrName);
+    if (Number.isInteger(ref)) return this.fields.get(ref);
+    return [...this.fields.values()].find(f => f.name === refOrName);
+  }
+
+  private requireField(refOrName: number | string): FieldDefinition {
+    const field = this.findField(refOrName);
+    if (!field) throw new Error(`Unknown field "${refOrName}"`);
+    return field;
+  }
+
+  private fieldList(byResourceTypes?: string): FieldDefinition[] {
+    const types = byResourceTypes ? csvInts(byResourceTypes) : undefined;
+    return [...this.fields.values()].filter(f =>
+      !types || f.resource_type === 0 || f.resource_type === undefined || types.includes(f.resource_type));
+  }
+
+  private nodeList(p: Params): Node[] {
+    const fieldRef = toInt(p.ref);
+    const parent = p.parent ? toInt(p.parent) : null;
+    const recursive = p.recursive === '1' || p.recursive === 'true';
+    return [...this.nodes.values()]
+      .filter(n => n.resource_type_field === fieldRef && (recursive || n.parent === parent))
+      .sort((a, b) => a.order_by - b.order_by);
+  }
+
+  private setNode(p: Params): number {
+    const parent = p.parent ? toInt(p.parent) : null;
+    if (p.ref && p.ref !== 'null') {
+      const node = this.nodes.get(toInt(p.ref));
+      if (!node) throw new RSFault(`node ${p.ref} not found`);
+      node.name = p.name;
+      return node.ref;
+    }
+    const field = this.findField(p.resource_type_field);
+    if (!field) throw new RSFault(`field ${p.resource_type_field} not found`);
+    if (p.returnexisting === 'true' || p.returnexisting === '1') {
+      const existing = [...this.nodes.values()].find(n =>
+        n.resource_type_field === field.ref && n.parent === parent && n.name === p.name);
+      if (existing) return existing.ref;
+    }
+    return this.addNode(field.ref, p.name, parent);
+  }
+
+  private addResourceNodes(resourceRefs: number[], nodeRefs: number[]): boolean {
+    const resources = resourceRefs.map(ref => this.resources.get(ref));
+    if (resources.some(r => !r) || nodeRefs.some(ref => !this.nodes.has(ref))) return false;
+    for (const resource of resources) {
+      for (const ref of nodeRefs) resource!.nodes.add(ref);
+    }
+    return true;
+  }
+
+  // -------------------------------------------------------------------------
+  // Collections
+  // -------------------------------------------------------------------------
+
+  private collectionRow(c: FakeCollection): Record<string, unknown> {
+    return {
+      ref: c.ref,
+      name: c.name,
+      user: c.user,
+      created: c.created,
+      public: c.public,
+      allow_changes: 0,
+      cant_delete: 0,
+      keywords: '',
+      savedsearch: null,
+      home_page_publish: 0,
+      home_page_text: '',
+      home_page_image: null,
+      session_id: null,
+      count: c.resources.length,
+    };
+  }
+
+  private collectionMembership(p: Params, add: boolean): boolean {
+    const collection = this.collections.get(toInt(p.collection));
+    const ref = toInt(p.resource);
+    if (!collection || !this.resources.has(ref)) return false;
+    const index = collection.resources.indexOf(ref);
+    if (add && index === -1) collection.resources.push(ref);
+    if (!add && index !== -1) collection.resources.splice(index, 1);
+    return true;
+  }
+
+  // -------------------------------------------------------------------------
+  // Users
+  // -------------------------------------------------------------------------
+
+  private findUsers(p: Params): unknown[] {
+    const find = (p.find ?? '').toLowerCase();
+    const exact = p.exact_username_match === 'true' || p.exact_username_match === '1';
+    return [...this.users.values()]
+      .filter(u => {
+        if (!find) return true;
+        if (exact) return u.username.toLowerCase() === find;
+        return String(u.ref) === find
+          || [u.username, u.fullname, u.email].some(v => v.toLowerCase().includes(find));
+      })
+      .map(({ password: _password, apiKey: _apiKey, ...row }) => row);
+  }
+
+  private newUser(p: Params): number | false {
+    if (!p.username || this.getUser(p.username)) return false;
+    return this.addUser({ username: p.username, usergroup: toInt(p.usergroup) }).ref;
+  }
+
+  /** Like RS, accepts any user column — the client must restrict what it sends. */
+  private saveUser(p: Params): unknown {
+    const user = this.users.get(toInt(p.ref));
+    if (!user) return { status: 'fail', data: { message: `User ${p.ref} not found` } };
+    let data: unknown;
+    try {
+      data = JSON.parse(p.data ?? '');
+    } catch {
+      return { status: 'fail', data: { message: 'Invalid data' } };
+    }
+    for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+      if (key === 'ref' || key === 'apiKey') continue;
+      user[key] = typeof user[key] === 'number' ? Number(value) : value;
+    }
+    return { status: 'success', data: null };
+  }
+
+  /** Returns a new session key, or false for bad credentials or unapproved users. */
+  private login(username: string | undefined, password: string | undefined): string | false {
+    const user = username ? this.getUser(username) : undefined;
+    if (!user || user.approved === 0 || !password || user.password !== password) return false;
+    const key = crypto.randomBytes(16).toString('hex');
+    this.sessions.set(key, user.ref);
+    return key;
+  }
+}
+
+function json(status: number, value: unknown): FakeRSResponse {
+  return { status, body: JSON.stringify(value) };
+}
+
+function toInt(value: string | undefined): number {
+  return Number.parseInt(value ?? '', 10);
+}
+
+function csvInts(value: string | undefined): number[] {
+  return (value ?? '').split(',').map(v => toInt(v.trim())).filter(Number.isFinite);
+}
+
+/** Split on `separator` outside double quotes, dropping empty parts */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  const quoted = trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"');
+  return quoted ? trimmed.slice(1, -1) : trimmed;
+}
+
+/** RS datetime format: `YYYY-MM-DD HH:MM:SS` */
+function rsDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function stringifyNumbers(value: unknown): unknown {
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(stringifyNumbers);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, stringifyNumbers(v)]));
+  }
+  return value;
+}
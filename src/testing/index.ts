@@ -0,0 +1,14 @@
+// Test doubles, published as `@magnolia/resourcespace/testing` so they
+// stay out of the main entry (and out of production bundles).
+export { FakeResourceSpace } from './fake-rs.js';
+export type {
+  FakeRSOptions,
+  FakeRSUser,
+  FakeRSUserSeed,
+  FakeRSResourceSeed,
+  FakeRSCollectionSeed,
+  FakeRSQuirk,
+  FakeRSCall,
+  FakeRSResponse,
+  FakeRSServer,
+} from './fake-rs.js';
@@ -0,0 +1,177 @@
+// ---------------------------------------------------------------------------
+// Minimal runtime decoders for RS responses.
+//
+// A decoder coerces what RS is known to send loosely (numbers as strings)
+// and reports everything else as an issue instead of throwing, so the
+// caller decides whether issues are fatal (strict) or only logged (lenient).
+// Values that cannot be decoded are passed through unchanged.
+// ---------------------------------------------------------------------------
+
+/** A response value that did not match its decoder */
+export interface DecodeIssue {
+  /** Location in the response, e.g. `[3].ref` */
+  path: string;
+  message: string;
+}
+
+export interface Decoder<T> {
+  /** Decode `value`, appending any problems to `issues`. */
+  decode(value: unknown, issues: DecodeIssue[], path?: string): T;
+  /** True for decoders made with `optional` — the key may be absent */
+  readonly optional?: boolean;
+}
+
+/** The type a decoder produces */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+type Shape = Record<string, Decoder<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { readonly optional: true } ? K : never;
+}[keyof S];
+
+/** Object type of a shape: optional decoders become optional keys */
+export type ShapeType<S extends Shape> =
+  & { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> }
+  & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function issue(issues: DecodeIssue[], path: string, expected: string, value: unknown): void {
+  issues.push({ path: path || '(root)', message: `expected ${expected}, got ${describe(value)}` });
+}
+
+/** A number. Numeric strings (`"42"`) are converted. */
+export const number: Decoder<number> = {
+  decode(value, issues, path = '') {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && NUMERIC.test(value.trim())) return Number(value);
+    issue(issues, path, 'number', value);
+    return value as number;
+  },
+};
+
+/** A string. Numbers are converted (RS sends e.g. numeric names as numbers). */
+export const string: Decoder<string> = {
+  decode(value, issues, path = '') {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    issue(issues, path, 'string', value);
+    return value as string;
+  },
+};
+
+/** A boolean. RS flags `0`/`1` (numbers or strings) are converted. */
+export const boolean: Decoder<boolean> = {
+  decode(value, issues, path = '') {
+    if (typeof value === 'boolean') return value;
+    if (value === 0 || value === 1 || value === '0' || value === '1') return Number(value) === 1;
+    issue(issues, path, 'boolean', value);
+    return value as boolean;
+  },
+};
+
+/** `inner`, or null */
+export function nullable<T>(inner: Decoder<T>): Decoder<T | null> {
+  return {
+    decode: (value, issues, path = '') => (value === null ? null : inner.decode(value, issues, path)),
+  };
+}
+
+/**
+ * An object key that may be absent. Null counts as absent unless `inner`
+ * accepts it (see `nullable`).
+ */
+export function optional<T>(inner: Decoder<T>): Decoder<T | undefined> & { readonly optional: true } {
+  return {
+    optional: true,
+    decode(value, issues, path = '') {
+      if (value === undefined) return undefined;
+      if (value === null) {
+        const nullIssues: DecodeIssue[] = [];
+        const result = inner.decode(value, nullIssues, path);
+        return nullIssues.length === 0 ? result : undefined;
+      }
+      return inner.decode(value, issues, path);
+    },
+  };
+}
+
+/** `a` if the value decodes as `a` without issues, otherwise `b` */
+export function oneOf<A, B>(a: Decoder<A>, b: Decoder<B>): Decoder<A | B> {
+  return {
+    decode(value, issues, path = '') {
+      for (const decoder of [a, b] as Array<Decoder<A | B>>) {
+        const attempt: DecodeIssue[] = [];
+        const result = decoder.decode(value, attempt, path);
+        if (attempt.length === 0) return result;
+      }
+      return a.decode(value, issues, path);
+    },
+  };
+}
+
+export function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return {
+    decode(value, issues, path = '') {
+      if (!Array.isArray(value)) {
+        issue(issues, path, 'array', value);
+        return value as T[];
+      }
+      return value.map((v, i) => item.decode(v, issues, `${path}[${i}]`));
+    },
+  };
+}
+
+/**
+ * An object with the given keys. Keys not in the shape are kept as they
+ * are — RS rows carry many columns, and `field<N>` data joins.
+ */
+export function object<S extends Shape>(shape: S): Decoder<ShapeType<S> & Record<string, unknown>> {
+  return {
+    decode(value, issues, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issue(issues, path, 'object', value);
+        return value as ShapeType<S> & Record<string, unknown>;
+      }
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...input };
+      for (const [key, decoder] of Object.entries(shape)) {
+        const keyPath = path ? `${path}.${key}` : key;
+        if (!(key in input) && !decoder.optional) {
+          issues.push({ path: keyPath, message: 'required field missing' });
+          continue;
+        }
+        const decoded = decoder.decode(input[key], issues, keyPath);
+        if (decoded === undefined) delete result[key];
+        else result[key] = decoded;
+      }
+      return result as ShapeType<S> & Record<string, unknown>;
+    },
+  };
+}
+
+/** An object used as a map: every value decodes with `item` */
+export function record<T>(item: Decoder<T>): Decoder<Record<string, T>> {
+  return {
+    decode(value, issues, path = '') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issue(issues, path, 'object', value);
+        return value as Record<string, T>;
+      }
+      const result: Record<string, T> = {};
+      for (const [key, v] of Object.entries(value)) {
+        result[key] = item.decode(v, issues, path ? `${path}.${key}` : key);
+      }
+      return result;
+    },
+  };
+}
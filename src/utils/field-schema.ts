@@ -0,0 +1,223 @@
+import type { RSClientCore } from '../core/client.js';
+import type { FieldDefinition, Node, ResourceType, RSRequestOptions } from '../core/types.js';
+import type { FieldsCapability } from '../capabilities/fields.js';
+import type { SystemCapability } from '../capabilities/system.js';
+import type { DecodeIssue } from './decode.js';
+import { array, object, record } from './decode.js';
+import {
+  fieldDefinitionDecoder,
+  nodeDecoder,
+  nodeListDecoder,
+  resourceTypeDecoder,
+} from '../core/decoders.js';
+import { ValidationError } from '../core/errors.js';
+import { ensureArray } from './response.js';
+
+// ---------------------------------------------------------------------------
+// Field-schema code generation.
+//
+// `captureFieldSchema` reads an instance's fields, resource types and fixed
+// node options into a JSON-safe snapshot; `generateFieldSchemaModule` turns
+// a snapshot into TypeScript source. Output is deterministic so a
+// generated file can be checked in and diffed in CI.
+// ---------------------------------------------------------------------------
+
+/** Field types with a fixed option list: checkbox, dropdown, category tree, radio */
+const FIXED_OPTION_TYPES: ReadonlySet<number> = new Set([2, 3, 7, 12]);
+/** Field types holding several nodes: checkbox, category tree, dynamic keywords */
+const MULTI_NODE_TYPES: ReadonlySet<number> = new Set([2, 7, 9]);
+/** Max get_nodes calls in flight at once while capturing */
+const NODE_CONCURRENCY = 4;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** What the generator reads from an instance. Serialize with JSON.stringify. */
+export interface FieldSchemaSnapshot {
+  resourceTypes: ResourceType[];
+  fields: FieldDefinition[];
+  /** Nodes of fixed-option fields, keyed by field ID */
+  nodes: Record<string, Node[]>;
+}
+
+const snapshotDecoder = object({
+  resourceTypes: array(resourceTypeDecoder),
+  fields: array(fieldDefinitionDecoder),
+  nodes: record(array(nodeDecoder)),
+});
+
+/**
+ * Read the field schema of a live instance. Node options are fetched for
+ * fixed-option fields only; dynamic keyword lists are open-ended. Each
+ * field's nodes, category trees included, take one recursive `get_nodes`,
+ * at most four at a time.
+ */
+export async function captureFieldSchema(
+  client: RSClientCore & FieldsCapability & SystemCapability,
+  requestOptions?: RSRequestOptions,
+): Promise<FieldSchemaSnapshot> {
+  const [resourceTypes, fields] = await Promise.all([
+    client.getResourceTypes(requestOptions),
+    client.getFields(undefined, requestOptions),
+  ]);
+
+  const withOptions = fields.filter(f => FIXED_OPTION_TYPES.has(f.type));
+  const lists: Node[][] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < withOptions.length) {
+      const index = next++;
+      try {
+        // Every level of a category tree at once, each node with its parent
+        const ref = withOptions[index].ref;
+        const data = await client.call('get_nodes', { ref, recursive: 1 }, requestOptions);
+        lists[index] = depthFirst(client.decode(nodeListDecoder, ensureArray(data), 'get_nodes'));
+      } catch (error) {
+        next = withOptions.length; // Start no more calls
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(NODE_CONCURRENCY, withOptions.length) }, worker));
+
+  const nodes: Record<string, Node[]> = {};
+  withOptions.forEach((field, i) => { nodes[field.ref] = lists[i]; });
+
+  return { resourceTypes, fields, nodes };
+}
+
+/** Order a flat node list parent-first, each node followed by its subtree */
+function depthFirst(nodes: Node[]): Node[] {
+  const refs = new Set(nodes.map(n => n.ref));
+  const children = new Map<number | null, Node[]>();
+  for (const node of nodes) {
+    const parent = node.parent !== null && refs.has(node.parent) ? node.parent : null;
+    const siblings = children.get(parent);
+    if (siblings) siblings.push(node);
+    else children.set(parent, [node]);
+  }
+  const visit = (node: Node): Node[] => [node, ...(children.get(node.ref) ?? []).flatMap(visit)];
+  return (children.get(null) ?? []).flatMap(visit);
+}
+
+/**
+ * Parse a snapshot saved from `captureFieldSchema`, e.g. to generate in
+ * CI without access to RS. Throws ValidationError if it is malformed.
+ */
+export function parseFieldSchemaSnapshot(json: string): FieldSchemaSnapshot {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(`Field schema snapshot is not valid JSON: ${message}`);
+  }
+  const issues: DecodeIssue[] = [];
+  const snapshot = snapshotDecoder.decode(value, issues);
+  if (issues.length > 0) {
+    const shown = issues.slice(0, 3).map(i => `${i.path}: ${i.message}`).join('; ');
+    throw new ValidationError(`Invalid field schema snapshot: ${shown}`);
+  }
+  return snapshot;
+}
+
+/** A single-quoted TypeScript string literal */
+function literal(value: string): string {
+  const escaped = JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'");
+  return `'${escaped}'`;
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : literal(name);
+}
+
+/** `photo_date` → `PhotoDate`; falls back when nothing usable is left */
+function pascalCase(name: string, fallback: string): string {
+  const words = name.normalize('NFKD').replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const joined = words.map(w => w[0].toUpperCase() + w.slice(1)).join('');
+  return /^[A-Za-z]/.test(joined) ? joined : fallback;
+}
+
+/** Comment text that cannot close the comment */
+function commentText(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim();
+}
+
+/** Hand out type names, disambiguating clashes with the given suffix */
+function nameAllocator(): (name: string, clashSuffix: string) => string {
+  const used = new Set<string>();
+  return (name, clashSuffix) => {
+    const chosen = used.has(name) ? `${name}${clashSuffix}` : name;
+    used.add(chosen);
+    return chosen;
+  };
+}
+
+/**
+ * Generate a TypeScript module from a snapshot:
+ * - `Fields`: field IDs keyed by shortname, and a `FieldName` union
+ * - `ResourceTypes`: resource type IDs keyed by name
+ * - `<Field>Option`: a string-literal union per fixed-option field
+ * - `<ResourceType>Metadata`: an interface per resource type with its
+ *   global and type-specific fields, keyed by shortname
+ *
+ * Fields without a usable shortname are left out, as are later fields
+ * reusing a shortname. A resource type sharing an earlier type's name
+ * gets an interface but no `ResourceTypes` entry.
+ */
+export function generateFieldSchemaModule(snapshot: FieldSchemaSnapshot): string {
+  const seen = new Set<string>();
+  const fields = [...snapshot.fields]
+    .sort((a, b) => a.ref - b.ref)
+    .filter(f => /^[a-z0-9_]+$/i.test(f.name) && !seen.has(f.name) && seen.add(f.name));
+  const resourceTypes = [...snapshot.resourceTypes].sort((a, b) => a.ref - b.ref);
+  const typeNames = new Set<string>();
+  const namedTypes = resourceTypes.filter(t => !typeNames.has(t.name) && typeNames.add(t.name));
+  const allocate = nameAllocator();
+  allocate('FieldName', '');
+  const out: string[] = [
+    '// Generated by @magnolia/resourcespace generateFieldSchemaModule. Do not edit.',
+    '',
+    '/** Field IDs by shortname */',
+    'export const Fields = {',
+    ...fields.map(f => `  ${propertyKey(f.name)}: ${f.ref},`),
+    '} as const;',
+    '',
+    'export type FieldName = keyof typeof Fields;',
+    '',
+    '/** Resource type IDs by name */',
+    'export const ResourceTypes = {',
+    ...namedTypes.map(t => `  ${propertyKey(t.name)}: ${t.ref},`),
+    '} as const;',
+  ];
+
+  const optionTypes = new Map<number, string>();
+  for (const field of fields) {
+    const nodes = snapshot.nodes[field.ref];
+    if (!FIXED_OPTION_TYPES.has(field.type) || !nodes) continue;
+    const name = allocate(`${pascalCase(field.name, `Field${field.ref}`)}Option`, String(field.ref));
+    const names = [...new Set(nodes.map(n => n.name))];
+    optionTypes.set(field.ref, name);
+    out.push('', `/** Options of ${commentText(field.title)} (field ${field.ref}) */`);
+    out.push(names.length === 0
+      ? `export type ${name} = never;`
+      : `export type ${name} =\n${names.map(n => `  | ${literal(n)}`).join('\n')};`);
+  }
+
+  const valueType = (field: FieldDefinition): string => {
+    const option = optionTypes.get(field.ref) ?? 'string';
+    return MULTI_NODE_TYPES.has(field.type) ? `${option}[]` : option;
+  };
+
+  for (const type of resourceTypes) {
+    const name = allocate(`${pascalCase(type.name, `ResourceType${type.ref}`)}Metadata`, String(type.ref));
+    const own = fields.filter(f => !f.resource_type || f.resource_type === type.ref);
+    out.push('', `/** Metadata of ${commentText(type.name)} resources (resource type ${type.ref}) */`);
+    out.push(`export interface ${name} {`);
+    for (const field of own) {
+      out.push(`  /** ${commentText(field.title || field.name)} (field ${field.ref}) */`);
+      out.push(`  ${propertyKey(field.name)}?: ${valueType(field)};`);
+    }
+    out.push('}');
+  }
+
+  return `${out.join('\n')}\n`;
+}
@@ -50,3 +50,19 @@ export function buildSignedQuery(
 
   return { query, sign };
 }
+
+/**
+ * Canonical, order-independent string form of request params.
+ * Used to identify identical calls (cache keys, request coalescing) —
+ * NOT for signing, where the original order must be kept.
+ */
+export function canonicalizeParams(params: Record<string, string | number | boolean>): string {
+  const qs = new URLSearchParams();
+  for (const key of Object.keys(params).sort()) {
+    const value = params[key];
+    if (value !== undefined && value !== null) {
+      qs.append(key, String(value));
+    }
+  }
+  return qs.toString();
+}
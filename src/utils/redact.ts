@@ -0,0 +1,37 @@
+/** Fields that must NEVER appear in log output or telemetry */
+const SENSITIVE_PARAM_KEYS = new Set(['password', 'secret', 'key', 'session_key']);
+
+/**
+ * Redact sensitive values from params before logging. Params holding JSON
+ * (e.g. save_user's `data`, which may carry a password) are redacted inside.
+ */
+export function redactParams(params: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(params)) {
+    result[k] = SENSITIVE_PARAM_KEYS.has(k) ? '***' : typeof v === 'string' ? redactJson(v) : v;
+  }
+  return result;
+}
+
+/** Redact sensitive keys at any depth of a JSON value (e.g. a response body) */
+export function redactDeep(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactDeep);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      result[k] = SENSITIVE_PARAM_KEYS.has(k) ? '***' : redactDeep(v);
+    }
+    return result;
+  }
+  return value;
+}
+
+/** A string with sensitive keys redacted inside it, if it is a JSON object or array */
+function redactJson(value: string): string {
+  if (!/^\s*[[{]/.test(value)) return value;
+  try {
+    return JSON.stringify(redactDeep(JSON.parse(value)));
+  } catch {
+    return value;
+  }
+}
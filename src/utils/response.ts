@@ -1,4 +1,10 @@
-import { ResourceSpaceError, PermissionError } from '../core/errors.js';
+import {
+  ResourceSpaceError,
+  PermissionError,
+  NotFoundError,
+  ServerError,
+  InvalidResponseError,
+} from '../core/errors.js';
 
 /** Error-like strings RS embeds in 200 responses */
 const ERROR_PATTERNS = [
@@ -7,6 +13,62 @@ const ERROR_PATTERNS = [
   'access denied',
 ] as const;
 
+/** RS strings meaning the caller may not do this (or is not authenticated) */
+const PERMISSION_PATTERNS = [
+  'permission denied',
+  'access denied',
+  'invalid signature',
+] as const;
+
+/** RS strings meaning the requested item does not exist */
+const NOT_FOUND_PATTERNS = [
+  'not found',
+  'does not exist',
+  'no such',
+] as const;
+
+/** PHP errors leaking into the response body */
+const SERVER_ERROR_PATTERNS = [
+  'fatal error',
+  'parse error',
+  'uncaught exception',
+  'internal server error',
+] as const;
+
+/**
+ * Messages that only mean an error at the start of a string body; inside
+ * one they may be ordinary text (e.g. a field value mentioning a parse error)
+ */
+const ERROR_PREFIXES = ['invalid signature', ...SERVER_ERROR_PATTERNS] as const;
+
+/** PHP's own error output, as HTML or plain text: "<b>Fatal error</b>", "PHP Parse error:" */
+const PHP_ERROR_OUTPUT = /<b>\s*(?:fatal|parse) error\s*<\/b>|\bphp (?:fatal|parse) error:/i;
+
+/**
+ * Map an RS error message to the most specific error class.
+ * Used for error strings and `{error: "..."}` objects alike.
+ */
+export function classifyRSError(functionName: string, message: string): ResourceSpaceError {
+  const detail = message.substring(0, 200);
+  const lower = message.toLowerCase();
+
+  if (PERMISSION_PATTERNS.some(p => lower.includes(p))) {
+    return new PermissionError(functionName, detail);
+  }
+  if (SERVER_ERROR_PATTERNS.some(p => lower.includes(p))) {
+    return new ServerError(functionName, undefined, detail);
+  }
+  if (NOT_FOUND_PATTERNS.some(p => lower.includes(p))) {
+    return new NotFoundError(functionName, detail);
+  }
+  return new ResourceSpaceError(
+    `ResourceSpace API error: ${detail}`,
+    functionName,
+    undefined,
+    detail,
+  );
+}
+
 /**
  * Normalize a raw RS API response.
  *
@@ -33,20 +95,14 @@ export function normalizeResponse<T>(
     // Check for error strings in the response body
     const lower = data.toLowerCase();
 
-    // Check permission errors first (specific)
-    if (lower.includes('permission denied') || lower.includes('access denied')) {
-      throw new PermissionError(functionName, data.substring(0, 200));
-    }
-
-    // Check for error patterns: "error:", "Error - ...", "Error ..." etc.
-    const isError = lower.startsWith('error') || ERROR_PATTERNS.some(p => lower.includes(p));
+    // Errors are recognised by "error:", "Error - ...", "Error ..." etc.,
+    // a known error message at the start, or PHP's error output
+    const isError = lower.startsWith('error')
+      || ERROR_PATTERNS.some(p => lower.includes(p))
+      || ERROR_PREFIXES.some(p => lower.trimStart().startsWith(p))
+      || PHP_ERROR_OUTPUT.test(data);
     if (isError) {
-      throw new ResourceSpaceError(
-        `ResourceSpace API error: ${data.substring(0, 200)}`,
-        functionName,
-        undefined,
-        data.substring(0, 200),
-      );
+      throw classifyRSError(functionName, data);
     }
 
     // Try to parse as JSON (RS sometimes returns JSON-encoded strings)
@@ -54,6 +110,11 @@ export function normalizeResponse<T>(
       const parsed = JSON.parse(data);
       return parsed as T;
     } catch {
+      // RS never answers with markup — this is a proxy error page, a login
+      // redirect or a wrong baseUrl
+      if (data.trimStart().startsWith('<')) {
+        throw new InvalidResponseError(functionName, `HTML instead of JSON: ${data.substring(0, 100)}`);
+      }
       // Not JSON — return as-is (valid for get_resource_path which returns a URL string)
       return data as T;
     }
@@ -62,12 +123,7 @@ export function normalizeResponse<T>(
   // Handle error objects
   if (typeof data === 'object' && data !== null && 'error' in data) {
     const errorMsg = (data as { error?: string }).error || 'Unknown error';
-    throw new ResourceSpaceError(
-      `ResourceSpace API error: ${errorMsg}`,
-      functionName,
-      undefined,
-      errorMsg,
-    );
+    throw classifyRSError(functionName, String(errorMsg));
   }
 
   return data as T;
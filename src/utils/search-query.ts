@@ -0,0 +1,163 @@
+import { ValidationError, validateId } from '../core/errors.js';
+
+// ---------------------------------------------------------------------------
+// Builder for RS search strings.
+//
+// RS splits a search on commas and reads `:`, `;`, leading `-`/`!`/`@@`
+// and whitespace as syntax, so values are double-quoted whenever they
+// contain any of those. RS has no escape for a double quote inside a
+// quoted value; such values are rejected rather than silently altered.
+// ---------------------------------------------------------------------------
+
+/** Characters that change how RS reads an unquoted value */
+const NEEDS_QUOTES = /[\s,:;]|^[-!@]/;
+const FIELD_SHORTNAME = /^[a-z0-9_]+$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Date bounds of a range search. Either end may be left open. */
+export interface SearchDateRange {
+  /** Inclusive start, as a Date or `YYYY-MM-DD` */
+  from?: Date | string;
+  /** Inclusive end, as a Date or `YYYY-MM-DD` */
+  to?: Date | string;
+}
+
+function quote(value: string, what: string): string {
+  const trimmed = value.trim();
+  if (trimmed === '') throw new ValidationError(`${what} must not be empty`);
+  if (trimmed.includes('"')) {
+    throw new ValidationError(`${what} cannot contain a double quote (RS has no escape for it): ${value}`);
+  }
+  return NEEDS_QUOTES.test(trimmed) ? `"${trimmed}"` : trimmed;
+}
+
+function shortname(name: string): string {
+  if (!FIELD_SHORTNAME.test(name)) {
+    throw new ValidationError(`Invalid field shortname: ${JSON.stringify(name)}`);
+  }
+  return name;
+}
+
+function isoDate(value: Date | string, what: string): string {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) throw new ValidationError(`${what} is an invalid Date`);
+    return value.toISOString().slice(0, 10);
+  }
+  if (!ISO_DATE.test(value)) throw new ValidationError(`${what} must be YYYY-MM-DD, got: ${value}`);
+  return value;
+}
+
+/**
+ * Composes an RS search string term by term. Every term must match
+ * (RS ANDs comma-separated terms); use `anyOf` for alternatives.
+ *
+ * @example
+ * const query = new SearchQuery()
+ *   .keywords('sunset')
+ *   .exclude('night')
+ *   .field(8, 'Paris, France')
+ *   .collection(42);
+ * await client.search(query);
+ * // sunset, -night, !field8="Paris, France", !collection42
+ */
+export class SearchQuery {
+  private readonly terms: string[] = [];
+
+  /** Keywords that must all match. A multi-word keyword is searched as a phrase. */
+  keywords(...words: string[]): this {
+    for (const word of words) this.terms.push(quote(word, 'Keyword'));
+    return this;
+  }
+
+  /** Keywords that must not match */
+  exclude(...words: string[]): this {
+    for (const word of words) this.terms.push(`-${quote(word, 'Excluded keyword')}`);
+    return this;
+  }
+
+  /** Exact value of a field (`!field<ID>=<value>`) */
+  field(fieldId: number, value: string): this {
+    validateId(fieldId, 'field ID');
+    this.terms.push(`!field${fieldId}=${quote(value, 'Field value')}`);
+    return this;
+  }
+
+  /** Keyword within a single field, by shortname (`<name>:<value>`) */
+  fieldKeyword(name: string, value: string): this {
+    this.terms.push(`${shortname(name)}:${quote(value, 'Field keyword')}`);
+    return this;
+  }
+
+  /** OR group: the field matches at least one of the values (`<name>:<a>;<b>`) */
+  anyOf(name: string, values: string[]): this {
+    if (values.length === 0) throw new ValidationError('anyOf needs at least one value');
+    const alternatives = values.map(v => quote(v, 'Field keyword')).join(';');
+    this.terms.push(`${shortname(name)}:${alternatives}`);
+    return this;
+  }
+
+  /** Date field within a range (`<name>:rangestart<from>end<to>`) */
+  dateRange(name: string, range: SearchDateRange): this {
+    if (range.from === undefined && range.to === undefined) {
+      throw new ValidationError('dateRange needs a start, an end, or both');
+    }
+    const start = range.from === undefined ? '' : `start${isoDate(range.from, 'Range start')}`;
+    const end = range.to === undefined ? '' : `end${isoDate(range.to, 'Range end')}`;
+    this.terms.push(`${shortname(name)}:range${start}${end}`);
+    return this;
+  }
+
+  /** Resources in a collection (`!collection<ID>`) */
+  collection(collectionId: number): this {
+    validateId(collectionId, 'collection ID');
+    this.terms.push(`!collection${collectionId}`);
+    return this;
+  }
+
+  /** Resources with the given refs (`!list<ref>:<ref>...`) */
+  list(refs: number[]): this {
+    if (refs.length === 0) throw new ValidationError('list needs at least one resource ref');
+    for (const ref of refs) validateId(ref, 'resource ref');
+    this.terms.push(`!list${refs.join(':')}`);
+    return this;
+  }
+
+  /** Resources related to a resource (`!related<ref>`) */
+  related(ref: number): this {
+    validateId(ref, 'resource ref');
+    this.terms.push(`!related${ref}`);
+    return this;
+  }
+
+  /** Resources tagged with at least one of the nodes (`@@<ref>@@<ref>...`) */
+  node(...refs: number[]): this {
+    if (refs.length === 0) throw new ValidationError('node needs at least one node ref');
+    for (const ref of refs) validateId(ref, 'node ref');
+    this.terms.push(refs.map(ref => `@@${ref}`).join(''));
+    return this;
+  }
+
+  /** Resources with any value in a field (`!hasdata<ID>`) */
+  hasData(fieldId: number): this {
+    validateId(fieldId, 'field ID');
+    this.terms.push(`!hasdata${fieldId}`);
+    return this;
+  }
+
+  /** Resources with no value in a field (`!empty<ID>`) */
+  empty(fieldId: number): this {
+    validateId(fieldId, 'field ID');
+    this.terms.push(`!empty${fieldId}`);
+    return this;
+  }
+
+  /** True if no terms have been added (an empty search matches everything) */
+  get isEmpty(): boolean {
+    return this.terms.length === 0;
+  }
+
+  /** The search string, as passed to do_search */
+  toString(): string {
+    return this.terms.join(', ');
+  }
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PassThrough, Writable } from 'node:stream';
+import { withResources } from '../../src/capabilities/resources.js';
+import { withDownload } from '../../src/capabilities/download.js';
+import {
+  ChecksumMismatchError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from '../../src/core/errors.js';
+import type { RSRequestInit } from '../../src/core/types.js';
+import { createTestCore } from '../helpers.js';
+
+const FILE_URL = 'https://dam.example.com/filestore/1/1_abc.jpg';
+const md5 = (data: Buffer | string) => crypto.createHash('md5').update(data).digest('hex');
+
+interface FileServerOptions {
+  checksum?: string | null;
+  /** Per file request: bytes sent before the connection drops */
+  cuts?: number[];
+  /** Answer Range requests with the whole file */
+  ignoreRange?: boolean;
+  status?: number;
+  /** Per file request: bytes sent before the connection stalls until aborted */
+  stalls?: number[];
+}
+
+/** A transport answering get_resource_path/get_resource_data and serving `file` */
+function fileServer(file: Buffer, options: FileServerOptions = {}) {
+  const { checksum = md5(file), cuts = [], ignoreRange = false, status = 200, stalls = [] } = options;
+  const fileRequests: Array<Record<string, string>> = [];
+  const cancelled = vi.fn();
+  const released = vi.fn();
+  const json = (body: unknown) => ({ status: 200, text: () => Promise.resolve(JSON.stringify(body)) });
+
+  const transport = vi.fn(async (url: string, init: RSRequestInit) => {
+    const fn = new URL(url).searchParams.get('function');
+    if (fn === 'get_resource_path') return json(FILE_URL);
+    if (fn === 'get_resource_data') {
+      return json({
+        ref: 1, resource_type: 1, has_image: 1, is_transcoding: 0,
+        image_red: null, image_green: null, image_blue: null, thumb_width: null, thumb_height: null,
+        file_modified: null, file_checksum: checksum, file_extension: 'jpg', preview_extension: 'jpg',
+        creation_date: '2024-01-01 00:00:00', rating: null, user_rating: null, user_rating_count: null,
+        user_rating_total: null, access: 0,
+      });
+    }
+
+    fileRequests.push(init.headers);
+    if (status !== 200) {
+      const errorBody = { cancel: cancelled, async* [Symbol.asyncIterator]() { /* no bytes */ } };
+      return { status, text: () => Promise.resolve(''), body: errorBody };
+    }
+    const range = /^bytes=(\d+)-$/.exec(init.headers.Range ?? '');
+    const start = range && !ignoreRange ? Number(range[1]) : 0;
+    const headers = new Headers({ 'content-length': String(file.length - start), etag: '"v1"' });
+    if (start > 0) headers.set('content-range', `bytes ${start}-${file.length - 1}/${file.length}`);
+    const cut = cuts.shift() ?? Infinity;
+    const stall = stalls.shift() ?? Infinity;
+    const signal = init.signal!;
+    async function* body() {
+      try {
+        for (let offset = start; offset < file.length; offset += 10_000) {
+          const end = Math.min(offset + 10_000, file.length, start + cut, start + stall);
+          if (end > offset) yield new Uint8Array(file.subarray(offset, end));
+          if (end === start + cut) throw new Error('socket hang up');
+          if (end === start + stall) {
+            await new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+          }
+        }
+      } finally {
+        released();
+      }
+    }
+    return { status: start > 0 ? 206 : 200, text: () => Promise.resolve(''), headers, body: body() };
+  });
+  const client = withDownload(withResources(createTestCore({ transport, retry: { baseDelayMs: 0 } })));
+  return { client, transport, fileRequests, cancelled, released };
+}
+
+/** Everything written to `stream` so far */
+function collect(stream: PassThrough): () => Buffer {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk));
+  return () => Buffer.concat(chunks);
+}
+
+/** A writable that discards what it is given */
+const discard = () => new PassThrough().resume();
+
+const tempDirs: string[] = [];
+function tempFile(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rs-download-'));
+  tempDirs.push(dir);
+  return path.join(dir, 'file.jpg');
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const file = crypto.randomBytes(64_000);
+
+describe('downloadResource()', () => {
+  it('streams the original to a writable and verifies its checksum', async () => {
+    const { client, transport } = fileServer(file);
+    const out = new PassThrough();
+    const contents = collect(out);
+    const onProgress = vi.fn();
+
+    const result = await client.downloadResource(1, out, { onProgress });
+
+    expect(result).toEqual({ url: FILE_URL, bytes: file.length, resumes: 0, checksumVerified: true });
+    expect(contents().equals(file)).toBe(true);
+    const pathCall = transport.mock.calls.find(([url]) => url.includes('function=get_resource_path'));
+    expect(new URL(pathCall![0]).searchParams.get('size')).toBe('');
+    expect(onProgress).toHaveBeenCalledTimes(7);
+    expect(onProgress).toHaveBeenLastCalledWith({ bytesReceived: file.length, totalBytes: file.length });
+  });
+
+  it('continues an interrupted transfer with a Range request', async () => {
+    const { client, fileRequests } = fileServer(file, { cuts: [25_000] });
+    const target = tempFile();
+
+    const result = await client.downloadResource(1, target);
+
+    expect(result).toMatchObject({ bytes: file.length, resumes: 1, checksumVerified: true });
+    expect(fileRequests[1]).toMatchObject({ Range: 'bytes=25000-', 'If-Range': '"v1"' });
+    expect(fs.readFileSync(target).equals(file)).toBe(true);
+  });
+
+  it('resumes a partial file from an earlier run', async () => {
+    // RS's default checksum: MD5 of the first 50 kB followed by the file size
+    const checksum = md5(Buffer.concat([file.subarray(0, 50_000), Buffer.from(String(file.length))]));
+    const { client, fileRequests } = fileServer(file, { checksum });
+    const target = tempFile();
+    fs.writeFileSync(target, file.subarray(0, 30_000));
+
+    const result = await client.downloadResource(1, target, { resume: true });
+
+    expect(result).toMatchObject({ bytes: file.length, resumes: 1, checksumVerified: true });
+    expect(fileRequests[0].Range).toBe('bytes=30000-');
+    expect(fs.readFileSync(target).equals(file)).toBe(true);
+  });
+
+  it('starts over when the server ignores Range', async () => {
+    const { client } = fileServer(file, { cuts: [25_000], ignoreRange: true });
+    const target = tempFile();
+
+    const result = await client.downloadResource(1, target);
+
+    expect(result).toMatchObject({ bytes: file.length, resumes: 0, checksumVerified: true });
+    expect(fs.readFileSync(target).equals(file)).toBe(true);
+
+    const { client: streaming } = fileServer(file, { cuts: [25_000], ignoreRange: true });
+    await expect(streaming.downloadResource(1, discard())).rejects.toThrow(InvalidResponseError);
+  });
+
+  it('rejects a checksum mismatch and deletes the file', async () => {
+    const { client } = fileServer(file, { checksum: md5('something else') });
+    const target = tempFile();
+
+    await expect(client.downloadResource(1, target)).rejects.toBeInstanceOf(ChecksumMismatchError);
+    expect(fs.existsSync(target)).toBe(false);
+  });
+
+  it('does not look up checksums for previews', async () => {
+    const { client, transport } = fileServer(file);
+
+    const result = await client.downloadResource(1, discard(), { size: 'scr' });
+
+    expect(result.checksumVerified).toBe(false);
+    const functions = transport.mock.calls.map(([url]) => new URL(url).searchParams.get('function'));
+    expect(functions).toEqual(['get_resource_path', null]);
+  });
+
+  it('gives up after maxResumes interruptions', async () => {
+    const { client, fileRequests } = fileServer(file, { cuts: [1000, 1000, 1000] });
+
+    await expect(client.downloadResource(1, discard(), { maxResumes: 2 }))
+      .rejects.toBeInstanceOf(NetworkError);
+    expect(fileRequests).toHaveLength(3);
+  });
+
+  it('maps HTTP errors and releases the response body', async () => {
+    const { client, cancelled } = fileServer(file, { status: 404 });
+
+    await expect(client.downloadResource(1, discard())).rejects.toBeInstanceOf(NotFoundError);
+    expect(cancelled).toHaveBeenCalled();
+  });
+
+  it('fails with the write error, without resuming, when the destination cannot be written', async () => {
+    const { client, fileRequests, released } = fileServer(file);
+    const full = new Writable({
+      write(_chunk, _encoding, callback) { callback(new Error('ENOSPC: no space left on device')); },
+    });
+
+    await expect(client.downloadResource(1, full)).rejects.toThrow('ENOSPC: no space left on device');
+    expect(fileRequests).toHaveLength(1);
+    expect(released).toHaveBeenCalled();
+  });
+
+  it('continues a stalled transfer after the timeout, then gives up with TimeoutError', async () => {
+    const { client, fileRequests } = fileServer(file, { stalls: [20_000] });
+    const out = new PassThrough();
+    const contents = collect(out);
+
+    const result = await client.downloadResource(1, out, {}, { timeout: 50 });
+
+    expect(result).toMatchObject({ bytes: file.length, resumes: 1 });
+    expect(fileRequests[1].Range).toBe('bytes=20000-');
+    expect(contents().equals(file)).toBe(true);
+
+    const { client: stuck } = fileServer(file, { stalls: [0] });
+    await expect(stuck.downloadResource(1, discard(), { maxResumes: 0 }, { timeout: 50 }))
+      .rejects.toBeInstanceOf(TimeoutError);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { createBasicClient } from '../../src/factories.js';
+import { RequestAbortedError, ValidationError } from '../../src/core/errors.js';
+import { SearchQuery } from '../../src/utils/search-query.js';
+
+function setup() {
+  const rs = new FakeResourceSpace({
+    fields: [
+      { ref: 8, name: 'title', title: 'Title', type: 0, resource_type: 0 },
+      { ref: 3, name: 'country', title: 'Country', type: 3, resource_type: 0 },
+      { ref: 20, name: 'subject', title: 'Subject', type: 7, resource_type: 0 },
+    ],
+  });
+  const france = rs.addNode('country', 'France');
+  const italy = rs.addNode('country', 'Italy');
+  const nature = rs.addNode('subject', 'Nature');
+  const birds = rs.addNode('subject', 'Birds', nature);
+  rs.addResource({ fields: { title: 'Paris sunset', country: 'France', subject: 'Nature, Birds' } });
+  rs.addResource({ fields: { title: 'Lyon sunset', country: 'France' } });
+  rs.addResource({ fields: { title: 'Rome sunset', country: 'Italy', subject: 'Nature' } });
+  rs.addResource({ fields: { title: 'Rome at night', country: 'Italy' } });
+  const client = createBasicClient({ ...rs.clientConfig(), retry: false });
+  const calls = (fn: string) => rs.calls.filter(c => c.function === fn).map(c => c.params);
+  return { rs, client, calls, nodes: { france, italy, nature, birds } };
+}
+
+describe('getFacets()', () => {
+  it('counts query results per node', async () => {
+    const { client, calls, nodes } = setup();
+
+    const [country] = await client.getFacets('sunset', [3]);
+
+    expect(country.field).toBe(3);
+    expect(country.nodes.map(n => [n.name, n.count])).toEqual([['France', 2], ['Italy', 1]]);
+    expect(calls('do_search').map(p => [p.search, p.fetchrows])).toEqual([
+      [`sunset, @@${nodes.france}`, '0,1'],
+      [`sunset, @@${nodes.italy}`, '0,1'],
+    ]);
+  });
+
+  it('returns category trees with counts on every level', async () => {
+    const { client } = setup();
+
+    const [subject] = await client.getFacets(new SearchQuery().keywords('sunset'), [20]);
+
+    expect(subject.nodes).toHaveLength(1);
+    expect(subject.nodes[0]).toMatchObject({ name: 'Nature', count: 2 });
+    expect(subject.nodes[0].children.map(n => [n.name, n.count, n.children])).toEqual([['Birds', 1, []]]);
+  });
+
+  it('counts the whole archive for an empty query', async () => {
+    const { client, calls, nodes } = setup();
+
+    const [country] = await client.getFacets('', [3]);
+
+    expect(country.nodes.map(n => n.count)).toEqual([2, 2]);
+    expect(calls('do_search')[0].search).toBe(`@@${nodes.france}`);
+  });
+
+  it('caches node trees until cleared', async () => {
+    const { rs, client, calls } = setup();
+
+    await client.getFacets('sunset', [3]);
+    rs.addNode('country', 'Spain');
+    const [cached] = await client.getFacets('sunset', [3]);
+    client.clearFacetCache();
+    const [fresh] = await client.getFacets('sunset', [3]);
+
+    expect(calls('get_nodes')).toHaveLength(2);
+    expect(cached.nodes).toHaveLength(2);
+    expect(fresh.nodes.map(n => [n.name, n.count])).toEqual([['France', 2], ['Italy', 1], ['Spain', 0]]);
+  });
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    const { rs } = setup();
+    for (const name of ['Spain', 'Greece', 'Norway', 'Chile']) rs.addNode('country', name);
+    const config = rs.clientConfig();
+    let inFlight = 0;
+    let peak = 0;
+    const client = createBasicClient({
+      ...config,
+      retry: false,
+      transport: async (url, init) => {
+        peak = Math.max(peak, ++inFlight);
+        try {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          return await config.transport!(url, init);
+        } finally {
+          inFlight--;
+        }
+      },
+    });
+
+    const [country] = await client.getFacets('sunset', [3], { concurrency: 2 });
+
+    expect(country.nodes).toHaveLength(6);
+    expect(peak).toBe(2);
+  });
+
+  it('works without admin permission to read field definitions', async () => {
+    const { rs, client, calls } = setup();
+    rs.injectQuirk('get_resource_type_fields', { kind: 'forbidden' });
+
+    const [country, subject] = await client.getFacets('sunset', [3, 20]);
+
+    expect(country.nodes.map(n => n.count)).toEqual([2, 1]);
+    expect(subject.nodes[0].children).toHaveLength(1);
+    expect(calls('get_resource_type_fields')).toHaveLength(0);
+    expect(calls('get_nodes').map(p => [p.ref, p.recursive])).toEqual([['3', '1'], ['20', '1']]);
+  });
+
+  it('returns no nodes for fields without any, and validates options', async () => {
+    const { client } = setup();
+
+    expect(await client.getFacets('', [8, 99])).toEqual([{ field: 8, nodes: [] }, { field: 99, nodes: [] }]);
+    await expect(client.getFacets('', [0])).rejects.toThrow(ValidationError);
+    await expect(client.getFacets('', [3], { concurrency: 0 })).rejects.toThrow(ValidationError);
+  });
+
+  it('cancels with the caller signal', async () => {
+    const { client } = setup();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.getFacets('', [3], {}, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('keeps loading a shared node tree when one of its callers cancels', async () => {
+    const { rs, calls } = setup();
+    const config = rs.clientConfig();
+    const client = createBasicClient({
+      ...config,
+      retry: false,
+      transport: async (url, init) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return config.transport!(url, init);
+      },
+    });
+    const controller = new AbortController();
+
+    const cancelled = client.getFacets('sunset', [3], {}, { signal: controller.signal });
+    const other = client.getFacets('sunset', [3]);
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(RequestAbortedError);
+    const [country] = await other;
+    expect(country.nodes.map(n => [n.name, n.count])).toEqual([['France', 2], ['Italy', 1]]);
+    expect(calls('get_nodes')).toHaveLength(1);
+  });
+});
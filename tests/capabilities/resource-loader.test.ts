@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { withSearch } from '../../src/capabilities/search.js';
+import { withResourceLoader } from '../../src/capabilities/resource-loader.js';
+import { ValidationError } from '../../src/core/errors.js';
+import { mockFetch, getCapturedParams, createTestCore } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('withResourceLoader', () => {
+  it('batches loads from the same tick into one do_search with !list', async () => {
+    const mock = mockFetch([{ ref: '1' }, { ref: '3' }]);
+    const client = withResourceLoader(withSearch(createTestCore()));
+
+    const [a, b, c] = await Promise.all([
+      client.loadResource(1),
+      client.loadResource(2),
+      client.loadResource(3),
+    ]);
+
+    expect(mock).toHaveBeenCalledTimes(1);
+    const params = getCapturedParams(mock);
+    expect(params.get('function')).toBe('do_search');
+    expect(params.get('search')).toBe('!list1:2:3');
+    expect(a?.ref).toBe(1); // numeric strings are decoded
+    expect(b).toBeNull(); // not returned by RS
+    expect(c?.ref).toBe(3);
+  });
+
+  it('requests the union of dataJoins', async () => {
+    const mock = mockFetch([]);
+    const client = withResourceLoader(withSearch(createTestCore()));
+
+    await Promise.all([
+      client.loadResource(1, { dataJoins: [8] }),
+      client.loadResource(2, { dataJoins: [8, 3] }),
+    ]);
+
+    expect(getCapturedParams(mock).get('data_joins')).toBe('8,3');
+  });
+
+  it('deduplicates refs and gives each caller its own object', async () => {
+    const mock = mockFetch([{ ref: 5 }]);
+    const client = withResourceLoader(withSearch(createTestCore()));
+
+    const [a, b] = await Promise.all([client.loadResource(5), client.loadResource(5)]);
+
+    expect(getCapturedParams(mock).get('search')).toBe('!list5');
+    expect(a).toEqual(b);
+    expect(a).not.toBe(b);
+  });
+
+  it('chunks batches by maxBatchSize', async () => {
+    const mock = mockFetch([]);
+    const client = withResourceLoader(withSearch(createTestCore({ maxBatchSize: 2 })));
+
+    await client.loadResources([1, 2, 3]);
+
+    expect(mock).toHaveBeenCalledTimes(2);
+  });
+
+  it('loads separate ticks in separate batches', async () => {
+    const mock = mockFetch([]);
+    const client = withResourceLoader(withSearch(createTestCore()));
+
+    await client.loadResource(1);
+    await client.loadResource(2);
+
+    expect(mock).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects every caller in a failed batch', async () => {
+    mockFetch('Error: search failed');
+    const client = withResourceLoader(withSearch(createTestCore()));
+
+    const results = await Promise.allSettled([client.loadResource(1), client.loadResource(2)]);
+
+    expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('validates refs', async () => {
+    const client = withResourceLoader(withSearch(createTestCore()));
+
+    await expect(client.loadResource(0)).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { createBasicClient } from '../../src/factories.js';
+import { RequestAbortedError, ResponseValidationError, ValidationError } from '../../src/core/errors.js';
+import type { Resource } from '../../src/core/types.js';
+
+function setup(responseValidation?: 'strict' | 'lenient') {
+  const rs = new FakeResourceSpace({
+    fields: [
+      { ref: 8, name: 'title', title: 'Title', type: 0, resource_type: 0 },
+      { ref: 3, name: 'country', title: 'Country', type: 2, resource_type: 0 },
+      { ref: 12, name: 'date', title: 'Date', type: 4, resource_type: 0 },
+      { ref: 20, name: 'pages', title: 'Pages', type: 0, resource_type: 0 },
+      { ref: 21, name: 'approved', title: 'Approved', type: 0, resource_type: 0 },
+    ],
+  });
+  rs.addNode('country', 'France');
+  rs.addNode('country', 'Spain');
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const client = createBasicClient({ ...rs.clientConfig(), retry: false, logger, responseValidation });
+  const calls = (fn: string) => rs.calls.filter(c => c.function === fn).map(c => c.params);
+  return { rs, client, logger, calls };
+}
+
+const schema = {
+  title: { field: 'title', type: 'string' },
+  countries: { field: 'country', type: 'nodes' },
+  taken: { field: 12, type: 'date' },
+  pages: { field: 'pages', type: 'number' },
+  approved: { field: 'approved', type: 'boolean' },
+} as const;
+
+describe('createResourceMapper()', () => {
+  it('joins the schema fields and maps search results to typed properties', async () => {
+    const { rs, client, calls } = setup();
+    const ref = rs.addResource({
+      fields: { title: 'Atlas', country: 'France, Spain', date: '2021-03-04 10:20:30', pages: '12', approved: 'yes' },
+    });
+    const mapper = client.createResourceMapper(schema);
+
+    const result = await mapper.search('atlas', { withTotal: true });
+
+    expect(calls('do_search')[0].data_joins).toBe('8,3,12,20,21');
+    expect(result).toMatchObject({ count: 1, total: 1, hasMore: false });
+    expect(result.resources).toEqual([{
+      ref,
+      title: 'Atlas',
+      countries: ['France', 'Spain'],
+      taken: new Date(Date.UTC(2021, 2, 4, 10, 20, 30)),
+      pages: 12,
+      approved: true,
+    }]);
+  });
+
+  it('maps empty fields to null and an empty node list', async () => {
+    const { rs, client } = setup();
+    const ref = rs.addResource();
+
+    const [resource] = await client.createResourceMapper(schema).map(
+      (await client.search(`!list${ref}`, { dataJoins: [8, 3, 12, 20, 21] })).resources,
+    );
+
+    expect(resource).toEqual({ ref, title: null, countries: [], taken: null, pages: null, approved: null });
+  });
+
+  it('maps collection resources in collection order', async () => {
+    const { rs, client, calls } = setup();
+    const first = rs.addResource({ fields: { title: 'First' } });
+    const second = rs.addResource({ fields: { title: 'Second' } });
+    const collection = rs.addCollection({ name: 'Picks', resources: [second, first] });
+    const mapper = client.createResourceMapper({ title: { field: 8, type: 'string' } });
+
+    const resources = await mapper.getCollectionResources(collection);
+
+    expect(resources).toEqual([{ ref: second, title: 'Second' }, { ref: first, title: 'First' }]);
+    expect(calls('do_search')[0].data_joins).toBe('8');
+    expect(calls('get_resource_type_fields')).toHaveLength(0);
+  });
+
+  it('resolves shortnames once per mapper', async () => {
+    const { client, calls } = setup();
+    const mapper = client.createResourceMapper(schema);
+
+    await Promise.all([mapper.dataJoins(), mapper.search(''), mapper.search('x')]);
+
+    expect(calls('get_resource_type_fields')).toHaveLength(1);
+  });
+
+  it('reports unconvertible values like other response mismatches', async () => {
+    const lenient = setup();
+    lenient.rs.addResource({ fields: { pages: 'many', date: 'last spring' } });
+    const [resource] = (await lenient.client.createResourceMapper(schema).search('')).resources;
+
+    expect(resource).toMatchObject({ pages: null, taken: null });
+    expect(lenient.logger.warn).toHaveBeenCalledWith(
+      'RS API response did not match its type: do_search',
+      expect.objectContaining({
+        issues: ['[0].field12: expected date, got "last spring"', '[0].field20: expected number, got "many"'],
+      }),
+    );
+
+    const strict = setup('strict');
+    strict.rs.addResource({ fields: { approved: 'maybe' } });
+    await expect(strict.client.createResourceMapper(schema).search('')).rejects.toThrow(ResponseValidationError);
+  });
+
+  it('resolves shortnames from fieldIds without admin-only getFields', async () => {
+    const { rs, client, calls } = setup();
+    rs.injectQuirk('get_resource_type_fields', { kind: 'forbidden' });
+    const ref = rs.addResource({ fields: { title: 'Atlas', country: 'Spain' } });
+    const mapper = client.createResourceMapper(
+      { title: { field: 'title', type: 'string' }, countries: { field: 'country', type: 'nodes' } },
+      { fieldIds: { title: 8, country: 3 } },
+    );
+
+    const result = await mapper.search('atlas');
+
+    expect(result.resources).toEqual([{ ref, title: 'Atlas', countries: ['Spain'] }]);
+    expect(calls('get_resource_type_fields')).toHaveLength(0);
+  });
+
+  it('keeps resolving shortnames when one of the waiting calls cancels', async () => {
+    const { client, calls } = setup();
+    const mapper = client.createResourceMapper(schema);
+    const controller = new AbortController();
+
+    const cancelled = mapper.dataJoins({ signal: controller.signal });
+    const other = mapper.dataJoins();
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(other).resolves.toEqual([8, 3, 12, 20, 21]);
+    expect(calls('get_resource_type_fields')).toHaveLength(1);
+  });
+
+  it('splits node lists on commas, even inside a node name', async () => {
+    const { client } = setup();
+    const mapper = client.createResourceMapper({
+      countries: { field: 3, type: 'nodes' },
+      raw: { field: 3, type: 'string' },
+    });
+
+    const [resource] = await mapper.map([{ ref: 1, field3: 'Korea, Republic of,France' } as Resource]);
+
+    expect(resource.countries).toEqual(['Korea', 'Republic of', 'France']);
+    expect(resource.raw).toBe('Korea, Republic of,France');
+  });
+
+  it('labels mismatches in rows it did not search for itself', async () => {
+    const { rs, client, logger } = setup();
+    const ref = rs.addResource({ fields: { pages: 'many' } });
+    const collection = rs.addCollection({ name: 'Picks', resources: [ref] });
+
+    await client.createResourceMapper(schema).getCollectionResources(collection);
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'RS API response did not match its type: resource-mapper',
+      expect.objectContaining({ issues: ['[0].field20: expected number, got "many"'] }),
+    );
+  });
+
+  it('rejects unknown shortnames and reserved or invalid properties', async () => {
+    const { client } = setup();
+
+    await expect(client.createResourceMapper({ x: { field: 'nope', type: 'string' } }).search(''))
+      .rejects.toThrow(ValidationError);
+    expect(() => client.createResourceMapper({ ref: { field: 8, type: 'number' } })).toThrow(ValidationError);
+    expect(() => client.createResourceMapper({ x: { field: 0, type: 'string' } })).toThrow(ValidationError);
+    await expect(client.createResourceMapper({ x: { field: 'x', type: 'string' } }, { fieldIds: { x: 0 } })
+      .search('')).rejects.toThrow(ValidationError);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
 import { withResources } from '../../src/capabilities/resources.js';
-import { mockFetch, getCapturedParams, createTestCore } from '../helpers.js';
-import { ResourceSpaceError } from '../../src/core/errors.js';
+import { mockFetch, getCapturedParams, createTestCore, mockTransport } from '../helpers.js';
+import { ResourceSpaceError, ValidationError } from '../../src/core/errors.js';
 
 afterEach(() => {
   vi.restoreAllMocks();
@@ -107,6 +107,82 @@ describe('withResources', () => {
     });
   });
 
+  describe('getResourceRenditions()', () => {
+    const files = 'https://dam.example.com/filestore/4/2';
+    const sizes = [
+      { size_code: 'thm', extension: 'jpg', url: `${files}/42thm.jpg`, width: 150, height: '100' },
+      { size_code: 'pre', extension: 'jpg', url: `${files}/42pre.jpg` },
+      { size_code: 'original', extension: 'tif', url: `${files}/42.tif` },
+    ];
+
+    it('lists renditions from get_resource_all_image_sizes with rewritten URLs', async () => {
+      const mock = mockFetch(sizes);
+      const client = withResources(createTestCore({ internalUrl: 'http://rs-internal:80/api/' }));
+
+      const renditions = await client.getResourceRenditions(42);
+
+      const params = getCapturedParams(mock);
+      expect(params.get('function')).toBe('get_resource_all_image_sizes');
+      expect(params.get('resource')).toBe('42');
+      const internal = 'http://rs-internal:80/filestore/4/2/42';
+      expect(renditions).toEqual([
+        { size: 'thm', width: 150, height: 100, extension: 'jpg', url: `${internal}thm.jpg`, exists: true },
+        { size: 'pre', width: null, height: null, extension: 'jpg', url: `${internal}pre.jpg`, exists: true },
+        { size: '', width: null, height: null, extension: 'tif', url: `${internal}.tif`, exists: true },
+      ]);
+    });
+
+    it('reports requested sizes in order, marking missing ones', async () => {
+      mockFetch({ 0: sizes[0], 2: sizes[2] });
+      const client = withResources(createTestCore());
+
+      const renditions = await client.getResourceRenditions(42, { sizes: ['', 'scr', 'thm'] });
+
+      expect(renditions.map(r => [r.size, r.exists])).toEqual([['', true], ['scr', false], ['thm', true]]);
+      expect(renditions[1]).toMatchObject({ url: null, extension: '' });
+    });
+
+    it('returns [] when RS refuses access', async () => {
+      mockFetch(false);
+      const client = withResources(createTestCore());
+
+      expect(await client.getResourceRenditions(42)).toEqual([]);
+    });
+  });
+
+  describe('getResourceRenditionsBatch()', () => {
+    it('fetches each distinct ref with limited concurrency', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const transport = vi.fn(async (url: string) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        const ref = new URL(url).searchParams.get('resource');
+        const rows = [{ size_code: 'thm', extension: 'jpg', url: `https://dam.example.com/${ref}thm.jpg` }];
+        return { status: 200, text: () => Promise.resolve(JSON.stringify(rows)) };
+      });
+      const client = withResources(createTestCore({ transport }));
+
+      const result = await client.getResourceRenditionsBatch([3, 1, 2, 3, 4], { concurrency: 2 });
+
+      expect([...result.keys()]).toEqual([3, 1, 2, 4]);
+      expect(result.get(2)?.[0].url).toBe('https://dam.example.com/2thm.jpg');
+      expect(transport).toHaveBeenCalledTimes(4);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('validates refs and concurrency before calling RS', async () => {
+      const transport = mockTransport([]);
+      const client = withResources(createTestCore({ transport }));
+
+      await expect(client.getResourceRenditionsBatch([1, -1])).rejects.toThrow(ValidationError);
+      await expect(client.getResourceRenditionsBatch([1], { concurrency: 0 }))
+        .rejects.toThrow(ValidationError);
+      expect(transport).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getResourceFieldData()', () => {
     it('calls get_resource_field_data', async () => {
       const mock = mockFetch([{ ref: 1, name: 'title', value: 'Test' }]);
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { createAdminClient } from '../../src/factories.js';
+import { withSearch } from '../../src/capabilities/search.js';
+import { RequestAbortedError, ValidationError } from '../../src/core/errors.js';
+import { createTestCore } from '../helpers.js';
+
+function setup(count: number) {
+  const rs = new FakeResourceSpace();
+  for (let i = 1; i <= count; i++) rs.addResource({ fields: { title: `photo ${i}` } });
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const client = createAdminClient({ ...rs.clientConfig(), retry: false, logger });
+  const searches = () => rs.calls.filter(c => c.function === 'do_search').map(c => c.params);
+  return { rs, client, logger, searches };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+/** A core client whose do_search answers with the given pages in turn */
+function pagedCore(pages: Array<Array<{ ref: number }>>) {
+  const transport = vi.fn();
+  for (const page of pages) {
+    transport.mockResolvedValueOnce({ status: 200, text: () => Promise.resolve(JSON.stringify(page)) });
+  }
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { client: withSearch(createTestCore({ transport, logger, retry: false })), logger };
+}
+
+describe('iterateSearch()', () => {
+  it('pages with offset and fetchrows = pageSize + 1 until a short page', async () => {
+    const { client, searches } = setup(5);
+
+    const refs = (await collect(client.iterateSearch('photo', { pageSize: 2, orderBy: 'resourceid' })))
+      .map(r => r.ref);
+
+    expect(refs).toEqual([1, 2, 3, 4, 5]);
+    expect(searches().map(p => [p.offset, p.fetchrows])).toEqual([['0', '3'], ['2', '3'], ['4', '3']]);
+  });
+
+  it('stops at maxResults without fetching past it', async () => {
+    const { client, searches } = setup(10);
+
+    const refs = (await collect(client.iterateSearch('', { pageSize: 4, maxResults: 6, orderBy: 'resourceid' })))
+      .map(r => r.ref);
+
+    expect(refs).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(searches().map(p => [p.offset, p.fetchrows])).toEqual([['0', '5'], ['4', '3']]);
+  });
+
+  it('prefetches the next page while the current one is consumed', async () => {
+    const { client, searches } = setup(6);
+    const iterator = client.iterateSearch('', { pageSize: 2, prefetch: 1, orderBy: 'resourceid' });
+
+    await iterator.next();
+    expect(searches().map(p => p.offset)).toEqual(['0', '2']);
+
+    await iterator.return(undefined);
+    expect(searches()).toHaveLength(2);
+  });
+
+  it('cancels with the caller signal', async () => {
+    const { client } = setup(4);
+    const controller = new AbortController();
+    const iterator = client.iterateSearch('', { pageSize: 2 }, { signal: controller.signal });
+
+    await iterator.next();
+    controller.abort();
+    await iterator.next();
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('skips resources repeated across pages and warns', async () => {
+    const { client, logger } = pagedCore([
+      [{ ref: 1 }, { ref: 2 }, { ref: 3 }],
+      [{ ref: 2 }, { ref: 3 }],
+    ]);
+
+    const refs = (await collect(client.iterateSearch('', { pageSize: 2, orderBy: 'date' }))).map(r => r.ref);
+
+    expect(refs).toEqual([1, 2, 3]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'RS search results shifted while paging: do_search',
+      expect.objectContaining({ duplicates: 1 }),
+    );
+  });
+
+  it('warns once when paging by an unstable order', async () => {
+    const { client, logger } = setup(5);
+
+    await collect(client.iterateSearch('', { pageSize: 1, orderBy: 'relevance' }));
+    await collect(client.iterateSearch('', { pageSize: 10, orderBy: 'relevance' }));
+    await collect(client.iterateSearch('', { pageSize: 1, orderBy: 'resourceid' }));
+
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn.mock.calls[0][0]).toBe('RS search paged with an unstable order: relevance');
+  });
+
+  it('rejects invalid paging options', async () => {
+    const { client } = setup(0);
+
+    await expect(collect(client.iterateSearch('', { pageSize: 0 }))).rejects.toThrow(ValidationError);
+    await expect(collect(client.iterateSearch('', { prefetch: -1 }))).rejects.toThrow(ValidationError);
+    await expect(collect(client.iterateSearch('', { maxResults: 1.5 }))).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('searchAll()', () => {
+  it('collects every page', async () => {
+    const { client } = setup(7);
+
+    const all = await client.searchAll('photo', { pageSize: 3, dataJoins: [8] });
+
+    expect(all).toHaveLength(7);
+    expect(all[6]).toMatchObject({ ref: 7, field8: 'photo 7' });
+  });
+});
+
+describe('iterateCollectionResources()', () => {
+  it('streams a collection in collection order', async () => {
+    const { rs, client, searches } = setup(5);
+    const collection = rs.addCollection({ name: 'Picks', resources: [4, 2, 5, 1] });
+
+    const refs = (await collect(client.iterateCollectionResources(collection, { pageSize: 3 }))).map(r => r.ref);
+
+    expect(refs).toEqual([4, 2, 5, 1]);
+    expect(searches()[0]).toMatchObject({ search: `!collection${collection}`, order_by: 'collection', sort: 'ASC' });
+    expect(searches()).toHaveLength(2);
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
 import { withSearch } from '../../src/capabilities/search.js';
+import { SearchQuery } from '../../src/utils/search-query.js';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { RSClientCore } from '../../src/core/client.js';
+import { ValidationError } from '../../src/core/errors.js';
 import { mockFetch, getCapturedParams, createTestCore } from '../helpers.js';
 
 afterEach(() => {
@@ -96,5 +100,108 @@ describe('withSearch', () => {
       expect(params.get('fetchrows')).toBe('50');
       expect(params.has('limit')).toBe(false);
     });
+
+    it('quotes values containing commas, colons or spaces', async () => {
+      const mock = mockFetch([]);
+      const client = withSearch(createTestCore());
+
+      await client.searchByField(3, 'Paris, France');
+
+      expect(getCapturedParams(mock).get('search')).toBe('!field3="Paris, France"');
+    });
+  });
+
+  it('accepts a SearchQuery', async () => {
+    const mock = mockFetch([]);
+    const client = withSearch(createTestCore());
+
+    await client.search(new SearchQuery().keywords('sunset').collection(4));
+
+    expect(getCapturedParams(mock).get('search')).toBe('sunset, !collection4');
+  });
+});
+
+describe('search() totals', () => {
+  it('asks for a structured reply and returns its total', async () => {
+    const mock = mockFetch({ total: '1234', data: [{ ref: 1 }, { ref: 2 }, { ref: 3 }] });
+    const client = withSearch(createTestCore());
+
+    const result = await client.search('cat', { offset: 40, limit: 2, withTotal: true });
+
+    const params = getCapturedParams(mock);
+    expect(params.get('fetchrows')).toBe('40,3');
+    expect(params.has('offset')).toBe(false);
+    expect(result).toMatchObject({ count: 2, offset: 40, hasMore: true, total: 1234 });
+    expect(result.resources.map(r => r.ref)).toEqual([1, 2]);
+  });
+
+  it('derives the total on the last page when RS returns a plain array', async () => {
+    mockFetch([{ ref: 1 }]);
+    const client = withSearch(createTestCore());
+
+    expect((await client.search('cat', { offset: 10, limit: 5, withTotal: true })).total).toBe(11);
+  });
+
+  it('leaves the total undefined when RS does not report it and more pages exist', async () => {
+    mockFetch([{ ref: 1 }, { ref: 2 }]);
+    const client = withSearch(createTestCore());
+
+    const result = await client.search('cat', { limit: 1, withTotal: true });
+
+    expect(result.hasMore).toBe(true);
+    expect(result).not.toHaveProperty('total');
+  });
+
+  it('counts against the fake server', async () => {
+    const rs = new FakeResourceSpace();
+    for (let i = 0; i < 7; i++) rs.addResource({ fields: { title: 'cat' } });
+    const client = withSearch(new RSClientCore({ ...rs.clientConfig(), retry: false }));
+
+    const result = await client.search('cat', { offset: 2, limit: 3, withTotal: true });
+
+    expect(result).toMatchObject({ count: 3, total: 7, hasMore: true });
+    expect(result.resources.map(r => r.ref)).toEqual([3, 4, 5]);
+  });
+});
+
+describe('searchWithPreviews()', () => {
+  it('calls search_get_previews and resolves preview URLs like getResourcePath', async () => {
+    const mock = mockFetch([{
+      ref: 5,
+      url_thm: 'https://dam.example.com/filestore/5/5thm.jpg',
+      url_pre: 'filestore/5/5pre.jpg',
+      url_scr: '',
+    }]);
+    const client = withSearch(createTestCore({ internalUrl: 'http://rs-internal/api/' }));
+
+    const result = await client.searchWithPreviews('cat', { sizes: ['thm', 'pre', 'scr'], extension: 'webp' });
+
+    const params = getCapturedParams(mock);
+    expect(params.get('function')).toBe('search_get_previews');
+    expect(params.get('getsizes')).toBe('thm,pre,scr');
+    expect(params.get('previewext')).toBe('webp');
+    expect(params.get('fetchrows')).toBe('25');
+    expect(result.resources[0].previews).toEqual({
+      thm: 'http://rs-internal/filestore/5/5thm.jpg',
+      pre: 'https://dam.example.com/filestore/5/5pre.jpg',
+    });
+  });
+
+  it('pages with "offset,rows" and returns the total', async () => {
+    const rs = new FakeResourceSpace();
+    for (let i = 0; i < 4; i++) rs.addResource({ fields: { title: 'cat' } });
+    const client = withSearch(new RSClientCore({ ...rs.clientConfig(), retry: false }));
+
+    const result = await client.searchWithPreviews('cat', { sizes: ['thm'], offset: 3, limit: 2, withTotal: true });
+
+    expect(result).toMatchObject({ count: 1, total: 4, hasMore: false });
+    expect(result.resources[0].previews.thm).toBe('http://fake-rs.test/filestore/4/4thm.jpg');
+  });
+
+  it('rejects invalid size codes', async () => {
+    const client = withSearch(createTestCore());
+
+    await expect(client.searchWithPreviews('cat', { sizes: [] })).rejects.toThrow(ValidationError);
+    await expect(client.searchWithPreviews('cat', { sizes: ['thm&x=1'] })).rejects.toThrow(ValidationError);
   });
 });
@@ -1,7 +1,7 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
 import { withUsers } from '../../src/capabilities/users.js';
 import { mockFetch, getCapturedParams, createTestCore } from '../helpers.js';
-import { SecurityError } from '../../src/core/errors.js';
+import { SecurityError, ServerError } from '../../src/core/errors.js';
 
 afterEach(() => {
   vi.restoreAllMocks();
@@ -56,6 +56,20 @@ describe('withUsers', () => {
 
       expect(result).toBeNull();
     });
+
+    it('returns null when RS denies access', async () => {
+      mockFetch('', 401);
+      const client = withUsers(createTestCore({ retry: false }));
+
+      expect(await client.checkCredentials('alice', 'wrong')).toBeNull();
+    });
+
+    it('throws server errors instead of reporting bad credentials', async () => {
+      mockFetch('', 503);
+      const client = withUsers(createTestCore({ retry: false }));
+
+      await expect(client.checkCredentials('alice', 'pass123')).rejects.toBeInstanceOf(ServerError);
+    });
   });
 
   describe('createUser()', () => {
@@ -134,6 +148,21 @@ describe('withUsers', () => {
       // new_user (1) + save_user retries (3) = 4 calls
       expect(vi.mocked(fetch)).toHaveBeenCalledTimes(4);
     }, 10000); // Higher timeout for retry delays
+
+    it('retries save_user after an RS error, even with retries disabled', async () => {
+      const responses = ['42', '"error: could not save user"', '{"status":"success","data":null}'];
+      const fetchMock = vi.fn().mockImplementation(() => Promise.resolve({
+        status: 200,
+        text: () => Promise.resolve(responses.shift()),
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = withUsers(createTestCore({ retry: false }));
+
+      const ref = await client.createUser({ username: 'test@example.com', email: 'test@example.com' });
+
+      expect(ref).toBe(42);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
   });
 
   describe('saveUser()', () => {
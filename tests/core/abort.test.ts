@@ -0,0 +1,192 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import { withSearch } from '../../src/capabilities/search.js';
+import { withResources } from '../../src/capabilities/resources.js';
+import { withResourceLoader } from '../../src/capabilities/resource-loader.js';
+import { RequestAbortedError, TimeoutError, ValidationError } from '../../src/core/errors.js';
+import type { RSRequestInit } from '../../src/core/types.js';
+import { TEST_CONFIG, mockTransport } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** Transport that never answers; rejects like fetch when its signal aborts. */
+function hangingTransport() {
+  return vi.fn().mockImplementation((_url: string, init: RSRequestInit) =>
+    new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(init.signal!.reason), { once: true });
+    }),
+  );
+}
+
+describe('per-call cancellation', () => {
+  it('rejects without sending when the signal is already aborted', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.makeRequest('do_search', {}, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it('aborts a request in flight', async () => {
+    const client = new RSClientCore({ ...TEST_CONFIG, transport: hangingTransport() });
+    const controller = new AbortController();
+
+    const pending = client.makeRequest('do_search', {}, { signal: controller.signal });
+    controller.abort(new Error('user navigated away'));
+
+    const error = await pending.catch(e => e);
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect(error.functionName).toBe('do_search');
+    expect((error.cause as Error).message).toBe('user navigated away');
+  });
+
+  it('does not retry or trip the circuit breaker on abort', async () => {
+    const transport = hangingTransport();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport,
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    const controller = new AbortController();
+
+    const pending = client.makeRequest('do_search', {}, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(client.circuitState).toBe('closed');
+  });
+
+  it('cancels a pending retry backoff', async () => {
+    const transport = mockTransport('Bad Gateway', 502);
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport,
+      retry: { baseDelayMs: 60_000, jitter: false },
+    });
+    const controller = new AbortController();
+
+    const pending = client.makeRequest('do_search', {}, { signal: controller.signal });
+    await vi.waitFor(() => expect(transport).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a wait for a rate limit slot', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: hangingTransport(),
+      rateLimit: { maxConcurrent: 1 },
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = client.makeRequest('do_search', { search: 'a' }, { signal: first.signal });
+    const b = client.makeRequest('do_search', { search: 'b' }, { signal: second.signal });
+    second.abort();
+
+    await expect(b).rejects.toBeInstanceOf(RequestAbortedError);
+    first.abort();
+    await expect(a).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('keeps a coalesced request alive while another caller still waits', async () => {
+    let respond!: () => void;
+    const transport = vi.fn().mockImplementation(() => new Promise(resolve => {
+      respond = () => resolve({ status: 200, text: () => Promise.resolve('[{"ref":1}]') });
+    }));
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+    const controller = new AbortController();
+
+    const aborted = client.makeRequest('do_search', { search: 'x' }, { signal: controller.signal });
+    const kept = client.makeRequest('do_search', { search: 'x' });
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+
+    respond();
+    await expect(kept).resolves.toEqual([{ ref: 1 }]);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the coalesced request once every caller has cancelled', async () => {
+    const transport = hangingTransport();
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = client.makeRequest('do_search', { search: 'x' }, { signal: a.signal });
+    const second = client.makeRequest('do_search', { search: 'x' }, { signal: b.signal });
+    a.abort();
+    b.abort();
+
+    await expect(first).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(second).rejects.toBeInstanceOf(RequestAbortedError);
+    const init = transport.mock.calls[0][1] as RSRequestInit;
+    expect(init.signal?.aborted).toBe(true);
+  });
+});
+
+describe('per-call timeout', () => {
+  it('overrides the configured timeout', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: hangingTransport(),
+      timeout: 60_000,
+      retry: false,
+    });
+
+    const error = await client.makeRequest('do_search', {}, { timeout: 5 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(5);
+  });
+
+  it('rejects a non-positive timeout', async () => {
+    const client = new RSClientCore({ ...TEST_CONFIG, transport: mockTransport([]) });
+
+    await expect(
+      client.makeRequest('do_search', {}, { timeout: 0 }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('capability methods', () => {
+  it('pass request options through to makeRequest', async () => {
+    const client = withResources(withSearch(new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([]),
+    })));
+    const spy = vi.spyOn(client, 'makeRequest');
+    const options = { signal: new AbortController().signal, timeout: 1000 };
+
+    await client.search('cats', {}, options);
+    await client.getResourceLog(1, options);
+
+    expect(spy).toHaveBeenNthCalledWith(1, 'do_search', expect.any(Object), options);
+    expect(spy).toHaveBeenNthCalledWith(2, 'get_resource_log', { resource: 1 }, options);
+  });
+
+  it('lets one resource loader caller cancel without failing the batch', async () => {
+    const client = withResourceLoader(withSearch(new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([{ ref: 1 }, { ref: 2 }]),
+    })));
+    const controller = new AbortController();
+
+    const cancelled = client.loadResource(1, { signal: controller.signal });
+    const kept = client.loadResource(2);
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(kept).resolves.toEqual({ ref: 2 });
+  });
+});
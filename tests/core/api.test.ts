@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { toRSParams } from '../../src/core/api.js';
+import { isReadOnlyFunction } from '../../src/core/functions.js';
+import { mockFetch, getCapturedParams, createTestCore } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('call()', () => {
+  it('sends the named params and returns the response', async () => {
+    const mock = mockFetch([{ ref: 7 }]);
+    const client = createTestCore();
+
+    const rows = await client.call('do_search', { search: 'cat', fetchrows: 5, order_by: 'date' });
+
+    const params = getCapturedParams(mock);
+    expect(params.get('function')).toBe('do_search');
+    expect(params.get('search')).toBe('cat');
+    expect(params.get('fetchrows')).toBe('5');
+    expect(params.get('order_by')).toBe('date');
+    expect(rows[0].ref).toBe(7);
+  });
+
+  it('omits params set to undefined', async () => {
+    const mock = mockFetch([]);
+    const client = createTestCore();
+
+    await client.call('get_nodes', { ref: 3, parent: undefined });
+
+    const params = getCapturedParams(mock);
+    expect(params.get('ref')).toBe('3');
+    expect(params.has('parent')).toBe(false);
+  });
+
+  it('goes through makeRequest with the request options', async () => {
+    mockFetch([]);
+    const client = createTestCore();
+    const spy = vi.spyOn(client, 'makeRequest');
+    const options = { timeout: 1000, cache: false };
+
+    await client.call('get_resource_types', {}, options);
+    await client.call('get_user_collections');
+
+    expect(spy).toHaveBeenNthCalledWith(1, 'get_resource_types', {}, options);
+    expect(spy).toHaveBeenNthCalledWith(2, 'get_user_collections', {}, undefined);
+  });
+});
+
+describe('toRSParams()', () => {
+  it('drops undefined values and keeps everything else', () => {
+    expect(toRSParams({ a: 1, b: undefined, c: '', d: 0, e: true })).toEqual({ a: 1, c: '', d: 0, e: true });
+    expect(toRSParams()).toEqual({});
+  });
+});
+
+describe('registry read-only classification', () => {
+  it('treats the lookup functions in the registry as read-only', () => {
+    const lookups = [
+      'search_get_previews', 'get_data_by_field', 'get_resource_all_image_sizes', 'get_edit_access',
+      'get_resource_access', 'get_node_id', 'get_users_by_permission', 'checkperm',
+    ];
+
+    expect(lookups.filter(fn => !isReadOnlyFunction(fn))).toEqual([]);
+  });
+});
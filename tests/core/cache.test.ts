@@ -0,0 +1,204 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import { MemoryCacheStore, cacheTagsFor, invalidationTagsFor } from '../../src/core/cache.js';
+import { withFields } from '../../src/capabilities/fields.js';
+import { withCollections } from '../../src/capabilities/collections.js';
+import { withSearch } from '../../src/capabilities/search.js';
+import { withResources } from '../../src/capabilities/resources.js';
+import { ConfigurationError } from '../../src/core/errors.js';
+import type { RSCacheStore } from '../../src/core/types.js';
+import { TEST_CONFIG, mockTransport } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** Count transport calls per RS function */
+function callsTo(transport: ReturnType<typeof mockTransport>, fn: string): number {
+  return transport.mock.calls.filter(([url]) => url.includes(`function=${fn}&`)).length;
+}
+
+describe('MemoryCacheStore', () => {
+  it('expires entries after their TTL', () => {
+    let now = 0;
+    const store = new MemoryCacheStore(10, () => now);
+    store.set('a', 1, 100);
+
+    expect(store.get('a')).toBe(1);
+    now = 100;
+    expect(store.get('a')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', 1, 1000);
+    store.set('b', 2, 1000);
+    store.get('a');
+    store.set('c', 3, 1000);
+
+    expect(store.get('a')).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(3);
+  });
+
+  it('returns copies so callers cannot mutate cached values', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', [{ ref: 1 }], 1000);
+    (store.get('a') as Array<{ ref: number }>)[0].ref = 99;
+
+    expect(store.get('a')).toEqual([{ ref: 1 }]);
+  });
+});
+
+describe('invalidation tags', () => {
+  it('tags collection searches with the collection', () => {
+    expect(cacheTagsFor('do_search', { search: '!collection42' })).toContain('collection:42');
+  });
+
+  it('splits CSV batch params into per-resource tags', () => {
+    expect(invalidationTagsFor('delete_resource', { resource: '1,2' }))
+      .toEqual(['search', 'resource:1', 'resource:2']);
+  });
+
+  it('returns null for unknown mutations', () => {
+    expect(invalidationTagsFor('some_custom_function', {})).toBeNull();
+  });
+});
+
+describe('RSClientCore cache', () => {
+  it('is disabled unless configured', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    await client.makeRequest('get_resource_types');
+    await client.makeRequest('get_resource_types');
+
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves repeated metadata reads from cache', async () => {
+    const transport = mockTransport([{ ref: 1, name: 'Photo' }]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, cache: {} });
+
+    await client.makeRequest('get_resource_types');
+    const second = await client.makeRequest('get_resource_types');
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(second).toEqual([{ ref: 1, name: 'Photo' }]);
+  });
+
+  it('does not cache functions without a TTL', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, cache: {} });
+
+    await client.makeRequest('do_search', { search: 'x' });
+    await client.makeRequest('do_search', { search: 'x' });
+
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('bypasses the cache when the call opts out', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, cache: {} });
+
+    await client.makeRequest('get_resource_types');
+    await client.makeRequest('get_resource_types', {}, { cache: false });
+
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failed requests', async () => {
+    const transport = vi.fn()
+      .mockResolvedValueOnce({ status: 403, text: () => Promise.resolve('[]') })
+      .mockResolvedValue({ status: 200, text: () => Promise.resolve('[]') });
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, cache: {} });
+
+    await expect(client.makeRequest('get_resource_type_fields')).rejects.toThrow();
+    await client.makeRequest('get_resource_type_fields');
+
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('setNode invalidates nodes and options for that field only', async () => {
+    const transport = mockTransport(5);
+    const client = withFields(new RSClientCore({ ...TEST_CONFIG, transport, cache: {} }));
+
+    await client.getNodes(8);
+    await client.getFieldOptions(8);
+    await client.getNodes(9);
+    await client.setNode(8, 'Paris');
+    await client.getNodes(8);
+    await client.getFieldOptions(8);
+    await client.getNodes(9);
+
+    expect(callsTo(transport, 'get_nodes')).toBe(3);
+    expect(callsTo(transport, 'get_field_options')).toBe(2);
+  });
+
+  it('addToCollection invalidates that collection\'s resources', async () => {
+    const transport = mockTransport([]);
+    const client = withCollections(new RSClientCore({
+      ...TEST_CONFIG,
+      transport,
+      cache: { ttl: { do_search: 60000 } },
+    }));
+
+    await client.getCollectionResources(42);
+    await client.getCollectionResources(42);
+    await client.addToCollection(42, 7);
+    await client.getCollectionResources(42);
+
+    expect(callsTo(transport, 'do_search')).toBe(2);
+  });
+
+  it('unknown mutations clear the whole cache', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, cache: {} });
+
+    await client.makeRequest('get_resource_types');
+    await client.makeRequest('some_custom_mutation');
+    await client.makeRequest('get_resource_types');
+
+    expect(callsTo(transport, 'get_resource_types')).toBe(2);
+  });
+
+  it('keeps cached entries across searchWithPreviews', async () => {
+    const transport = mockTransport([]);
+    const client = withSearch(new RSClientCore({ ...TEST_CONFIG, transport, cache: {} }));
+
+    await client.makeRequest('get_resource_types');
+    await client.searchWithPreviews('cat', { sizes: ['thm'] });
+    await client.makeRequest('get_resource_types');
+
+    expect(callsTo(transport, 'get_resource_types')).toBe(1);
+  });
+
+  it('keeps cached entries across rendition lookups', async () => {
+    const transport = mockTransport([]);
+    const client = withResources(new RSClientCore({ ...TEST_CONFIG, transport, cache: {} }));
+
+    await client.makeRequest('get_resource_types');
+    await client.getResourceRenditionsBatch([1, 2]);
+    await client.makeRequest('get_resource_types');
+
+    expect(callsTo(transport, 'get_resource_types')).toBe(1);
+    expect(cacheTagsFor('get_resource_all_image_sizes', { resource: 7 })).toEqual(['resource:7']);
+  });
+
+  it('keeps serving requests when the store fails', async () => {
+    const store: RSCacheStore = {
+      get: () => Promise.reject(new Error('redis down')),
+      set: () => Promise.reject(new Error('redis down')),
+      delete: () => {},
+      clear: () => {},
+    };
+    const client = new RSClientCore({ ...TEST_CONFIG, transport: mockTransport([]), cache: { store } });
+
+    await expect(client.makeRequest('get_resource_types')).resolves.toEqual([]);
+  });
+
+  it('rejects caching of mutating functions', () => {
+    expect(() => new RSClientCore({ ...TEST_CONFIG, cache: { ttl: { create_resource: 1000 } } }))
+      .toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_OPTIONS } from '../../src/core/circuit-breaker.js';
+import { CircuitOpenError, ResourceSpaceError } from '../../src/core/errors.js';
+import type { RSLogger } from '../../src/core/types.js';
+import { TEST_CONFIG, mockTransport } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function createLogger(): RSLogger {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+function createBreaker(overrides: Partial<typeof DEFAULT_CIRCUIT_BREAKER_OPTIONS> = {}) {
+  let now = 0;
+  const log = createLogger();
+  const breaker = new CircuitBreaker(
+    { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, failureThreshold: 2, resetTimeoutMs: 1000, ...overrides },
+    log,
+    () => now,
+  );
+  return { breaker, log, advance: (ms: number) => { now += ms; } };
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and fails fast', () => {
+    const { breaker } = createBreaker();
+    breaker.acquire('do_search');
+    breaker.onFailure();
+    breaker.acquire('do_search');
+    breaker.onFailure();
+
+    expect(breaker.currentState).toBe('open');
+    expect(() => breaker.acquire('do_search')).toThrow(CircuitOpenError);
+  });
+
+  it('resets the failure count on success', () => {
+    const { breaker } = createBreaker();
+    breaker.onFailure();
+    breaker.onSuccess();
+    breaker.onFailure();
+
+    expect(breaker.currentState).toBe('closed');
+  });
+
+  it('reports time until the next probe', () => {
+    const { breaker, advance } = createBreaker();
+    breaker.onFailure();
+    breaker.onFailure();
+    advance(400);
+
+    try {
+      breaker.acquire('do_search');
+      expect.unreachable();
+    } catch (error) {
+      expect((error as CircuitOpenError).retryAfterMs).toBe(600);
+    }
+  });
+
+  it('lets a single probe through when half-open', () => {
+    const { breaker, advance } = createBreaker();
+    breaker.onFailure();
+    breaker.onFailure();
+    advance(1000);
+
+    expect(breaker.currentState).toBe('half-open');
+    breaker.acquire('do_search');
+    expect(() => breaker.acquire('do_search')).toThrow(CircuitOpenError);
+  });
+
+  it('closes after a successful probe', () => {
+    const { breaker, advance } = createBreaker();
+    breaker.onFailure();
+    breaker.onFailure();
+    advance(1000);
+    breaker.acquire('do_search');
+    breaker.onSuccess();
+
+    expect(breaker.currentState).toBe('closed');
+    expect(() => breaker.acquire('do_search')).not.toThrow();
+  });
+
+  it('re-opens after a failed probe', () => {
+    const { breaker, advance } = createBreaker();
+    breaker.onFailure();
+    breaker.onFailure();
+    advance(1000);
+    breaker.acquire('do_search');
+    breaker.onFailure();
+
+    expect(breaker.currentState).toBe('open');
+  });
+
+  it('logs state changes', () => {
+    const { breaker, log, advance } = createBreaker();
+    breaker.onFailure();
+    breaker.onFailure();
+    advance(1000);
+    breaker.acquire('do_search');
+    breaker.onSuccess();
+
+    expect(log.warn).toHaveBeenCalledWith(
+      expect.stringContaining('opened'),
+      expect.objectContaining({ from: 'closed', to: 'open', failures: 2 }),
+    );
+    expect(log.info).toHaveBeenCalledWith(
+      expect.stringContaining('half-open'),
+      expect.objectContaining({ from: 'open', to: 'half-open' }),
+    );
+    expect(log.info).toHaveBeenCalledWith(
+      expect.stringContaining('closed'),
+      expect.objectContaining({ from: 'half-open', to: 'closed' }),
+    );
+  });
+});
+
+describe('RSClientCore circuit breaker', () => {
+  it('fails fast without calling the transport once open', async () => {
+    const transport = mockTransport('Service Unavailable', 503);
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport,
+      retry: false,
+      circuitBreaker: { failureThreshold: 2 },
+    });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow(ResourceSpaceError);
+    await expect(client.makeRequest('do_search')).rejects.toThrow(ResourceSpaceError);
+    await expect(client.makeRequest('do_search')).rejects.toThrow(CircuitOpenError);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(client.circuitState).toBe('open');
+  });
+
+  it('does not count RS error responses as failures', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport('Error: invalid function'),
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow(ResourceSpaceError);
+    expect(client.circuitState).toBe('closed');
+  });
+
+  it('is disabled unless configured', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport('Service Unavailable', 503),
+      retry: false,
+    });
+
+    for (let i = 0; i < 10; i++) {
+      await expect(client.makeRequest('do_search')).rejects.not.toThrow(CircuitOpenError);
+    }
+    expect(client.circuitState).toBe('closed');
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import {
+  ResourceSpaceError,
+  PermissionError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  UrlTooLongError,
+  ConfigurationError,
+} from '../../src/core/errors.js';
+import type { RSMiddleware, RSRequestInit } from '../../src/core/types.js';
+import { TEST_CONFIG, mockFetch, mockTransport, getCapturedParams } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('RSClientCore transport', () => {
+  it('uses global fetch by default', async () => {
+    const mock = mockFetch([{ ref: 1 }]);
+    const client = new RSClientCore(TEST_CONFIG);
+
+    await client.makeRequest('do_search', { search: 'test' });
+
+    expect(mock).toHaveBeenCalledTimes(1);
+    expect(getCapturedParams(mock).get('function')).toBe('do_search');
+  });
+
+  it('sends requests through a configured transport instead of fetch', async () => {
+    const fetchMock = mockFetch([]);
+    const transport = mockTransport({ ref: 42 });
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    const result = await client.makeRequest<{ ref: number }>('get_resource_data', { resource: 42 });
+
+    expect(result.ref).toBe(42);
+    expect(fetchMock).not.toHaveBeenCalled();
+    const [url, init] = transport.mock.calls[0];
+    expect(url).toContain('function=get_resource_data');
+    expect(url).toMatch(/&sign=[a-f0-9]{64}$/);
+    expect(init.method).toBe('GET');
+    expect(init.headers.Accept).toBe('application/json');
+  });
+
+  it('wraps transport failures in ResourceSpaceError', async () => {
+    const transport = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: false });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow(ResourceSpaceError);
+  });
+});
+
+describe('RSClientCore middleware', () => {
+  it('runs onRequest in order and onResponse in reverse order', async () => {
+    const calls: string[] = [];
+    const mw = (name: string): RSMiddleware => ({
+      name,
+      onRequest() { calls.push(`req:${name}`); },
+      onResponse() { calls.push(`res:${name}`); },
+    });
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([]),
+      middleware: [mw('a'), mw('b')],
+    });
+
+    await client.makeRequest('do_search');
+
+    expect(calls).toEqual(['req:a', 'req:b', 'res:b', 'res:a']);
+  });
+
+  it('lets onRequest inject headers and transport options', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+    client.use({
+      onRequest(ctx) {
+        ctx.init.headers['X-Trace-Id'] = 'trace-1';
+        ctx.init.dispatcher = 'custom-dispatcher';
+      },
+    });
+
+    await client.makeRequest('do_search');
+
+    const init = transport.mock.calls[0][1];
+    expect(init.headers['X-Trace-Id']).toBe('trace-1');
+    expect(init.dispatcher).toBe('custom-dispatcher');
+  });
+
+  it('lets onResponse replace the response before normalization', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([{ ref: 1 }]),
+      middleware: [{
+        onResponse: () => ({ status: 200, text: () => Promise.resolve('[{"ref":2}]') }),
+      }],
+    });
+
+    const result = await client.makeRequest<Array<{ ref: number }>>('do_search');
+
+    expect(result[0].ref).toBe(2);
+  });
+
+  it('calls onError with the typed error and re-throws it', async () => {
+    const onError = vi.fn();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([], 403),
+      middleware: [{ onError }],
+    });
+
+    await expect(client.makeRequest('get_resource_type_fields')).rejects.toThrow(PermissionError);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].functionName).toBe('get_resource_type_fields');
+    expect(onError.mock.calls[0][1]).toBeInstanceOf(PermissionError);
+  });
+
+  it('shares state between hooks of the same request', async () => {
+    let seen: unknown;
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([]),
+      middleware: [{
+        onRequest(ctx) { ctx.state.startedAt = 123; },
+        onResponse(ctx) { seen = ctx.state.startedAt; },
+      }],
+    });
+
+    await client.makeRequest('do_search');
+
+    expect(seen).toBe(123);
+  });
+
+  it('keeps the original error when an onError hook throws', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport('Internal Server Error', 500),
+      retry: false,
+      middleware: [{ onError() { throw new Error('hook failed'); } }],
+    });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow(/server error: 500/);
+  });
+});
+
+describe('RSClientCore error classification', () => {
+  it('throws ServerError with the status for 5xx responses', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport('Bad Gateway', 502),
+      retry: false,
+    });
+
+    const error = await client.makeRequest('do_search').catch(e => e);
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.statusCode).toBe(502);
+    expect(error.code).toBe('SERVER_ERROR');
+  });
+
+  it('releases the body of 5xx and 401/403 responses, on every attempt', async () => {
+    const cancel = vi.fn(async () => {});
+    const statuses = [503, 503, 403];
+    const transport = vi.fn(async () => ({
+      status: statuses.shift()!,
+      text: () => Promise.resolve(''),
+      body: { cancel, async* [Symbol.asyncIterator]() { /* unread */ } },
+    }));
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: { maxAttempts: 3, baseDelayMs: 0 } });
+
+    await expect(client.makeRequest('do_search')).rejects.toBeInstanceOf(PermissionError);
+    expect(transport).toHaveBeenCalledTimes(3);
+    expect(cancel).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws NetworkError when the transport fails', async () => {
+    const cause = new TypeError('fetch failed');
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: vi.fn().mockRejectedValue(cause),
+      retry: false,
+    });
+
+    const error = await client.makeRequest('do_search').catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('throws TimeoutError when the attempt times out', async () => {
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      timeout: 5,
+      retry: false,
+      transport: vi.fn().mockImplementation((_url: string, init: RSRequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal!.reason), { once: true });
+        }),
+      ),
+    });
+
+    const error = await client.makeRequest('do_search').catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(5);
+    expect(error.code).toBe('TIMEOUT');
+  });
+});
+
+describe('RSClientCore URL length limit', () => {
+  it('rejects requests over maxUrlLength without sending them', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, maxUrlLength: 300 });
+
+    const error = await client.makeRequest('do_search', { search: 'x'.repeat(300) }).catch(e => e);
+
+    expect(error).toBeInstanceOf(UrlTooLongError);
+    expect(error.code).toBe('URL_TOO_LONG');
+    expect(error.maxLength).toBe(300);
+    expect(error.length).toBeGreaterThan(300);
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it('measures the signed URL that would be sent', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    const length = client.measureUrl('do_search', { search: 'cats' });
+    await client.makeRequest('do_search', { search: 'cats' });
+
+    expect(length).toBe((transport.mock.calls[0][0] as string).length);
+  });
+
+  it('validates maxUrlLength', () => {
+    expect(() => new RSClientCore({ ...TEST_CONFIG, maxUrlLength: 100 })).toThrow(ConfigurationError);
+    expect(new RSClientCore(TEST_CONFIG).config.maxUrlLength).toBe(8000);
+  });
+});
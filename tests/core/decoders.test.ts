@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import { createAdminClient } from '../../src/factories.js';
+import { withCollections } from '../../src/capabilities/collections.js';
+import { withUsers } from '../../src/capabilities/users.js';
+import {
+  collectionListDecoder,
+  nodeDecoder,
+  resourceDecoder,
+  userDecoder,
+} from '../../src/core/decoders.js';
+import type { DecodeIssue } from '../../src/utils/decode.js';
+import { ConfigurationError, InvalidResponseError, ResponseValidationError } from '../../src/core/errors.js';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { TEST_CONFIG, mockTransport } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('response decoders', () => {
+  it('converts numeric strings and keeps extra columns', () => {
+    const issues: DecodeIssue[] = [];
+
+    const user = userDecoder.decode(
+      { ref: '7', username: 'alice', email: 'a@example.com', fullname: 'Alice', usergroup: '2', origin: 'sso' },
+      issues,
+    );
+
+    expect(issues).toEqual([]);
+    expect(user).toEqual({
+      ref: 7, username: 'alice', email: 'a@example.com', fullname: 'Alice', usergroup: 2, origin: 'sso',
+    });
+  });
+
+  it('reports missing and mistyped fields with their location', () => {
+    const issues: DecodeIssue[] = [];
+
+    collectionListDecoder.decode([{ ref: 1, name: 'ok' }, { ref: 'abc' }], issues);
+
+    expect(issues).toEqual([
+      { path: '[1].ref', message: 'expected number, got "abc"' },
+      { path: '[1].name', message: 'required field missing' },
+    ]);
+  });
+
+  it('keeps null where the type allows it and drops absent optional keys', () => {
+    const issues: DecodeIssue[] = [];
+
+    const node = nodeDecoder.decode(
+      { ref: '5', resource_type_field: '3', name: 'France', parent: null, order_by: '10' },
+      issues,
+    );
+    const [collection] = collectionListDecoder.decode([{ ref: '2', name: 'Featured', parent: null, user: null }], issues);
+
+    expect(issues).toEqual([]);
+    expect(node).toEqual({ ref: 5, resource_type_field: 3, name: 'France', parent: null, order_by: 10 });
+    expect(collection).toEqual({ ref: 2, name: 'Featured', parent: null });
+  });
+
+  it('passes data joins through', () => {
+    const issues: DecodeIssue[] = [];
+
+    const resource = resourceDecoder.decode({ ref: '1', field8: 'Sunset' }, issues);
+
+    expect(resource.ref).toBe(1);
+    expect(resource.field8).toBe('Sunset');
+  });
+});
+
+describe('responseValidation', () => {
+  const badUsers = [{ ref: 'x', username: 'alice' }];
+
+  it('logs mismatches and returns the data in lenient mode (default)', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = withUsers(new RSClientCore({ ...TEST_CONFIG, logger, transport: mockTransport(badUsers) }));
+
+    const users = await client.getUsers();
+
+    expect(users).toEqual(badUsers);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'RS API response did not match its type: get_users',
+      expect.objectContaining({ function: 'get_users', issueCount: 4 }),
+    );
+  });
+
+  it('throws ResponseValidationError in strict mode', async () => {
+    const client = withUsers(new RSClientCore({
+      ...TEST_CONFIG,
+      responseValidation: 'strict',
+      transport: mockTransport(badUsers),
+    }));
+
+    const error = await client.getUsers().catch(e => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.code).toBe('INVALID_RESPONSE');
+    expect(error.issues[0]).toEqual({ path: '[0].ref', message: 'expected number, got "x"' });
+    expect(error.message).toContain('(+1 more)');
+  });
+
+  it('coerces without complaint in strict mode when only numbers are strings', async () => {
+    const transport = mockTransport([{ ref: '4', name: 'Summer', parent: '0' }]);
+    const client = withCollections(new RSClientCore({ ...TEST_CONFIG, responseValidation: 'strict', transport }));
+
+    await expect(client.getFeaturedCollections(0)).resolves.toEqual([{ ref: 4, name: 'Summer', parent: 0 }]);
+  });
+
+  it('accepts every response of the fake RS in strict mode', async () => {
+    const rs = new FakeResourceSpace();
+    rs.addResource({ fields: { title: 'Sunset', country: '' } });
+    rs.injectQuirk('*', { kind: 'numericStrings' });
+    const client = createAdminClient({ ...rs.clientConfig(), responseValidation: 'strict' });
+
+    await expect(client.search('sunset')).resolves.toMatchObject({ resources: [{ ref: 1 }] });
+    await expect(client.getResource(1)).resolves.toMatchObject({ ref: 1 });
+    await expect(client.getResourceFieldData(1)).resolves.toHaveLength(4);
+    await expect(client.getFields()).resolves.toHaveLength(4);
+    await expect(client.getUsers()).resolves.toHaveLength(1);
+    await expect(client.getResourceTypes()).resolves.toHaveLength(2);
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => new RSClientCore({ ...TEST_CONFIG, responseValidation: 'loose' as 'strict' }))
+      .toThrow(ConfigurationError);
+  });
+});
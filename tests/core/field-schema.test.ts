@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import {
+  captureFieldSchema,
+  generateFieldSchemaModule,
+  parseFieldSchemaSnapshot,
+  type FieldSchemaSnapshot,
+} from '../../src/utils/field-schema.js';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { createBasicClient } from '../../src/factories.js';
+import { ValidationError } from '../../src/core/errors.js';
+
+function setup() {
+  const rs = new FakeResourceSpace({
+    resourceTypes: [{ ref: 1, name: 'Photo' }, { ref: 2, name: 'Audio/Video' }],
+    fields: [
+      { ref: 8, name: 'title', title: 'Title', type: 0, resource_type: 0 },
+      { ref: 1, name: 'keywords', title: 'Keywords', type: 9, resource_type: 0 },
+      { ref: 3, name: 'country', title: 'Country', type: 3, resource_type: 0 },
+      { ref: 20, name: 'subject', title: 'Subject */ tree', type: 7, resource_type: 1 },
+      { ref: 21, name: 'duration', title: 'Duration', type: 0, resource_type: 2 },
+    ],
+  });
+  rs.addNode('country', 'France');
+  rs.addNode('country', "Côte d'Ivoire");
+  const nature = rs.addNode('subject', 'Nature');
+  rs.addNode('subject', 'Birds', nature);
+  rs.addNode('keywords', 'sunset');
+  const client = createBasicClient({ ...rs.clientConfig(), retry: false });
+  return { rs, client };
+}
+
+/** Syntax errors in generated source */
+function syntaxErrors(source: string): string[] {
+  const { diagnostics = [] } = ts.transpileModule(source, { reportDiagnostics: true });
+  return diagnostics.map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('captureFieldSchema()', () => {
+  it('reads fields, resource types and fixed options including category tree children', async () => {
+    const { rs, client } = setup();
+
+    const snapshot = await captureFieldSchema(client);
+
+    expect(snapshot.resourceTypes.map(t => t.name)).toEqual(['Photo', 'Audio/Video']);
+    expect(snapshot.fields).toHaveLength(5);
+    expect(Object.keys(snapshot.nodes).sort()).toEqual(['20', '3']);
+    expect(snapshot.nodes[20].map(n => n.name)).toEqual(['Nature', 'Birds']);
+    const getNodes = rs.calls.filter(c => c.function === 'get_nodes');
+    expect(getNodes.map(c => c.params.ref).sort()).toEqual(['20', '3']);
+    expect(getNodes.every(c => c.params.recursive === '1')).toBe(true);
+  });
+
+  it('loads node lists a few fields at a time', async () => {
+    const rs = new FakeResourceSpace({
+      fields: Array.from({ length: 10 }, (_, i) => ({
+        ref: 30 + i, name: `choice_${i}`, title: `Choice ${i}`, type: 3, resource_type: 0,
+      })),
+    });
+    const config = rs.clientConfig();
+    let inFlight = 0;
+    let peak = 0;
+    const client = createBasicClient({
+      ...config,
+      retry: false,
+      transport: async (url, init) => {
+        const nodeCall = new URL(url).searchParams.get('function') === 'get_nodes';
+        if (nodeCall) peak = Math.max(peak, ++inFlight);
+        try {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          return await config.transport!(url, init);
+        } finally {
+          if (nodeCall) inFlight--;
+        }
+      },
+    });
+
+    const snapshot = await captureFieldSchema(client);
+
+    expect(Object.keys(snapshot.nodes)).toHaveLength(10);
+    expect(peak).toBe(4);
+  });
+});
+
+describe('generateFieldSchemaModule()', () => {
+  it('emits field IDs, resource types, option unions and metadata interfaces', async () => {
+    const { client } = setup();
+
+    const source = generateFieldSchemaModule(await captureFieldSchema(client));
+
+    expect(syntaxErrors(source)).toEqual([]);
+    expect(source).toContain([
+      'export const Fields = {',
+      '  keywords: 1,',
+      '  country: 3,',
+      '  title: 8,',
+      '  subject: 20,',
+      '  duration: 21,',
+      '} as const;',
+    ].join('\n'));
+    expect(source).toContain("export const ResourceTypes = {\n  Photo: 1,\n  'Audio/Video': 2,\n} as const;");
+    expect(source).toContain("export type CountryOption =\n  | 'France'\n  | 'Côte d\\'Ivoire';");
+    expect(source).toContain("export type SubjectOption =\n  | 'Nature'\n  | 'Birds';");
+    expect(source).toContain([
+      'export interface PhotoMetadata {',
+      '  /** Keywords (field 1) */',
+      '  keywords?: string[];',
+      '  /** Country (field 3) */',
+      '  country?: CountryOption;',
+      '  /** Title (field 8) */',
+      '  title?: string;',
+      '  /** Subject *\\/ tree (field 20) */',
+      '  subject?: SubjectOption[];',
+      '}',
+    ].join('\n'));
+    expect(source).toContain('export interface AudioVideoMetadata {');
+    expect(source).toMatch(/AudioVideoMetadata \{[^}]*duration\?: string;[^}]*\}/);
+    expect(source).not.toMatch(/PhotoMetadata \{[^}]*duration/);
+  });
+
+  it('generates the same module from a JSON snapshot, offline', async () => {
+    const { client } = setup();
+    const snapshot = await captureFieldSchema(client);
+
+    const offline = generateFieldSchemaModule(parseFieldSchemaSnapshot(JSON.stringify(snapshot)));
+
+    expect(offline).toBe(generateFieldSchemaModule(snapshot));
+  });
+
+  it('skips unusable shortnames and disambiguates clashing type names', () => {
+    const snapshot: FieldSchemaSnapshot = {
+      resourceTypes: [{ ref: 1, name: 'Photo' }, { ref: 4, name: 'photo' }, { ref: 5, name: '3D' }],
+      fields: [
+        { ref: 7, name: 'colour', title: 'Colour', type: 3 },
+        { ref: 9, name: 'Colour', title: 'Colour again', type: 3 },
+        { ref: 10, name: '', title: 'Unnamed', type: 0 },
+      ],
+      nodes: { 7: [], 9: [{ ref: 1, resource_type_field: 9, name: 'Red', parent: null, order_by: 10 }] },
+    };
+
+    const source = generateFieldSchemaModule(snapshot);
+
+    expect(syntaxErrors(source)).toEqual([]);
+    expect(source).toContain('export type ColourOption = never;');
+    expect(source).toContain("export type ColourOption9 =\n  | 'Red';");
+    expect(source).toContain('export interface PhotoMetadata {');
+    expect(source).toContain('export interface PhotoMetadata4 {');
+    expect(source).toContain('export interface ResourceType5Metadata {');
+    expect(source).not.toContain('Unnamed');
+  });
+});
+
+describe('parseFieldSchemaSnapshot()', () => {
+  it('rejects malformed snapshots', () => {
+    expect(() => parseFieldSchemaSnapshot('{')).toThrow(ValidationError);
+    expect(() => parseFieldSchemaSnapshot('{"resourceTypes":[],"fields":[{"ref":"x"}],"nodes":{}}'))
+      .toThrow(/fields\[0\]\.ref/);
+  });
+});
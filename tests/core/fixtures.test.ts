@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { RSClientCore } from '../../src/core/client.js';
+import { createAdminClient } from '../../src/factories.js';
+import { ConfigurationError, FixtureMissingError } from '../../src/core/errors.js';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rs-fixtures-'));
+  file = path.join(dir, 'nested', 'search.json');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Client config that must never reach the network */
+function offlineConfig(rs: FakeResourceSpace) {
+  const transport = vi.fn().mockRejectedValue(new Error('network used in replay'));
+  return { ...rs.clientConfig(), transport, retry: false as const };
+}
+
+describe('fixture recording', () => {
+  it('records responses and replays them offline', async () => {
+    const rs = new FakeResourceSpace();
+    rs.addResource({ fields: { title: 'Sunset' } });
+    const live = createAdminClient({ ...rs.clientConfig(), fixtures: { mode: 'record', path: file } });
+    const recorded = await live.search('sunset', { dataJoins: [8] });
+
+    const config = offlineConfig(rs);
+    const replay = createAdminClient({ ...config, fixtures: { mode: 'replay', path: file } });
+
+    expect(await replay.search('sunset', { dataJoins: [8] })).toEqual(recorded);
+    expect(config.transport).not.toHaveBeenCalled();
+  });
+
+  it('scrubs keys, signatures, passwords and session keys', async () => {
+    const rs = new FakeResourceSpace({ users: [{ username: 'admin', password: 'hunter2-secret' }] });
+    const live = createAdminClient({ ...rs.clientConfig(), fixtures: { mode: 'record', path: file } });
+
+    const sessionKey = await live.checkCredentials('admin', 'hunter2-secret');
+
+    const text = fs.readFileSync(file, 'utf8');
+    expect(sessionKey).toHaveLength(32);
+    expect(text).not.toContain(sessionKey);
+    expect(text).not.toContain('hunter2-secret');
+    expect(text).not.toContain(rs.getUser('admin')!.apiKey);
+    expect(text).not.toContain('sign=');
+
+    const replay = createAdminClient({ ...offlineConfig(rs), fixtures: { mode: 'replay', path: file } });
+    expect(await replay.checkCredentials('admin', 'any-password')).toMatch(/^scrubbed-session-key/);
+  });
+
+  it('scrubs passwords inside JSON params', async () => {
+    const rs = new FakeResourceSpace();
+    const live = createAdminClient({ ...rs.clientConfig(), fixtures: { mode: 'record', path: file } });
+
+    await live.createUser({ username: 'jo', email: 'jo@example.com', password: 'correct-horse-battery' });
+
+    const text = fs.readFileSync(file, 'utf8');
+    expect(text).toContain('save_user');
+    expect(text).not.toContain('correct-horse-battery');
+  });
+
+  it('matches on canonical params regardless of order', async () => {
+    const rs = new FakeResourceSpace();
+    const ref = rs.addResource({ fields: { title: 'A' } });
+    const live = new RSClientCore({ ...rs.clientConfig(), fixtures: { mode: 'record', path: file } });
+    await live.makeRequest('get_resource_field_data', { resource: ref, field: 8 });
+
+    const replay = new RSClientCore({ ...offlineConfig(rs), fixtures: { mode: 'replay', path: file } });
+
+    await expect(replay.makeRequest('get_resource_field_data', { field: 8, resource: ref }))
+      .resolves.toHaveLength(4);
+  });
+
+  it('replays repeated calls in recorded order, then repeats the last', async () => {
+    const rs = new FakeResourceSpace();
+    const ref = rs.addResource({ fields: { title: 'Before' } });
+    const live = createAdminClient({ ...rs.clientConfig(), fixtures: { mode: 'record', path: file } });
+    await live.getResource(ref);
+    await live.updateField(ref, 8, 'After');
+    await live.search('after');
+    await live.search('after');
+    rs.addResource({ fields: { title: 'After too' } });
+    await live.search('after');
+
+    const replay = createAdminClient({ ...offlineConfig(rs), fixtures: { mode: 'replay', path: file } });
+
+    expect((await replay.search('after')).count).toBe(1);
+    expect((await replay.search('after')).count).toBe(1);
+    expect((await replay.search('after')).count).toBe(2);
+    expect((await replay.search('after')).count).toBe(2);
+  });
+});
+
+describe('fixture replay errors', () => {
+  it('throws FixtureMissingError for unrecorded calls without retrying', async () => {
+    const rs = new FakeResourceSpace();
+    const live = createAdminClient({ ...rs.clientConfig(), fixtures: { mode: 'record', path: file } });
+    await live.search('cats');
+
+    const replay = createAdminClient({ ...offlineConfig(rs), retry: {}, fixtures: { mode: 'replay', path: file } });
+    const error = await replay.search('dogs').catch(e => e);
+
+    expect(error).toBeInstanceOf(FixtureMissingError);
+    expect(error.code).toBe('FIXTURE_MISSING');
+    expect(error.message).toContain('search=dogs');
+  });
+
+  it('rejects a missing fixture file at construction', () => {
+    const rs = new FakeResourceSpace();
+
+    expect(() => new RSClientCore({ ...rs.clientConfig(), fixtures: { mode: 'replay', path: file } }))
+      .toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import { RateLimiter, Semaphore, TokenBucket } from '../../src/core/rate-limiter.js';
+import { ConfigurationError } from '../../src/core/errors.js';
+import { TEST_CONFIG } from '../helpers.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+/** Transport whose responses resolve only when the test says so. */
+function deferredTransport() {
+  const pending: Array<() => void> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const transport = vi.fn().mockImplementation(() => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    return new Promise(resolve => {
+      pending.push(() => {
+        inFlight--;
+        resolve({ status: 200, text: () => Promise.resolve('[]') });
+      });
+    });
+  });
+  return {
+    transport,
+    get maxInFlight() { return maxInFlight; },
+    resolveAll: () => pending.splice(0).forEach(fn => fn()),
+  };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Semaphore', () => {
+  it('limits concurrent holders and serves waiters in order', async () => {
+    const sem = new Semaphore(1);
+    const order: number[] = [];
+
+    const release1 = await sem.acquire();
+    const second = sem.acquire().then(release => { order.push(2); return release; });
+    const third = sem.acquire().then(release => { order.push(3); return release; });
+
+    await flush();
+    expect(order).toEqual([]);
+
+    release1();
+    (await second)();
+    (await third)();
+    expect(order).toEqual([2, 3]);
+  });
+
+  it('ignores repeated release calls', async () => {
+    const sem = new Semaphore(1);
+    const release = await sem.acquire();
+    release();
+    release();
+
+    await sem.acquire();
+    let acquired = false;
+    sem.acquire().then(() => { acquired = true; });
+    await flush();
+    expect(acquired).toBe(false);
+  });
+});
+
+describe('TokenBucket', () => {
+  it('allows a burst, then paces requests to the rate', async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(10, 2);
+    const done: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      bucket.take().then(() => done.push(i));
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(done).toEqual([0, 1, 2]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(done).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('RateLimiter rules', () => {
+  it('applies a rule only to matching calls', async () => {
+    const limiter = new RateLimiter({
+      rules: [{ function: 'get_resource_path', match: p => p.generate === 1, maxConcurrent: 1 }],
+    });
+
+    await limiter.acquire('get_resource_path', { generate: 1 });
+
+    let blocked = true;
+    limiter.acquire('get_resource_path', { generate: 1 }).then(() => { blocked = false; });
+    await limiter.acquire('get_resource_path', { generate: 0 });
+    await limiter.acquire('do_search', {});
+    await flush();
+
+    expect(blocked).toBe(true);
+  });
+});
+
+describe('RSClientCore rate limiting', () => {
+  it('caps requests in flight', async () => {
+    const deferred = deferredTransport();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: deferred.transport,
+      rateLimit: { maxConcurrent: 2 },
+    });
+
+    const calls = Array.from({ length: 5 }, (_, i) => client.makeRequest('get_resource_data', { resource: i + 1 }));
+    for (let i = 0; i < 5; i++) {
+      await flush();
+      deferred.resolveAll();
+    }
+    await Promise.all(calls);
+
+    expect(deferred.transport).toHaveBeenCalledTimes(5);
+    expect(deferred.maxInFlight).toBe(2);
+  });
+
+  it('releases the slot when a request fails', async () => {
+    const transport = vi.fn().mockResolvedValue({ status: 403, text: () => Promise.resolve('[]') });
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, rateLimit: { maxConcurrent: 1 } });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow();
+    await expect(client.makeRequest('do_search')).rejects.toThrow();
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => new RSClientCore({ ...TEST_CONFIG, rateLimit: { requestsPerSecond: 0 } }))
+      .toThrow(ConfigurationError);
+    expect(() => new RSClientCore({
+      ...TEST_CONFIG,
+      rateLimit: { rules: [{ function: 'do_search', maxConcurrent: 1.5 }] },
+    })).toThrow(ConfigurationError);
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import { normalizeResponse, ensureArray, toNumber } from '../../src/utils/response.js';
-import { ResourceSpaceError, PermissionError } from '../../src/core/errors.js';
+import {
+  ResourceSpaceError,
+  PermissionError,
+  NotFoundError,
+  ServerError,
+  InvalidResponseError,
+} from '../../src/core/errors.js';
 
 describe('normalizeResponse', () => {
   it('passes through objects unchanged', () => {
@@ -47,6 +53,53 @@ describe('normalizeResponse', () => {
     expect(() => normalizeResponse({ error: 'Something went wrong' }, 'test'))
       .toThrow(ResourceSpaceError);
   });
+
+  it('throws PermissionError for "Invalid signature"', () => {
+    expect(() => normalizeResponse('Invalid signature', 'do_search'))
+      .toThrow(PermissionError);
+  });
+
+  it('throws NotFoundError for "not found" errors', () => {
+    expect(() => normalizeResponse('Error: resource not found', 'get_resource_data'))
+      .toThrow(NotFoundError);
+    expect(() => normalizeResponse({ error: 'Collection does not exist' }, 'delete_collection'))
+      .toThrow(NotFoundError);
+  });
+
+  it('throws ServerError for PHP errors in the body', () => {
+    const html = '<br />\n<b>Fatal error</b>: Uncaught TypeError in /var/www/include/db.php';
+    expect(() => normalizeResponse(html, 'do_search')).toThrow(ServerError);
+    expect(() => normalizeResponse('PHP Parse error:  syntax error in api.php', 'do_search'))
+      .toThrow(ServerError);
+    expect(() => normalizeResponse('Internal Server Error', 'do_search')).toThrow(ServerError);
+  });
+
+  it('passes through ordinary strings that mention error words', () => {
+    const caption = 'Fixed the parse error in the caption; see the Invalid Signature exhibit';
+    expect(normalizeResponse(caption, 'get_resource_field_data')).toBe(caption);
+    expect(normalizeResponse(JSON.stringify('A fatal error of judgement'), 'get_data_by_field'))
+      .toBe('A fatal error of judgement');
+  });
+
+  it('throws InvalidResponseError for HTML pages', () => {
+    expect(() => normalizeResponse('<!DOCTYPE html><html><title>Login</title></html>', 'do_search'))
+      .toThrow(InvalidResponseError);
+  });
+
+  it('exposes a stable code on each error class', () => {
+    const codeOf = (data: unknown) => {
+      try {
+        normalizeResponse(data, 'test');
+      } catch (error) {
+        return (error as ResourceSpaceError).code;
+      }
+    };
+    expect(codeOf('Access denied')).toBe('PERMISSION_DENIED');
+    expect(codeOf('Error: no such field')).toBe('NOT_FOUND');
+    expect(codeOf('PHP Parse error: syntax error')).toBe('SERVER_ERROR');
+    expect(codeOf('<html></html>')).toBe('INVALID_RESPONSE');
+    expect(codeOf({ error: 'Something went wrong' })).toBe('RS_ERROR');
+  });
 });
 
 describe('ensureArray', () => {
@@ -0,0 +1,156 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import { computeBackoff, isRetryableError, RetryBudget } from '../../src/core/retry.js';
+import { ResourceSpaceError, PermissionError, ConfigurationError } from '../../src/core/errors.js';
+import { TEST_CONFIG } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** Transport that fails with the given statuses, then returns `[]`. */
+function failingTransport(...statuses: number[]) {
+  let call = 0;
+  return vi.fn().mockImplementation(() => {
+    const status = statuses[call++] ?? 200;
+    return Promise.resolve({
+      status,
+      text: () => Promise.resolve(status === 200 ? '[]' : 'Bad Gateway'),
+    });
+  });
+}
+
+const FAST_RETRY = { baseDelayMs: 1, jitter: false };
+
+describe('computeBackoff', () => {
+  const policy = { baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+  it('grows exponentially', () => {
+    expect(computeBackoff(1, policy)).toBe(100);
+    expect(computeBackoff(2, policy)).toBe(200);
+    expect(computeBackoff(3, policy)).toBe(400);
+  });
+
+  it('caps at maxDelayMs', () => {
+    expect(computeBackoff(10, policy)).toBe(1000);
+  });
+
+  it('applies full jitter', () => {
+    expect(computeBackoff(2, { ...policy, jitter: true }, () => 0.5)).toBe(100);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries 5xx server errors', () => {
+    expect(isRetryableError(new ResourceSpaceError('x', 'do_search', 503))).toBe(true);
+  });
+
+  it('retries transport failures', () => {
+    const err = new ResourceSpaceError('x', 'do_search', undefined, undefined, new TypeError('fetch failed'));
+    expect(isRetryableError(err)).toBe(true);
+  });
+
+  it('does not retry RS error responses or permission errors', () => {
+    expect(isRetryableError(new ResourceSpaceError('x', 'do_search', undefined, 'Error: bad'))).toBe(false);
+    expect(isRetryableError(new PermissionError('do_search'))).toBe(false);
+    expect(isRetryableError(new Error('plain'))).toBe(false);
+  });
+});
+
+describe('RetryBudget', () => {
+  it('stops allowing retries once half the budget is spent', () => {
+    const budget = new RetryBudget(4, 0.5);
+    budget.onFailure();
+    expect(budget.canRetry()).toBe(true);
+    budget.onFailure();
+    expect(budget.canRetry()).toBe(false);
+    budget.onSuccess();
+    expect(budget.canRetry()).toBe(true);
+  });
+});
+
+describe('RSClientCore retries', () => {
+  it('retries read-only functions on 5xx', async () => {
+    const transport = failingTransport(502, 503);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: FAST_RETRY });
+
+    await expect(client.makeRequest('get_resource_data', { resource: 1 })).resolves.toEqual([]);
+    expect(transport).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const transport = failingTransport(500, 500, 500, 500);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: { ...FAST_RETRY, maxAttempts: 2 } });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow(ResourceSpaceError);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries network errors', async () => {
+    const transport = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValue({ status: 200, text: () => Promise.resolve('[]') });
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: FAST_RETRY });
+
+    await client.makeRequest('do_search');
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry mutations by default', async () => {
+    const transport = failingTransport(500);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: FAST_RETRY });
+
+    await expect(client.makeRequest('create_resource', { resource_type: 1 })).rejects.toThrow();
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries mutations when the caller opts in', async () => {
+    const transport = failingTransport(500);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: FAST_RETRY });
+
+    await client.makeRequest('copy_resource', { from: 1 }, { retry: true });
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry when the call opts out', async () => {
+    const transport = failingTransport(500);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: FAST_RETRY });
+
+    await expect(client.makeRequest('do_search', {}, { retry: false })).rejects.toThrow();
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry when disabled in config', async () => {
+    const transport = failingTransport(500);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: false });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow();
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry permission errors', async () => {
+    const transport = failingTransport(403);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, retry: FAST_RETRY });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow(PermissionError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying when the retry budget is exhausted', async () => {
+    const transport = failingTransport(...Array(20).fill(500));
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport,
+      retry: { ...FAST_RETRY, maxAttempts: 10, budgetTokens: 4 },
+    });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow();
+    // Attempt 1 fails (4 → 3, retry), attempt 2 fails (3 → 2, budget at half — stop)
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects invalid retry config', () => {
+    expect(() => new RSClientCore({ ...TEST_CONFIG, retry: { maxAttempts: 0 } }))
+      .toThrow(ConfigurationError);
+  });
+});
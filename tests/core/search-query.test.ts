@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { SearchQuery } from '../../src/utils/search-query.js';
+import { ValidationError } from '../../src/core/errors.js';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { createAdminClient } from '../../src/factories.js';
+
+describe('SearchQuery rendering', () => {
+  it('renders every kind of term, comma-separated', () => {
+    const query = new SearchQuery()
+      .keywords('sunset', 'beach')
+      .exclude('night')
+      .field(8, 'Harbour')
+      .fieldKeyword('country', 'france')
+      .anyOf('country', ['France', 'Spain'])
+      .dateRange('date', { from: '2020-01-01', to: new Date(Date.UTC(2020, 11, 31)) })
+      .collection(42)
+      .list([1, 2, 3])
+      .related(7)
+      .hasData(12)
+      .empty(13)
+      .node(5, 6);
+
+    expect(query.toString()).toBe(
+      'sunset, beach, -night, !field8=Harbour, country:france, country:France;Spain, '
+      + 'date:rangestart2020-01-01end2020-12-31, !collection42, !list1:2:3, !related7, !hasdata12, !empty13, '
+      + '@@5@@6',
+    );
+  });
+
+  it('quotes values that contain separators or start with syntax', () => {
+    const query = new SearchQuery()
+      .keywords('New York')
+      .exclude('a,b')
+      .field(8, 'Paris, France')
+      .fieldKeyword('title', '10:30')
+      .anyOf('country', ['Bosnia; Herzegovina', 'Chad'])
+      .keywords('-minus', '!bang', '@@node');
+
+    expect(query.toString()).toBe(
+      '"New York", -"a,b", !field8="Paris, France", title:"10:30", country:"Bosnia; Herzegovina";Chad, '
+      + '"-minus", "!bang", "@@node"',
+    );
+  });
+
+  it('renders open-ended date ranges', () => {
+    expect(new SearchQuery().dateRange('date', { from: '2021-05-01' }).toString())
+      .toBe('date:rangestart2021-05-01');
+    expect(new SearchQuery().dateRange('date', { to: '2021-05-01' }).toString())
+      .toBe('date:rangeend2021-05-01');
+  });
+
+  it('is empty until a term is added', () => {
+    const query = new SearchQuery();
+    expect(query.isEmpty).toBe(true);
+    expect(query.toString()).toBe('');
+    expect(query.keywords('x').isEmpty).toBe(false);
+  });
+});
+
+describe('SearchQuery validation', () => {
+  it('rejects values it cannot express', () => {
+    expect(() => new SearchQuery().keywords('say "hi"')).toThrow(ValidationError);
+    expect(() => new SearchQuery().keywords('  ')).toThrow(ValidationError);
+    expect(() => new SearchQuery().anyOf('country', [])).toThrow(ValidationError);
+    expect(() => new SearchQuery().list([])).toThrow(ValidationError);
+    expect(() => new SearchQuery().node()).toThrow(ValidationError);
+  });
+
+  it('rejects bad IDs, shortnames and dates', () => {
+    expect(() => new SearchQuery().collection(0)).toThrow(ValidationError);
+    expect(() => new SearchQuery().field(1.5, 'x')).toThrow(ValidationError);
+    expect(() => new SearchQuery().fieldKeyword('title:x', 'y')).toThrow(ValidationError);
+    expect(() => new SearchQuery().dateRange('date', {})).toThrow(ValidationError);
+    expect(() => new SearchQuery().dateRange('date', { from: '2020/01/01' })).toThrow(ValidationError);
+    expect(() => new SearchQuery().dateRange('date', { to: new Date('nope') })).toThrow(ValidationError);
+  });
+});
+
+describe('SearchQuery against FakeResourceSpace', () => {
+  it('finds what the terms describe', async () => {
+    const rs = new FakeResourceSpace();
+    const client = createAdminClient({ ...rs.clientConfig(), retry: false });
+    const france = rs.addNode('country', 'France');
+    const spain = rs.addNode('country', 'Spain');
+    const paris = rs.addResource({ fields: { title: 'Paris, at night', country: 'France', date: '2020-06-01' } });
+    const madrid = rs.addResource({ fields: { title: 'Madrid by day', country: 'Spain', date: '2021-06-01' } });
+    const untitled = rs.addResource({ fields: { country: 'France' } });
+    const refs = async (query: SearchQuery) => (await client.search(query)).resources.map(r => r.ref);
+
+    expect(await refs(new SearchQuery().field(8, 'Paris, at night'))).toEqual([paris]);
+    expect(await refs(new SearchQuery().keywords('at night'))).toEqual([paris]);
+    expect(await refs(new SearchQuery().anyOf('country', ['France', 'Spain']).exclude('night')))
+      .toEqual([madrid, untitled]);
+    expect(await refs(new SearchQuery().dateRange('date', { from: '2021-01-01' }))).toEqual([madrid]);
+    expect(await refs(new SearchQuery().empty(8))).toEqual([untitled]);
+    expect(await refs(new SearchQuery().hasData(8).fieldKeyword('country', 'france'))).toEqual([paris]);
+    expect(await refs(new SearchQuery().node(spain))).toEqual([madrid]);
+    expect(await refs(new SearchQuery().node(france, spain).keywords('night'))).toEqual([paris]);
+  });
+});
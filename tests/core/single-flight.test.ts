@@ -0,0 +1,138 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import { SingleFlight } from '../../src/core/single-flight.js';
+import { ResourceSpaceError } from '../../src/core/errors.js';
+import type { RSLogger } from '../../src/core/types.js';
+import { TEST_CONFIG, mockTransport } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('SingleFlight', () => {
+  it('shares one execution between concurrent callers', async () => {
+    const sf = new SingleFlight();
+    const work = vi.fn().mockResolvedValue([{ ref: 1 }]);
+
+    const [a, b] = await Promise.all([sf.run('k', work), sf.run('k', work)]);
+
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(a).toEqual(b);
+    expect(a).not.toBe(b); // followers get their own copy
+    expect(sf.stats).toEqual({ executed: 1, coalesced: 1, inFlight: 0 });
+  });
+
+  it('runs again once the previous call settled', async () => {
+    const sf = new SingleFlight();
+    const work = vi.fn().mockResolvedValue(1);
+
+    await sf.run('k', work);
+    await sf.run('k', work);
+
+    expect(work).toHaveBeenCalledTimes(2);
+  });
+
+  it('propagates failures to every caller', async () => {
+    const sf = new SingleFlight();
+    const work = vi.fn().mockRejectedValue(new Error('boom'));
+
+    const results = await Promise.allSettled([sf.run('k', work), sf.run('k', work)]);
+
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(results.every(r => r.status === 'rejected')).toBe(true);
+  });
+});
+
+describe('RSClientCore request coalescing', () => {
+  it('coalesces identical concurrent reads into one request', async () => {
+    const transport = mockTransport({ ref: 42 });
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    await Promise.all([
+      client.makeRequest('get_resource_data', { resource: 42 }),
+      client.makeRequest('get_resource_data', { resource: 42 }),
+      client.makeRequest('get_resource_data', { resource: 42 }),
+    ]);
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(client.coalescingStats).toEqual({ executed: 1, coalesced: 2, inFlight: 0 });
+  });
+
+  it('treats params in a different order as identical', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    await Promise.all([
+      client.makeRequest('do_search', { search: 'a', offset: 0 }),
+      client.makeRequest('do_search', { offset: 0, search: 'a' }),
+    ]);
+
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not coalesce different params', async () => {
+    const transport = mockTransport({});
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    await Promise.all([
+      client.makeRequest('get_resource_data', { resource: 1 }),
+      client.makeRequest('get_resource_data', { resource: 2 }),
+    ]);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('never coalesces mutations', async () => {
+    const transport = mockTransport(5);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport });
+
+    await Promise.all([
+      client.makeRequest('create_resource', { resource_type: 1 }),
+      client.makeRequest('create_resource', { resource_type: 1 }),
+    ]);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('can be disabled', async () => {
+    const transport = mockTransport([]);
+    const client = new RSClientCore({ ...TEST_CONFIG, transport, coalesceRequests: false });
+
+    await Promise.all([
+      client.makeRequest('get_featured_collections', { parent: 0 }),
+      client.makeRequest('get_featured_collections', { parent: 0 }),
+    ]);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(client.coalescingStats).toBeNull();
+  });
+
+  it('shares errors with coalesced callers', async () => {
+    const client = new RSClientCore({ ...TEST_CONFIG, transport: mockTransport('Error: bad') });
+
+    const results = await Promise.allSettled([
+      client.makeRequest('get_resource_data', { resource: 1 }),
+      client.makeRequest('get_resource_data', { resource: 1 }),
+    ]);
+
+    for (const r of results) {
+      expect(r.status).toBe('rejected');
+      expect((r as PromiseRejectedResult).reason).toBeInstanceOf(ResourceSpaceError);
+    }
+  });
+
+  it('logs coalescing stats', async () => {
+    const logger: RSLogger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = new RSClientCore({ ...TEST_CONFIG, transport: mockTransport([]), logger });
+
+    await Promise.all([
+      client.makeRequest('get_featured_collections', { parent: 0 }),
+      client.makeRequest('get_featured_collections', { parent: 0 }),
+    ]);
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      'RS API request coalesced: get_featured_collections',
+      expect.objectContaining({ coalesced: 1, executed: 1, inFlight: 1 }),
+    );
+  });
+});
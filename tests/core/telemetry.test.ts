@@ -0,0 +1,187 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RSClientCore } from '../../src/core/client.js';
+import type { RSAttributes, RSAttributeValue, RSMeter, RSSpan, RSTracer } from '../../src/core/types.js';
+import { TEST_CONFIG, mockTransport } from '../helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+interface RecordedSpan {
+  name: string;
+  attributes: RSAttributes;
+  status?: { code: number; message?: string };
+  exceptions: unknown[];
+  ended: boolean;
+}
+
+function fakeTracer() {
+  const spans: RecordedSpan[] = [];
+  const tracer: RSTracer = {
+    startSpan(name, options) {
+      const recorded: RecordedSpan = {
+        name,
+        attributes: { ...options?.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: RSSpan = {
+        setAttribute(key: string, value: RSAttributeValue) { recorded.attributes[key] = value; },
+        setStatus(status) { recorded.status = status; },
+        recordException(exception) { recorded.exceptions.push(exception); },
+        end() { recorded.ended = true; },
+      };
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+function fakeMeter() {
+  const points: Array<{ instrument: string; value: number; attributes?: RSAttributes }> = [];
+  const meter: RSMeter = {
+    createCounter(name) {
+      return { add: (value, attributes) => points.push({ instrument: name, value, attributes }) };
+    },
+    createHistogram(name) {
+      return { record: (value, attributes) => points.push({ instrument: name, value, attributes }) };
+    },
+  };
+  return { meter, points };
+}
+
+describe('RSClientCore telemetry', () => {
+  it('creates one span per call with request attributes', async () => {
+    const { tracer, spans } = fakeTracer();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([{ ref: 1 }]),
+      telemetry: { tracer },
+    });
+
+    await client.makeRequest('do_search', { search: 'cats' });
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: 'rs do_search',
+      ended: true,
+      status: { code: 1 },
+      attributes: {
+        'rs.function': 'do_search',
+        'rs.auth_mode': 'apiKey',
+        'rs.param.search': 'cats',
+        'rs.status': 'ok',
+        'rs.retry_count': 0,
+        'http.response.status_code': 200,
+        'rs.response_size': 11,
+      },
+    });
+    expect(spans[0].attributes['rs.duration_ms']).toBeTypeOf('number');
+  });
+
+  it('redacts secrets in span attributes', async () => {
+    const { tracer, spans } = fakeTracer();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport('k'.repeat(40)),
+      telemetry: { tracer },
+    });
+
+    await client.makeRequest('login', { username: 'alice', password: 'hunter2' });
+
+    expect(spans[0].attributes['rs.param.username']).toBe('alice');
+    expect(spans[0].attributes['rs.param.password']).toBe('***');
+  });
+
+  it('redacts secrets inside JSON params in span attributes', async () => {
+    const { tracer, spans } = fakeTracer();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport({ status: 'success', data: null }),
+      telemetry: { tracer },
+    });
+
+    await client.makeRequest('save_user', {
+      ref: 5,
+      data: JSON.stringify({ fullname: 'Alice', password: 'correct-horse-battery' }),
+    });
+
+    const data = spans[0].attributes['rs.param.data'];
+    expect(data).not.toContain('correct-horse-battery');
+    expect(JSON.parse(data as string)).toEqual({ fullname: 'Alice', password: '***' });
+  });
+
+  it('records failures with the error code and retry count', async () => {
+    const { tracer, spans } = fakeTracer();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport('Bad Gateway', 502),
+      retry: { maxAttempts: 2, baseDelayMs: 1, jitter: false },
+      telemetry: { tracer },
+    });
+
+    await expect(client.makeRequest('do_search')).rejects.toThrow();
+
+    expect(spans[0].status?.code).toBe(2);
+    expect(spans[0].exceptions).toHaveLength(1);
+    expect(spans[0].attributes).toMatchObject({
+      'rs.status': 'error',
+      'error.type': 'SERVER_ERROR',
+      'rs.retry_count': 1,
+      'http.response.status_code': 502,
+    });
+  });
+
+  it('records counters and histograms per function', async () => {
+    const { meter, points } = fakeMeter();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([]),
+      telemetry: { meter },
+    });
+
+    await client.makeRequest('get_users', {});
+
+    const names = points.map(p => p.instrument);
+    expect(names).toEqual(['rs.client.requests', 'rs.client.duration', 'rs.client.response.size']);
+    expect(points[0]).toEqual({
+      instrument: 'rs.client.requests',
+      value: 1,
+      attributes: { 'rs.function': 'get_users', 'rs.status': 'ok', 'rs.cache_hit': false },
+    });
+    expect(points[2]).toMatchObject({ value: 2, attributes: { 'rs.function': 'get_users' } });
+  });
+
+  it('marks cache hits', async () => {
+    const { tracer, spans } = fakeTracer();
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([]),
+      cache: {},
+      telemetry: { tracer },
+    });
+
+    await client.makeRequest('get_resource_types');
+    await client.makeRequest('get_resource_types');
+
+    expect(spans[1].attributes['rs.cache_hit']).toBe(true);
+    expect(spans[1].attributes['http.response.status_code']).toBeUndefined();
+  });
+
+  it('never fails a request because the tracer throws', async () => {
+    const warn = vi.fn();
+    const tracer: RSTracer = {
+      startSpan() { throw new Error('exporter down'); },
+    };
+    const client = new RSClientCore({
+      ...TEST_CONFIG,
+      transport: mockTransport([]),
+      telemetry: { tracer },
+      logger: { debug() {}, info() {}, warn, error() {} },
+    });
+
+    await expect(client.makeRequest('do_search')).resolves.toEqual([]);
+    expect(warn).toHaveBeenCalledWith('RS telemetry failed to start span', { error: 'exporter down' });
+  });
+});
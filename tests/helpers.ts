@@ -46,3 +46,16 @@ export function getCapturedParams(mockFn: ReturnType<typeof vi.fn>): URLSearchPa
 export function createTestCore(configOverrides?: Partial<RSConfig>): RSClientCore {
   return new RSClientCore({ ...TEST_CONFIG, ...configOverrides });
 }
+
+/**
+ * Create a mock transport returning a specific JSON body.
+ * Pass it as `config.transport` instead of stubbing global fetch.
+ */
+export function mockTransport(responseBody: unknown, status = 200) {
+  return vi.fn().mockResolvedValue({
+    status,
+    text: () => Promise.resolve(
+      typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody),
+    ),
+  });
+}
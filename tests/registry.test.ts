@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ClientRegistry } from '../src/registry.js';
+import { createClient } from '../src/factories.js';
+import { withSearch } from '../src/capabilities/search.js';
+import { withSystem } from '../src/capabilities/system.js';
+import { ConfigurationError } from '../src/core/errors.js';
+import type { RSConfig } from '../src/core/types.js';
+import { TEST_CONFIG, mockTransport } from './helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function config(overrides: Partial<RSConfig> = {}): RSConfig {
+  return { ...TEST_CONFIG, transport: mockTransport([]), ...overrides };
+}
+
+describe('ClientRegistry', () => {
+  it('builds each client lazily, once', () => {
+    const create = vi.fn((c: RSConfig) => createClient(c, withSearch));
+    const registry = new ClientRegistry({
+      staging: { config: config(), create },
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    const client = registry.get('staging');
+
+    expect(registry.get('staging')).toBe(client);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives each instance its own capabilities and config', () => {
+    const registry = new ClientRegistry({
+      staging: {
+        config: config({ baseUrl: 'https://staging.example.com/api/' }),
+        create: c => createClient(c, withSearch),
+      },
+      archive: { config: () => config(), create: c => createClient(c, withSystem) },
+    });
+
+    const staging = registry.get('staging');
+    const archive = registry.get('archive');
+
+    expect(staging.config.baseUrl).toBe('https://staging.example.com/api/');
+    expect(typeof staging.search).toBe('function');
+    expect('search' in archive).toBe(false);
+    expect(typeof archive.getResourceTypes).toBe('function');
+    expect(registry.names).toEqual(['staging', 'archive']);
+  });
+
+  it('throws ConfigurationError for unknown or unconfigured instances', () => {
+    const registry = new ClientRegistry({
+      partner: { config: () => null, create: c => createClient(c, withSearch) },
+    });
+
+    expect(() => registry.get('partner')).toThrow(ConfigurationError);
+    expect(() => (registry as ClientRegistry<Record<string, never>>).get('nope')).toThrow(/Unknown RS instance/);
+  });
+
+  it('health-checks every instance without throwing', async () => {
+    const registry = new ClientRegistry({
+      production: { config: config(), create: c => createClient(c, withSearch) },
+      staging: {
+        config: config({ transport: mockTransport('Bad Gateway', 502) }),
+        create: c => createClient(c, withSearch),
+      },
+      partner: { config: () => null, create: c => createClient(c, withSearch) },
+    });
+
+    const health = await registry.healthCheck();
+
+    expect(health.production).toMatchObject({ ok: true, circuitState: 'closed' });
+    expect(health.staging).toMatchObject({ ok: false, code: 'SERVER_ERROR' });
+    expect(health.partner).toMatchObject({ ok: false, code: 'CONFIGURATION' });
+  });
+});
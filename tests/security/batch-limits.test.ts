@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { RSClientCore } from '../../src/core/client.js';
 import { withBatch } from '../../src/capabilities/batch.js';
-import { BatchSizeLimitError } from '../../src/core/errors.js';
+import { BatchSizeLimitError, UrlTooLongError } from '../../src/core/errors.js';
 
 const TEST_CONFIG = {
   baseUrl: 'https://dam.example.com/api/',
@@ -63,3 +63,61 @@ describe('batch size limits', () => {
     await expect(clientDefault.batchFieldUpdate(tooMany, 8, 'test')).rejects.toThrow(BatchSizeLimitError);
   });
 });
+
+describe('batch URL length splitting', () => {
+  const ids = Array.from({ length: 100 }, (_, i) => 100000 + i);
+
+  function setup(maxUrlLength: number) {
+    const client = withBatch(new RSClientCore({ ...TEST_CONFIG, maxBatchSize: 100, maxUrlLength }));
+    const makeRequest = vi.spyOn(client, 'makeRequest').mockResolvedValue(true);
+    return { client, makeRequest };
+  }
+
+  it('sends one request when the URL fits', async () => {
+    const { client, makeRequest } = setup(8000);
+
+    await client.batchDelete(ids);
+
+    expect(makeRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('splits the ID list into requests that each fit', async () => {
+    const { client, makeRequest } = setup(400);
+
+    await expect(client.batchFieldUpdate(ids, 8, 'test')).resolves.toBe(true);
+
+    expect(makeRequest.mock.calls.length).toBeGreaterThan(1);
+    const sent = makeRequest.mock.calls.flatMap(([fn, params]) => {
+      expect(fn).toBe('update_field');
+      expect(params?.field).toBe(8);
+      expect(client.measureUrl(fn, params)).toBeLessThanOrEqual(400);
+      return String(params?.resource).split(',').map(Number);
+    });
+    expect(sent).toEqual(ids);
+  });
+
+  it('keeps the node list intact when splitting batchNodesAdd', async () => {
+    const { client, makeRequest } = setup(400);
+
+    await client.batchNodesAdd(ids, [1, 2, 3]);
+
+    expect(makeRequest.mock.calls.length).toBeGreaterThan(1);
+    for (const [, params] of makeRequest.mock.calls) {
+      expect(params?.nodes).toBe('1,2,3');
+    }
+  });
+
+  it('returns false if any request reports failure', async () => {
+    const { client, makeRequest } = setup(400);
+    makeRequest.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    await expect(client.batchArchiveStatus(ids, 2)).resolves.toBe(false);
+  });
+
+  it('throws UrlTooLongError before sending when a single ID cannot fit', async () => {
+    const { client, makeRequest } = setup(400);
+
+    await expect(client.batchFieldUpdate(ids, 8, 'x'.repeat(400))).rejects.toThrow(UrlTooLongError);
+    expect(makeRequest).not.toHaveBeenCalled();
+  });
+});
@@ -28,14 +28,14 @@ describe('save_user field allowlist', () => {
     });
 
     expect(client.makeRequest).toHaveBeenCalledWith('save_user', {
-      ref: '1',
+      ref: 1,
       data: JSON.stringify({
         fullname: 'Test User',
         email: 'test@example.com',
         password: 'newpass',
         comments: 'note',
       }),
-    });
+    }, undefined);
   });
 
   it('strips disallowed fields: usergroup', async () => {
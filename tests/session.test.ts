@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SessionManager, MemorySessionStore, isSessionKeyError } from '../src/session.js';
+import { withSearch } from '../src/capabilities/search.js';
+import { NetworkError, PermissionError, SessionExpiredError } from '../src/core/errors.js';
+import { generateSignature } from '../src/utils/signature.js';
+import { TEST_CONFIG } from './helpers.js';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const KEY_1 = '1'.repeat(32);
+const KEY_2 = '2'.repeat(32);
+
+/** True if a session-key request URL was signed with `key`. */
+function signedWith(url: string, key: string): boolean {
+  const [, query] = url.split('?');
+  const sign = new URL(url).searchParams.get('sign');
+  return sign === generateSignature(key, query.replace(/&authmode=sessionkey&sign=\w+$/, ''));
+}
+
+/**
+ * Session manager against a fake RS that only accepts the current key;
+ * other keys get "Invalid signature" (or `rejection`).
+ */
+function setup(reauthenticate?: (username: string) => string | null, rejection = 'Invalid signature') {
+  let validKey = KEY_1;
+  const issued = [KEY_1, KEY_2];
+  const checkCredentials = vi.fn().mockImplementation(async () => issued.shift() ?? null);
+  const transport = vi.fn().mockImplementation(async (url: string) => {
+    const body = signedWith(url, validKey) ? '[{"ref":1}]' : JSON.stringify(rejection);
+    return { status: 200, text: () => Promise.resolve(body) };
+  });
+  const store = new MemorySessionStore();
+  const manager = new SessionManager({
+    auth: { checkCredentials },
+    config: { baseUrl: TEST_CONFIG.baseUrl, transport, retry: false },
+    capabilities: core => withSearch(core),
+    store,
+    reauthenticate,
+  });
+  return { manager, store, checkCredentials, transport, expire: () => { validKey = KEY_2; } };
+}
+
+describe('SessionManager', () => {
+  it('logs in and returns a session-key client', async () => {
+    const { manager, store, transport } = setup();
+
+    const client = await manager.login('alice', 'pw');
+    const result = await client.search('cats');
+
+    expect(result.resources).toEqual([{ ref: 1 }]);
+    expect(await store.get('alice')).toMatchObject({ username: 'alice', sessionKey: KEY_1 });
+    const url = new URL(transport.mock.calls[0][0] as string);
+    expect(url.searchParams.get('user')).toBe('alice');
+    expect(url.searchParams.get('authmode')).toBe('sessionkey');
+  });
+
+  it('rejects invalid credentials', async () => {
+    const { manager, checkCredentials } = setup();
+    checkCredentials.mockResolvedValue(null);
+
+    await expect(manager.login('alice', 'wrong')).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('resumes a stored session and logs out', async () => {
+    const { manager } = setup();
+    const client = await manager.login('alice', 'pw');
+
+    expect(await manager.resume('alice')).toBe(client);
+    await manager.logout('alice');
+    expect(await manager.resume('alice')).toBeNull();
+  });
+
+  it('builds a client from a session stored by another process', async () => {
+    const { manager, store } = setup();
+    await store.set('bob', { username: 'bob', sessionKey: KEY_1, createdAt: 0 });
+
+    const client = await manager.resume('bob');
+
+    expect((await client!.search('cats')).resources).toEqual([{ ref: 1 }]);
+  });
+});
+
+describe('session key renewal', () => {
+  it('re-authenticates and repeats the call when the key is rejected', async () => {
+    const reauthenticate = vi.fn().mockReturnValue('pw');
+    const { manager, store, transport, expire } = setup(reauthenticate);
+    const client = await manager.login('alice', 'pw');
+    expire();
+
+    const result = await client.search('cats');
+
+    expect(result.resources).toEqual([{ ref: 1 }]);
+    expect(reauthenticate).toHaveBeenCalledWith('alice');
+    expect(signedWith(transport.mock.calls[1][0] as string, KEY_2)).toBe(true);
+    expect((await store.get('alice'))?.sessionKey).toBe(KEY_2);
+  });
+
+  it('shares one renewal between concurrent failures', async () => {
+    const reauthenticate = vi.fn().mockReturnValue('pw');
+    const { manager, checkCredentials, expire } = setup(reauthenticate);
+    const client = await manager.login('alice', 'pw');
+    expire();
+
+    await Promise.all([client.search('a'), client.search('b')]);
+
+    expect(reauthenticate).toHaveBeenCalledTimes(1);
+    expect(checkCredentials).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses a key renewed by another process without logging in again', async () => {
+    const reauthenticate = vi.fn().mockReturnValue('pw');
+    const { manager, store, expire } = setup(reauthenticate);
+    const client = await manager.login('alice', 'pw');
+    expire();
+    await store.set('alice', { username: 'alice', sessionKey: KEY_2, createdAt: 0 });
+
+    await client.search('cats');
+
+    expect(reauthenticate).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when re-authentication is declined', async () => {
+    const { manager, store, expire } = setup(() => null);
+    const client = await manager.login('alice', 'pw');
+    expire();
+
+    const error = await client.search('cats').catch(e => e);
+
+    expect(error).toBeInstanceOf(SessionExpiredError);
+    expect(error.code).toBe('SESSION_EXPIRED');
+    expect(await store.get('alice')).toBeUndefined();
+  });
+
+  it('keeps the session when RS cannot be reached during re-authentication', async () => {
+    const { manager, store, checkCredentials, expire } = setup(() => 'pw');
+    const client = await manager.login('alice', 'pw');
+    expire();
+    checkCredentials.mockRejectedValueOnce(new NetworkError('login', new Error('ECONNRESET')));
+
+    await expect(client.search('cats')).rejects.toBeInstanceOf(NetworkError);
+    expect((await store.get('alice'))?.sessionKey).toBe(KEY_1);
+
+    expect((await client.search('cats')).resources).toEqual([{ ref: 1 }]);
+  });
+
+  it('does not renew on ordinary permission errors', async () => {
+    const reauthenticate = vi.fn().mockReturnValue('pw');
+    const { manager, expire } = setup(reauthenticate, 'Access denied');
+    const client = await manager.login('alice', 'pw');
+    expire();
+
+    await expect(client.search('cats')).rejects.toBeInstanceOf(PermissionError);
+    expect(reauthenticate).not.toHaveBeenCalled();
+  });
+});
+
+describe('isSessionKeyError', () => {
+  it('recognises rejected session keys only', () => {
+    expect(isSessionKeyError(new PermissionError('do_search', 'Invalid signature'))).toBe(true);
+    expect(isSessionKeyError(new PermissionError('do_search', 'HTTP 401'))).toBe(true);
+    expect(isSessionKeyError(new PermissionError('do_search', 'Access denied'))).toBe(false);
+    expect(isSessionKeyError(new PermissionError('do_search', 'Invalid session key'))).toBe(true);
+    expect(isSessionKeyError(new PermissionError('upload_file', 'Access denied: upload session closed')))
+      .toBe(false);
+    expect(isSessionKeyError(new SessionExpiredError('login', 'alice'))).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { FakeResourceSpace } from '../../src/testing/fake-rs.js';
+import { createAdminClient } from '../../src/factories.js';
+import { RSClientCore } from '../../src/core/client.js';
+import { SessionManager } from '../../src/session.js';
+import { withSearch } from '../../src/capabilities/search.js';
+import { PermissionError, ResourceSpaceError } from '../../src/core/errors.js';
+
+function setup() {
+  const rs = new FakeResourceSpace();
+  const client = createAdminClient({ ...rs.clientConfig(), retry: false });
+  return { rs, client };
+}
+
+describe('FakeResourceSpace signatures', () => {
+  it('accepts requests signed with the user key', async () => {
+    const { client } = setup();
+
+    await expect(client.getResourceTypes()).resolves.toHaveLength(2);
+  });
+
+  it('rejects requests signed with another key', async () => {
+    const rs = new FakeResourceSpace();
+    const client = new RSClientCore({ ...rs.clientConfig(), secret: 'b'.repeat(64), retry: false });
+
+    await expect(client.makeRequest('get_resource_types')).rejects.toBeInstanceOf(PermissionError);
+    expect(rs.calls[0]).toMatchObject({ function: 'get_resource_types', user: undefined });
+  });
+
+  it('accepts session keys issued by login until they expire', async () => {
+    const rs = new FakeResourceSpace({ users: [{ username: 'admin', password: 'pw' }] });
+    const admin = createAdminClient({ ...rs.clientConfig(), retry: false });
+    const manager = new SessionManager({
+      auth: admin,
+      config: { baseUrl: rs.baseUrl, transport: rs.transport, retry: false },
+      capabilities: core => withSearch(core),
+    });
+    rs.addResource({ fields: { title: 'Sunset' } });
+
+    const client = await manager.login('admin', 'pw');
+    expect((await client.search('sunset')).resources).toHaveLength(1);
+
+    rs.expireSessions('admin');
+    await expect(client.search('sunset')).rejects.toBeInstanceOf(PermissionError);
+  });
+});
+
+describe('FakeResourceSpace search', () => {
+  it('matches keywords, fields, lists and collections', async () => {
+    const { rs, client } = setup();
+    const sunset = rs.addResource({ fields: { title: 'Sunset over the bay', country: '' } });
+    rs.addNode('country', 'France');
+    const paris = rs.addResource({ fields: { title: 'Paris', country: 'France', keywords: 'city, night' } });
+    const other = rs.addResource({ fields: { title: 'Harbour' } });
+    const collection = rs.addCollection({ name: 'Picks', resources: [other, sunset] });
+
+    expect((await client.search('sunset bay')).resources.map(r => r.ref)).toEqual([sunset]);
+    expect((await client.search('night')).resources.map(r => r.ref)).toEqual([paris]);
+    expect((await client.searchByField(3, 'france')).map(r => r.ref)).toEqual([paris]);
+    expect((await client.search(`!list${paris}:${other}`)).resources.map(r => r.ref)).toEqual([paris, other]);
+    expect((await client.getCollectionResources(collection)).map(r => r.ref)).toEqual([other, sunset]);
+  });
+
+  it('pages with offset and fetchrows and returns data joins', async () => {
+    const { rs, client } = setup();
+    for (const title of ['a', 'b', 'c']) rs.addResource({ fields: { title } });
+
+    const page = await client.search('', { offset: 1, limit: 1, dataJoins: [8] });
+
+    expect(page.resources).toEqual([expect.objectContaining({ ref: 2, field8: 'b' })]);
+    expect(page.hasMore).toBe(true);
+  });
+});
+
+describe('FakeResourceSpace state', () => {
+  it('creates resources and updates fields', async () => {
+    const { rs, client } = setup();
+
+    const ref = await client.createResource(1);
+    await client.batchFieldUpdate([ref], 8, 'New title');
+
+    expect(rs.getFieldValue(ref, 'title')).toBe('New title');
+    expect(await client.getResource(ref)).toMatchObject({ ref, resource_type: 1 });
+  });
+
+  it('manages collections and nodes', async () => {
+    const { rs, client } = setup();
+    const ref = rs.addResource();
+
+    const collection = await client.createCollection({ name: 'Mine' });
+    await client.addToCollection(collection, ref);
+    const node = await client.setNode(3, 'Spain');
+    await client.batchNodesAdd([ref], [node]);
+
+    expect(rs.getCollectionResources(collection)).toEqual([ref]);
+    expect((await client.getCollections()).map(c => c.name)).toEqual(['Mine']);
+    expect(await client.setNode(3, 'Spain')).toBe(node);
+    expect((await client.getNodes(3)).map(n => n.name)).toEqual(['Spain']);
+    expect(rs.getFieldValue(ref, 'country')).toBe('Spain');
+  });
+
+  it('creates users pending approval', async () => {
+    const { rs, client } = setup();
+
+    const ref = await client.createUser({ username: 'bob', email: 'bob@example.com' });
+
+    expect(rs.getUser('bob')).toMatchObject({ ref, approved: 0, email: 'bob@example.com' });
+    expect(await client.getUser('bob')).toMatchObject({ ref, username: 'bob' });
+    expect(await client.getUser('bob')).not.toHaveProperty('apiKey');
+  });
+});
+
+describe('FakeResourceSpace quirks', () => {
+  it('double-encodes JSON', async () => {
+    const { rs, client } = setup();
+    rs.injectQuirk('get_resource_types', { kind: 'jsonString' });
+
+    await expect(client.getResourceTypes()).resolves.toHaveLength(2);
+  });
+
+  it('sends numbers as strings', async () => {
+    const { rs, client } = setup();
+    rs.addResource();
+    rs.injectQuirk('do_search', { kind: 'numericStrings' });
+
+    const [row] = await client.makeRequest<Array<{ ref: unknown }>>('do_search', { search: '' });
+    expect(row.ref).toBe('1');
+  });
+
+  it('answers 200 with an error body, for a limited number of calls', async () => {
+    const { rs, client } = setup();
+    rs.injectQuirk('*', { kind: 'errorBody', message: 'Error: database gone' }, { times: 1 });
+
+    await expect(client.getResourceTypes()).rejects.toBeInstanceOf(ResourceSpaceError);
+    await expect(client.getResourceTypes()).resolves.toHaveLength(2);
+  });
+
+  it('answers 403 with [] and skips the call', async () => {
+    const { rs, client } = setup();
+    rs.injectQuirk('create_resource', { kind: 'forbidden' });
+
+    await expect(client.createResource(1)).rejects.toBeInstanceOf(PermissionError);
+    expect((await client.search('')).resources).toEqual([]);
+  });
+});
+
+describe('FakeResourceSpace over HTTP', () => {
+  it('serves the API on a local port', async () => {
+    const rs = new FakeResourceSpace();
+    rs.addResource({ fields: { title: 'Sunset' } });
+    const server = await rs.listen();
+    try {
+      const client = createAdminClient({ ...rs.clientConfig('admin', server.url), retry: false });
+
+      expect((await client.search('sunset')).resources).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+});